@@ -4,15 +4,28 @@
  * Supports Node.js (via tsx) execution
  */
 import { Command } from 'commander';
-import { CliError, ErrorHandler } from '../core/error-handler';
-import { buildGraph } from '../core/graph-builder';
-import { filterGraph } from '../core/graph-filter';
-import { createLogger, LogCategory } from '../core/logger';
+import { buildProjectGraph, validateGraphOptions } from '../core/analyzer';
+import { createBaseline, readBaseline, serializeBaseline } from '../core/baseline';
+import { findConfigFile, loadConfig } from '../core/config';
+import { CliError, ErrorHandler, ExitCodes } from '../core/error-handler';
+import { checkGraph, formatCheckReport } from '../core/graph-check';
+import { diffGraphs, formatGraphDiff } from '../core/graph-diff';
+import { findPaths, formatPathReport, pathsToGraph } from '../core/graph-path';
+import { isGraphFile, readGraphFile, withGitRevision } from '../core/graph-source';
+import { createLogger, LogCategory, type Logger } from '../core/logger';
 import { OutputHandler } from '../core/output-handler';
-import { AngularParser } from '../core/parser';
-import { JsonFormatter } from '../formatters/json-formatter';
-import { MermaidFormatter } from '../formatters/mermaid-formatter';
-import type { CliOptions } from '../types';
+import { TOOL_VERSION } from '../core/version';
+import { formatWatchSummary, watchProject } from '../core/watch';
+import { createFormatter } from '../formatters/formatter-registry';
+import type {
+  Baseline,
+  CheckRule,
+  CliOptions,
+  DiffFormat,
+  Graph,
+  NgDiGraphConfig,
+  NodeKind,
+} from '../types';
 
 const MIN_NODE_MAJOR_VERSION = 20;
 
@@ -46,169 +59,583 @@ enforceMinimumNodeVersion();
 
 const program = new Command();
 
-program.name('ng-di-graph').description('Angular DI dependency graph CLI tool').version('0.1.0');
+program
+  .name('ng-di-graph')
+  .description('Angular DI dependency graph CLI tool')
+  .version(TOOL_VERSION)
+  // Subcommands such as `check` declare their own --project and --verbose options
+  .enablePositionalOptions();
 
 program
   .option('-p, --project <path>', 'tsconfig.json path', './tsconfig.json')
-  .option('-f, --format <format>', 'output format: json | mermaid', 'json')
+  .option(
+    '-f, --format <format>',
+    'output format: json | mermaid | dot | html | <formatter module or package>',
+    'json'
+  )
   .option('-e, --entry <symbol...>', 'starting nodes for sub-graph')
   .option('-d, --direction <dir>', 'filtering direction: upstream|downstream|both', 'downstream')
+  .option('--depth <n>', 'maximum number of edges followed from the entry points')
   .option('--include-decorators', 'include Optional/Self/SkipSelf/Host flags', false)
   .option('--out <file>', 'output file (stdout if omitted)')
+  .option('--disambiguate', 'label colliding node names with their file path (mermaid)', false)
+  .option('--scope <scope...>', 'only keep nodes providedIn: root|platform|any|<Module>')
+  .option('--show-scope', 'show providedIn scope on nodes (mermaid)', false)
+  .option(
+    '--show-provenance',
+    'label edges with the injected parameter and note where it is injected (mermaid)',
+    false
+  )
+  .option(
+    '--show-metadata',
+    'show source location, selector and standalone flag on nodes (mermaid, dot)',
+    false
+  )
+  .option('--include <glob...>', 'only parse source files matching these globs')
+  .option('--exclude <glob...>', 'skip source files matching these globs (e.g. "*.spec.ts")')
+  .option('--workspace [path]', 'parse every project of angular.json / nx.json (default: .)')
+  .option('--projects <name...>', 'only keep nodes owned by these workspace projects')
+  .option('--hide <pattern...>', 'remove nodes whose label or id matches a glob or /regex/')
+  .option('--only-kind <kind...>', 'only keep nodes of these kinds (e.g. service,component)')
+  .option('--hide-unknown', 'remove unknown nodes (unresolved and framework tokens)', false)
+  .option('--path-prefix <path...>', 'only keep nodes declared below these folders')
+  .option('-w, --watch', 'rewrite the output whenever a source file changes', false)
+  .option(
+    '--cache-dir <dir>',
+    'parse cache directory (default: node_modules/.cache/ng-di-graph next to the tsconfig)'
+  )
+  .option('--no-cache', 'parse every file instead of reusing the parse cache')
+  .option('--workers <n>', 'parse source files in n worker threads (default: 1)')
+  .option('-c, --config <file>', 'config file (default: ./ng-di-graph.config.json or .ts)')
   .option('-v, --verbose', 'show detailed parsing information', false);
 
-program.action(async (options) => {
+/**
+ * Load the configuration file given with --config, or the one found in the working directory
+ * @param configPath Optional --config value
+ * @returns The configuration and its path (empty when there is no file)
+ */
+function loadCommandConfig(configPath?: string): { config: NgDiGraphConfig; configFile?: string } {
+  const configFile = configPath ?? findConfigFile(process.cwd());
+  return configFile ? { config: loadConfig(configFile), configFile } : { config: {} };
+}
+
+/**
+ * Resolve an option value: command-line flags override the configuration file,
+ * which overrides the option defaults
+ * @param command Command whose options are resolved
+ * @param key Option name (camelCase)
+ * @param configValue Value from the configuration file, if any
+ * @returns The effective value
+ */
+function resolveOption<T>(command: Command, key: string, configValue: T | undefined): T {
+  if (command.getOptionValueSource(key) === 'cli' || configValue === undefined) {
+    return command.getOptionValue(key) as T;
+  }
+  return configValue;
+}
+
+/**
+ * Resolve the --workspace value: the flag without a path means the working directory
+ * @param command Command whose options are resolved
+ * @param configValue Workspace path from the configuration file, if any
+ * @returns Workspace path, or undefined for single-project mode
+ */
+function resolveWorkspace(command: Command, configValue?: string): string | undefined {
+  const workspace = resolveOption<string | boolean | undefined>(command, 'workspace', configValue);
+  return workspace === true ? '.' : workspace || undefined;
+}
+
+/**
+ * Resolve the --workers value
+ * @param command Command whose options are resolved
+ * @param configValue Worker count from the configuration file, if any
+ * @returns Number of worker threads, or undefined to parse serially
+ * @throws CliError if the value is not a positive integer
+ */
+function resolveWorkers(command: Command, configValue?: number): number | undefined {
+  const value = resolveOption<string | number | undefined>(command, 'workers', configValue);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const workers = Number(value);
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw ErrorHandler.createError(
+      `Invalid workers: ${value}. Must be a positive integer`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+  return workers;
+}
+
+/**
+ * Start total-execution timing and log the resolved options
+ * @param cliOptions Resolved CLI options
+ * @returns Logger instance when verbose mode is enabled
+ */
+function startExecution(cliOptions: CliOptions): Logger | undefined {
+  // Create Logger when verbose mode is enabled
+  const logger = createLogger(cliOptions.verbose);
+
+  if (logger) {
+    logger.time('total-execution');
+    logger.info(LogCategory.FILE_PROCESSING, 'CLI execution started', {
+      runtime: process.versions.bun ? 'Bun' : 'Node.js',
+      version: process.versions.bun || process.versions.node,
+      options: cliOptions,
+    });
+  }
+
+  // Keep backward compatibility with console.log for user-facing output
+  if (cliOptions.verbose) {
+    console.log('🔧 CLI Options:', JSON.stringify(cliOptions, null, 2));
+    console.log(
+      `🚀 Running with ${process.versions.bun ? 'Bun' : 'Node.js'} ${process.versions.bun || process.versions.node}`
+    );
+  }
+
+  return logger;
+}
+
+/**
+ * Display the performance summary of a verbose run
+ * @param logger Optional Logger instance
+ */
+function reportPerformance(logger?: Logger): void {
+  if (!logger) {
+    return;
+  }
+
+  const totalTime = logger.timeEnd('total-execution');
+  const stats = logger.getStats();
+
+  console.error('\n📊 Performance Summary:');
+  console.error(`  Total time: ${totalTime.toFixed(2)}ms`);
+  console.error(`  Peak memory: ${(stats.memoryUsage.peakUsage / 1024 / 1024).toFixed(2)}MB`);
+  console.error(`  Total logs: ${stats.totalLogs}`);
+}
+
+/**
+ * Report an error thrown by a command and exit with its exit code
+ * @param error Thrown value
+ * @param verbose Include detailed error information
+ */
+function handleCommandError(error: unknown, verbose: boolean): never {
+  // Handle CliError instances with structured error handling
+  if (error instanceof CliError) {
+    ErrorHandler.handleError(error, verbose);
+  }
+
+  if (error instanceof Error) {
+    // Convert generic Error to CliError
+    const cliError = ErrorHandler.createError(error.message, 'INTERNAL_ERROR', undefined, {
+      originalError: error.name,
+    });
+    ErrorHandler.handleError(cliError, verbose);
+  }
+
+  // Handle unknown error types
+  const cliError = ErrorHandler.createError(
+    'An unexpected error occurred',
+    'INTERNAL_ERROR',
+    undefined,
+    { error: String(error) }
+  );
+  ErrorHandler.handleError(cliError, verbose);
+}
+
+program.action(async (options, command: Command) => {
   try {
-    // Validate direction option
-    const validDirections = ['upstream', 'downstream', 'both'];
-    if (options.direction && !validDirections.includes(options.direction)) {
-      throw ErrorHandler.createError(
-        `Invalid direction: ${options.direction}. Must be 'upstream', 'downstream', or 'both'`,
-        'INVALID_ARGUMENTS'
-      );
-    }
+    const { config, configFile } = loadCommandConfig(options.config);
 
-    // Validate format option
-    const validFormats = ['json', 'mermaid'];
-    if (options.format && !validFormats.includes(options.format)) {
+    const depthValue = resolveOption<string | number | undefined>(command, 'depth', config.depth);
+    const depth = depthValue === undefined ? undefined : Number(depthValue);
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
       throw ErrorHandler.createError(
-        `Invalid format: ${options.format}. Must be 'json' or 'mermaid'`,
+        `Invalid depth: ${depthValue}. Must be a non-negative integer`,
         'INVALID_ARGUMENTS'
       );
     }
 
     const cliOptions: CliOptions = {
-      project: options.project,
-      format: options.format as 'json' | 'mermaid',
-      entry: options.entry,
-      direction: options.direction as 'upstream' | 'downstream' | 'both',
-      includeDecorators: options.includeDecorators,
-      out: options.out,
-      verbose: options.verbose,
+      project: resolveOption(command, 'project', config.project),
+      format: resolveOption(command, 'format', config.format),
+      entry: resolveOption(command, 'entry', config.entry),
+      direction: resolveOption(command, 'direction', config.direction),
+      depth,
+      includeDecorators: resolveOption(command, 'includeDecorators', config.includeDecorators),
+      out: resolveOption(command, 'out', config.out),
+      verbose: resolveOption(command, 'verbose', config.verbose),
+      disambiguate: resolveOption(command, 'disambiguate', config.disambiguate),
+      scope: resolveOption(command, 'scope', config.scope),
+      showScope: resolveOption(command, 'showScope', config.showScope),
+      showProvenance: resolveOption(command, 'showProvenance', config.showProvenance),
+      showMetadata: resolveOption(command, 'showMetadata', config.showMetadata),
+      include: resolveOption(command, 'include', config.include),
+      exclude: resolveOption(command, 'exclude', config.exclude),
+      workspace: resolveWorkspace(command, config.workspace),
+      projects: resolveOption(command, 'projects', config.projects),
+      hide: resolveOption(command, 'hide', config.hide),
+      onlyKind: resolveOption<string[] | undefined>(command, 'onlyKind', config.onlyKind)?.flatMap(
+        (kind) => kind.split(',').map((part) => part.trim())
+      ) as NodeKind[] | undefined,
+      hideUnknown: resolveOption(command, 'hideUnknown', config.hideUnknown),
+      pathPrefix: resolveOption(command, 'pathPrefix', config.pathPrefix),
+      cache: resolveOption(command, 'cache', config.cache),
+      cacheDir: resolveOption(command, 'cacheDir', config.cacheDir),
+      workers: resolveWorkers(command, config.workers),
     };
 
-    // Create Logger when verbose mode is enabled
-    const logger = createLogger(cliOptions.verbose);
+    validateGraphOptions(cliOptions);
 
-    if (logger) {
-      logger.time('total-execution');
-      logger.info(LogCategory.FILE_PROCESSING, 'CLI execution started', {
-        runtime: process.versions.bun ? 'Bun' : 'Node.js',
-        version: process.versions.bun || process.versions.node,
-        options: cliOptions,
-      });
+    const logger = startExecution(cliOptions);
+    if (cliOptions.verbose && configFile) {
+      console.log(`📄 Using config file: ${configFile}`);
     }
 
-    // Keep backward compatibility with console.log for user-facing output
-    if (cliOptions.verbose) {
-      console.log('🔧 CLI Options:', JSON.stringify(cliOptions, null, 2));
-      console.log(
-        `🚀 Running with ${process.versions.bun ? 'Bun' : 'Node.js'} ${process.versions.bun || process.versions.node}`
+    // Config output targets apply unless --format or --out is given on the command line
+    const formatOrOutOnCli =
+      command.getOptionValueSource('format') === 'cli' ||
+      command.getOptionValueSource('out') === 'cli';
+    const outputs: Array<{ format: string; out?: string }> =
+      config.outputs && !formatOrOutOnCli
+        ? config.outputs
+        : [{ format: cliOptions.format, out: cliOptions.out }];
+
+    // Formatters are resolved before parsing so that unknown formats fail fast
+    const formatters = await Promise.all(
+      outputs.map((output) => createFormatter(output.format, cliOptions, logger))
+    );
+
+    const outputHandler = new OutputHandler();
+    const writeOutputs = async (graph: Graph): Promise<void> => {
+      for (const [index, output] of outputs.entries()) {
+        // Format output with logger
+        const formattedOutput = formatters[index].format(graph);
+
+        // Write output
+        await outputHandler.writeOutput(formattedOutput, output.out);
+
+        if (cliOptions.verbose && output.out) {
+          console.log(`✅ Output written to: ${output.out}`);
+        }
+      }
+    };
+
+    if (options.watch) {
+      if (cliOptions.workspace) {
+        throw ErrorHandler.createError(
+          '--watch cannot be combined with --workspace',
+          'INVALID_ARGUMENTS'
+        );
+      }
+      if (outputs.some((output) => !output.out)) {
+        throw ErrorHandler.createError('--watch requires --out', 'INVALID_ARGUMENTS');
+      }
+
+      // The process keeps running until interrupted; each change rewrites the outputs
+      const watcher = await watchProject(
+        cliOptions,
+        {
+          onUpdate: async (update) => {
+            await writeOutputs(update.graph);
+            if (update.diff) {
+              console.log(formatWatchSummary(update));
+            }
+          },
+          onError: (error) => {
+            console.error(
+              `❌ Re-analysis failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          },
+        },
+        logger
       );
+      console.log(`👀 Watching ${watcher.rootDir} for changes (press Ctrl+C to stop)`);
+      return;
     }
 
-    // Initialize parser with logger
-    const parser = new AngularParser(cliOptions, logger);
+    const { graph } = await buildProjectGraph(cliOptions, logger);
+    await writeOutputs(graph);
 
-    if (cliOptions.verbose) {
-      console.log('📂 Loading TypeScript project...');
-    }
+    // Display performance summary
+    reportPerformance(logger);
+  } catch (error) {
+    handleCommandError(error, options.verbose);
+  }
+});
 
-    // Load project
-    parser.loadProject();
+program
+  .command('check')
+  .description('fail when the DI graph has cycles, unknown nodes or warnings')
+  .option('-p, --project <path>', 'tsconfig.json path', './tsconfig.json')
+  .option('--workspace [path]', 'parse every project of angular.json / nx.json (default: .)')
+  .option('--include <glob...>', 'only parse source files matching these globs')
+  .option('--exclude <glob...>', 'skip source files matching these globs (e.g. "*.spec.ts")')
+  .option(
+    '--cache-dir <dir>',
+    'parse cache directory (default: node_modules/.cache/ng-di-graph next to the tsconfig)'
+  )
+  .option('--no-cache', 'parse every file instead of reusing the parse cache')
+  .option('--workers <n>', 'parse source files in n worker threads (default: 1)')
+  .option('--max-cycles <count>', 'number of cycles tolerated by the cycles rule', '0')
+  .option(
+    '--fail-on <rule...>',
+    'rules that fail the check: unknown-nodes|cycles|warnings (default: cycles)'
+  )
+  .option('--baseline <file>', 'only fail on cycles and warnings missing from this baseline file')
+  .option(
+    '--update-baseline',
+    'rewrite the baseline file with the current cycles and warnings',
+    false
+  )
+  .option('-c, --config <file>', 'config file (default: ./ng-di-graph.config.json or .ts)')
+  .option('-v, --verbose', 'show detailed parsing information', false)
+  .action(async (options, command: Command) => {
+    try {
+      const { config, configFile } = loadCommandConfig(options.config);
+
+      const maxCyclesValue = resolveOption<string | number>(
+        command,
+        'maxCycles',
+        config.check?.maxCycles
+      );
+      const maxCycles = Number(maxCyclesValue);
+      if (!Number.isInteger(maxCycles) || maxCycles < 0) {
+        throw ErrorHandler.createError(
+          `Invalid max cycles: ${maxCyclesValue}. Must be a non-negative integer`,
+          'INVALID_ARGUMENTS'
+        );
+      }
 
-    if (cliOptions.verbose) {
-      console.log('✅ Project loaded successfully');
-    }
+      const validRules: CheckRule[] = ['unknown-nodes', 'cycles', 'warnings'];
+      const failOn = (
+        resolveOption<string[] | undefined>(command, 'failOn', config.check?.failOn) ?? ['cycles']
+      ).flatMap((rule) => rule.split(',').map((part) => part.trim()));
+      const invalidRule = failOn.find((rule) => !validRules.includes(rule as CheckRule));
+      if (invalidRule !== undefined) {
+        throw ErrorHandler.createError(
+          `Invalid rule: ${invalidRule}. Must be 'unknown-nodes', 'cycles' or 'warnings'`,
+          'INVALID_ARGUMENTS'
+        );
+      }
 
-    // Parse Angular classes
-    if (cliOptions.verbose) {
-      console.log('🔍 Parsing Angular classes...');
-    }
+      const baselineFile = resolveOption<string | undefined>(
+        command,
+        'baseline',
+        config.check?.baseline
+      );
+      if (options.updateBaseline && !baselineFile) {
+        throw ErrorHandler.createError(
+          '--update-baseline requires --baseline <file>',
+          'INVALID_ARGUMENTS'
+        );
+      }
 
-    const parsedClasses = await parser.parseClasses();
+      const cliOptions: CliOptions = {
+        project: resolveOption(command, 'project', config.project),
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: false,
+        verbose: resolveOption(command, 'verbose', config.verbose),
+        include: resolveOption(command, 'include', config.include),
+        exclude: resolveOption(command, 'exclude', config.exclude),
+        workspace: resolveWorkspace(command, config.workspace),
+        cache: resolveOption(command, 'cache', config.cache),
+        cacheDir: resolveOption(command, 'cacheDir', config.cacheDir),
+        workers: resolveWorkers(command, config.workers),
+      };
+
+      const logger = startExecution(cliOptions);
+      if (cliOptions.verbose && configFile) {
+        console.log(`📄 Using config file: ${configFile}`);
+      }
 
-    if (cliOptions.verbose) {
-      console.log(`✅ Found ${parsedClasses.length} decorated classes`);
-    }
+      const { graph, warnings, rootDir } = await buildProjectGraph(cliOptions, logger);
+
+      let baseline: Baseline | undefined;
+      if (options.updateBaseline) {
+        baseline = createBaseline(graph, warnings, rootDir);
+        await new OutputHandler().writeOutput(serializeBaseline(baseline), baselineFile);
+        console.log(
+          `✅ Baseline written to: ${baselineFile} (${baseline.cycles.length} cycles, ${baseline.warnings.length} warnings)`
+        );
+      } else if (baselineFile) {
+        baseline = readBaseline(baselineFile);
+      }
 
-    // Build dependency graph with logger
-    if (cliOptions.verbose) {
-      console.log('🔗 Building dependency graph...');
-    }
+      const result = checkGraph(
+        graph,
+        { failOn: failOn as CheckRule[], maxCycles, baseline, rootDir },
+        warnings
+      );
+      console.log(formatCheckReport(result, graph));
 
-    let graph = buildGraph(parsedClasses, logger);
+      reportPerformance(logger);
 
-    if (cliOptions.verbose) {
-      console.log(`✅ Graph built: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
-      if (graph.circularDependencies.length > 0) {
-        console.log(`⚠️  Detected ${graph.circularDependencies.length} circular dependencies`);
+      if (!result.passed) {
+        process.exitCode = ExitCodes.CHECK_FAILED;
       }
+    } catch (error) {
+      handleCommandError(error, options.verbose);
     }
+  });
 
-    // Apply entry point filtering if specified
-    if (cliOptions.entry && cliOptions.entry.length > 0) {
-      if (cliOptions.verbose) {
-        console.log(`🔍 Filtering graph by entry points: ${cliOptions.entry.join(', ')}`);
+program
+  .command('diff')
+  .description('compare the DI graphs of two revisions or graph JSON files')
+  .option('--base <source>', 'graph JSON file or git revision before the change')
+  .option('--head <source>', 'graph JSON file or git revision after the change')
+  .option('-p, --project <path>', 'tsconfig.json path (for git revisions)', './tsconfig.json')
+  .option('--include <glob...>', 'only parse source files matching these globs')
+  .option('--exclude <glob...>', 'skip source files matching these globs (e.g. "*.spec.ts")')
+  .option('-f, --format <format>', 'text | json | markdown', 'text')
+  .option('--out <file>', 'output file (optional)')
+  .option('-c, --config <file>', 'config file (default: ./ng-di-graph.config.json or .ts)')
+  .option('-v, --verbose', 'show detailed parsing information', false)
+  .action(async (options, command: Command) => {
+    try {
+      const { config, configFile } = loadCommandConfig(options.config);
+
+      if (!options.base || !options.head) {
+        throw ErrorHandler.createError('Both --base and --head are required', 'INVALID_ARGUMENTS');
       }
 
-      graph = filterGraph(graph, cliOptions);
+      const validFormats: DiffFormat[] = ['text', 'json', 'markdown'];
+      if (!validFormats.includes(options.format)) {
+        throw ErrorHandler.createError(
+          `Invalid format: ${options.format}. Must be 'text', 'json' or 'markdown'`,
+          'INVALID_ARGUMENTS'
+        );
+      }
 
-      if (cliOptions.verbose) {
-        console.log(`✅ Filtered graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+      // Flags are always collected so that changed EdgeFlags show up in the diff
+      const cliOptions: CliOptions = {
+        project: resolveOption(command, 'project', config.project),
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: true,
+        verbose: resolveOption(command, 'verbose', config.verbose),
+        include: resolveOption(command, 'include', config.include),
+        exclude: resolveOption(command, 'exclude', config.exclude),
+      };
+
+      const logger = startExecution(cliOptions);
+      if (cliOptions.verbose && configFile) {
+        console.log(`📄 Using config file: ${configFile}`);
+      }
+
+      const loadGraph = async (source: string): Promise<Graph> => {
+        if (isGraphFile(source)) {
+          return readGraphFile(source);
+        }
+        if (cliOptions.verbose) {
+          console.log(`🌿 Checking out ${source} into a temporary worktree...`);
+        }
+        return withGitRevision(source, cliOptions.project, async (project) => {
+          const { graph } = await buildProjectGraph({ ...cliOptions, project }, logger);
+          return graph;
+        });
+      };
+
+      const base = await loadGraph(options.base);
+      const head = await loadGraph(options.head);
+      const output = formatGraphDiff(diffGraphs(base, head), options.format as DiffFormat);
+
+      await new OutputHandler().writeOutput(`${output}\n`, options.out);
+
+      if (cliOptions.verbose && options.out) {
+        console.log(`✅ Output written to: ${options.out}`);
       }
-    }
 
-    // Format output with logger
-    let formatter: JsonFormatter | MermaidFormatter;
-    if (cliOptions.format === 'mermaid') {
-      formatter = new MermaidFormatter(logger);
-    } else {
-      formatter = new JsonFormatter(logger);
+      reportPerformance(logger);
+    } catch (error) {
+      handleCommandError(error, options.verbose);
     }
+  });
 
-    const formattedOutput = formatter.format(graph);
+program
+  .command('path <from> <to>')
+  .description('print the dependency chain from one node to another')
+  .option('-p, --project <path>', 'tsconfig.json path', './tsconfig.json')
+  .option('--workspace [path]', 'parse every project of angular.json / nx.json (default: .)')
+  .option('--include <glob...>', 'only parse source files matching these globs')
+  .option('--exclude <glob...>', 'skip source files matching these globs (e.g. "*.spec.ts")')
+  .option(
+    '--cache-dir <dir>',
+    'parse cache directory (default: node_modules/.cache/ng-di-graph next to the tsconfig)'
+  )
+  .option('--no-cache', 'parse every file instead of reusing the parse cache')
+  .option('--workers <n>', 'parse source files in n worker threads (default: 1)')
+  .option('--all', 'list every simple path instead of the shortest one', false)
+  .option('--limit <count>', 'maximum number of paths listed with --all', '20')
+  .option(
+    '-f, --format <format>',
+    'text | json | mermaid | dot | html | <formatter module or package>',
+    'text'
+  )
+  .option('--out <file>', 'output file (optional)')
+  .option('-c, --config <file>', 'config file (default: ./ng-di-graph.config.json or .ts)')
+  .option('-v, --verbose', 'show detailed parsing information', false)
+  .action(async (from: string, to: string, options, command: Command) => {
+    try {
+      const { config, configFile } = loadCommandConfig(options.config);
+
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw ErrorHandler.createError(
+          `Invalid limit: ${options.limit}. Must be a positive integer`,
+          'INVALID_ARGUMENTS'
+        );
+      }
 
-    // Write output
-    const outputHandler = new OutputHandler();
-    await outputHandler.writeOutput(formattedOutput, cliOptions.out);
+      // Flags are always collected so that every hop shows its decorators
+      const cliOptions: CliOptions = {
+        project: resolveOption(command, 'project', config.project),
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: true,
+        verbose: resolveOption(command, 'verbose', config.verbose),
+        include: resolveOption(command, 'include', config.include),
+        exclude: resolveOption(command, 'exclude', config.exclude),
+        workspace: resolveWorkspace(command, config.workspace),
+        cache: resolveOption(command, 'cache', config.cache),
+        cacheDir: resolveOption(command, 'cacheDir', config.cacheDir),
+        workers: resolveWorkers(command, config.workers),
+      };
+
+      const logger = startExecution(cliOptions);
+      if (cliOptions.verbose && configFile) {
+        console.log(`📄 Using config file: ${configFile}`);
+      }
 
-    if (cliOptions.verbose && cliOptions.out) {
-      console.log(`✅ Output written to: ${cliOptions.out}`);
-    }
+      const formatter =
+        options.format === 'text'
+          ? undefined
+          : await createFormatter(options.format, cliOptions, logger);
 
-    // Display performance summary
-    if (logger) {
-      const totalTime = logger.timeEnd('total-execution');
-      const stats = logger.getStats();
-
-      console.error('\n📊 Performance Summary:');
-      console.error(`  Total time: ${totalTime.toFixed(2)}ms`);
-      console.error(`  Peak memory: ${(stats.memoryUsage.peakUsage / 1024 / 1024).toFixed(2)}MB`);
-      console.error(`  Total logs: ${stats.totalLogs}`);
-    }
-  } catch (error) {
-    // Handle CliError instances with structured error handling
-    if (error instanceof CliError) {
-      ErrorHandler.handleError(error, options.verbose);
-    } else if (error instanceof Error) {
-      // Convert generic Error to CliError
-      const cliError = ErrorHandler.createError(error.message, 'INTERNAL_ERROR', undefined, {
-        originalError: error.name,
-      });
-      ErrorHandler.handleError(cliError, options.verbose);
-    } else {
-      // Handle unknown error types
-      const cliError = ErrorHandler.createError(
-        'An unexpected error occurred',
-        'INTERNAL_ERROR',
-        undefined,
-        { error: String(error) }
-      );
-      ErrorHandler.handleError(cliError, options.verbose);
+      const { graph } = await buildProjectGraph(cliOptions, logger);
+      const result = findPaths(graph, from, to, { all: options.all, limit });
+
+      const output = formatter
+        ? formatter.format(pathsToGraph(graph, result))
+        : `${formatPathReport(result, graph, from, to)}\n`;
+
+      await new OutputHandler().writeOutput(output, options.out);
+
+      if (cliOptions.verbose && options.out) {
+        console.log(`✅ Output written to: ${options.out}`);
+      }
+
+      reportPerformance(logger);
+
+      if (result.paths.length === 0) {
+        process.exitCode = ExitCodes.NO_PATH;
+      }
+    } catch (error) {
+      handleCommandError(error, options.verbose);
     }
-  }
-});
+  });
 
 // Enhanced unhandled rejection handling
 process.on('unhandledRejection', (reason, promise) => {
@@ -0,0 +1,264 @@
+/**
+ * Analyzer module for ng-di-graph
+ * Parses a project or workspace into a filtered dependency graph; shared by the CLI
+ * commands and the programmatic `analyze()` API
+ */
+
+import { dirname, resolve } from 'node:path';
+import {
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type CliOptions,
+  DIRECTIONS,
+  type Graph,
+  NODE_KINDS,
+  type ParseCacheStats,
+  type ParsedClass,
+  type StructuredWarnings,
+} from '../types';
+import { ErrorHandler } from './error-handler';
+import { buildGraph } from './graph-builder';
+import {
+  filterGraph,
+  filterGraphByNodes,
+  filterGraphByProject,
+  filterGraphByScope,
+} from './graph-filter';
+import { createLogger, type Logger } from './logger';
+import { AngularParser } from './parser';
+import { discoverWorkspace, parseWorkspace } from './workspace';
+
+/**
+ * Analyzes an Angular project or workspace without writing to stdout or exiting
+ * Parser warnings are returned in `warnings` (and still reported on stderr)
+ * @param options Project or workspace to parse and the graph filters to apply
+ * @returns The filtered graph, the structured warnings, the directory node ids are relative to,
+ *   parse cache statistics with `cache` and, with `verbose`, timing and logging statistics
+ * @throws CliError if the options are invalid or the project cannot be loaded
+ */
+export async function analyze(options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const { onLog, verbose = false, ...graphOptions } = options;
+
+  // Console progress output stays off; verbose mode only collects statistics
+  const cliOptions: CliOptions = {
+    ...graphOptions,
+    project: graphOptions.project ?? './tsconfig.json',
+    format: 'json',
+    direction: graphOptions.direction ?? 'downstream',
+    includeDecorators: graphOptions.includeDecorators ?? false,
+    verbose: false,
+  };
+  validateGraphOptions(cliOptions);
+
+  // Every analysis reports its own warnings, even when an earlier one saw the same
+  AngularParser.resetWarningState();
+
+  const logger = createLogger(verbose, onLog ?? (() => {}));
+  logger?.time('total-execution');
+
+  const result = await buildProjectGraph(cliOptions, logger);
+
+  if (logger) {
+    const totalTime = logger.timeEnd('total-execution');
+    const stats = logger.getStats();
+    result.stats = {
+      totalTime,
+      peakMemory: stats.memoryUsage.peakUsage,
+      totalLogs: stats.totalLogs,
+      categoryCounts: stats.categoryCounts,
+    };
+  }
+  return result;
+}
+
+/**
+ * Validates the options that shape the graph
+ * @param options Resolved options
+ * @throws CliError naming the first invalid option
+ */
+export function validateGraphOptions(options: CliOptions): void {
+  if (options.projects && !options.workspace) {
+    throw ErrorHandler.createError('--projects requires --workspace', 'INVALID_ARGUMENTS');
+  }
+
+  if (options.direction && !DIRECTIONS.includes(options.direction)) {
+    throw ErrorHandler.createError(
+      `Invalid direction: ${options.direction}. Must be 'upstream', 'downstream', or 'both'`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  if (options.depth !== undefined && (!Number.isInteger(options.depth) || options.depth < 0)) {
+    throw ErrorHandler.createError(
+      `Invalid depth: ${options.depth}. Must be a non-negative integer`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  if (
+    options.workers !== undefined &&
+    (!Number.isInteger(options.workers) || options.workers < 1)
+  ) {
+    throw ErrorHandler.createError(
+      `Invalid workers: ${options.workers}. Must be a positive integer`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  const invalidKind = options.onlyKind?.find((kind) => !NODE_KINDS.includes(kind));
+  if (invalidKind !== undefined) {
+    throw ErrorHandler.createError(
+      `Invalid node kind: ${invalidKind}. Must be one of ${NODE_KINDS.join(', ')}`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+}
+
+/**
+ * Parse the project (or every workspace project) and build the dependency graph,
+ * applying entry, scope and project filters
+ * @param cliOptions Resolved CLI options
+ * @param logger Optional Logger instance for verbose mode
+ * @returns The graph, the parser's structured warnings, the directory node ids are relative to
+ *   and the parse cache statistics
+ */
+export async function buildProjectGraph(
+  cliOptions: CliOptions,
+  logger?: Logger
+): Promise<AnalysisResult> {
+  let parsedClasses: ParsedClass[];
+  let warnings: StructuredWarnings;
+  let rootDir: string;
+  let cache: ParseCacheStats | undefined;
+
+  if (cliOptions.workspace) {
+    if (cliOptions.verbose) {
+      console.log('📂 Discovering workspace projects...');
+    }
+
+    const workspace = discoverWorkspace(cliOptions.workspace);
+
+    if (cliOptions.verbose) {
+      console.log(`✅ Found ${workspace.projects.length} projects in ${workspace.root}`);
+      if (workspace.skippedProjects.length > 0) {
+        console.log(
+          `⚠️  Skipped projects without a tsconfig: ${workspace.skippedProjects.join(', ')}`
+        );
+      }
+    }
+
+    ({ parsedClasses, warnings, cache } = await parseWorkspace(workspace, cliOptions, logger));
+    rootDir = workspace.root;
+  } else {
+    // Initialize parser with logger
+    const parser = new AngularParser(cliOptions, logger);
+
+    if (cliOptions.verbose) {
+      console.log('📂 Loading TypeScript project...');
+    }
+
+    // Load project
+    parser.loadProject();
+
+    if (cliOptions.verbose) {
+      console.log('✅ Project loaded successfully');
+    }
+
+    // Parse Angular classes
+    if (cliOptions.verbose) {
+      console.log('🔍 Parsing Angular classes...');
+    }
+
+    parsedClasses = await parser.parseClasses();
+    warnings = parser.getStructuredWarnings();
+    cache = parser.getCacheStats();
+    rootDir = dirname(resolve(cliOptions.project));
+  }
+
+  if (cliOptions.verbose) {
+    console.log(`✅ Found ${parsedClasses.length} decorated classes`);
+  }
+
+  // Build dependency graph with logger
+  if (cliOptions.verbose) {
+    console.log('🔗 Building dependency graph...');
+  }
+
+  let graph = buildGraph(parsedClasses, logger, { rootDir });
+
+  if (cliOptions.verbose) {
+    console.log(`✅ Graph built: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    if (graph.circularDependencies.length > 0) {
+      console.log(`⚠️  Detected ${graph.circularDependencies.length} circular dependencies`);
+    }
+  }
+
+  graph = applyGraphFilters(graph, cliOptions);
+
+  return { graph, warnings, rootDir, cache };
+}
+
+/**
+ * Apply the entry, scope, project and node filters of the options, in that order
+ * @param projectGraph Graph built from the whole project
+ * @param cliOptions Resolved CLI options
+ * @returns The filtered graph
+ */
+export function applyGraphFilters(projectGraph: Graph, cliOptions: CliOptions): Graph {
+  let graph = projectGraph;
+
+  // Apply entry point filtering if specified
+  if (cliOptions.entry && cliOptions.entry.length > 0) {
+    if (cliOptions.verbose) {
+      console.log(`🔍 Filtering graph by entry points: ${cliOptions.entry.join(', ')}`);
+    }
+
+    graph = filterGraph(graph, cliOptions);
+
+    if (cliOptions.verbose) {
+      console.log(`✅ Filtered graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    }
+  }
+
+  // Apply providedIn scope filtering if specified
+  if (cliOptions.scope && cliOptions.scope.length > 0) {
+    if (cliOptions.verbose) {
+      console.log(`🔍 Filtering graph by scope: ${cliOptions.scope.join(', ')}`);
+    }
+
+    graph = filterGraphByScope(graph, cliOptions);
+
+    if (cliOptions.verbose) {
+      console.log(`✅ Filtered graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    }
+  }
+
+  // Apply workspace project filtering if specified
+  if (cliOptions.projects && cliOptions.projects.length > 0) {
+    if (cliOptions.verbose) {
+      console.log(`🔍 Filtering graph by project: ${cliOptions.projects.join(', ')}`);
+    }
+
+    graph = filterGraphByProject(graph, cliOptions);
+
+    if (cliOptions.verbose) {
+      console.log(`✅ Filtered graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    }
+  }
+
+  // Apply node pattern, kind and folder filtering if specified
+  if (
+    cliOptions.hide?.length ||
+    cliOptions.onlyKind?.length ||
+    cliOptions.hideUnknown ||
+    cliOptions.pathPrefix?.length
+  ) {
+    graph = filterGraphByNodes(graph, cliOptions);
+
+    if (cliOptions.verbose) {
+      console.log(`✅ Filtered graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+    }
+  }
+
+  return graph;
+}
@@ -0,0 +1,227 @@
+/**
+ * Baseline module for ng-di-graph CLI tool
+ * Records accepted cycles and warnings so the `check` command only fails on new entries
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type {
+  Baseline,
+  BaselineWarning,
+  Graph,
+  StructuredWarnings,
+  WarningCategory,
+} from '../types';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Creates a normalised, order-independent baseline from a graph and parser warnings
+ * @param graph The graph whose circular dependencies are recorded
+ * @param warnings Optional structured warnings collected by the parser
+ * @param rootDir Optional directory warning file paths (also those inside messages) are made
+ *   relative to, so that baselines match across checkouts
+ * @returns Baseline with sorted, de-duplicated cycles and warnings
+ */
+export function createBaseline(
+  graph: Graph,
+  warnings?: StructuredWarnings,
+  rootDir?: string
+): Baseline {
+  const cycles = new Map<string, string[]>();
+  for (const cycle of graph.circularDependencies) {
+    const normalized = normalizeCycle(cycle);
+    cycles.set(cycleKey(normalized), normalized);
+  }
+
+  const baselineWarnings = new Map<string, BaselineWarning>();
+  if (warnings) {
+    for (const category of Object.keys(warnings.categories) as WarningCategory[]) {
+      for (const warning of warnings.categories[category]) {
+        const entry: BaselineWarning = {
+          category,
+          type: warning.type,
+          file: normalizeFilePath(warning.file, rootDir),
+          message: normalizeMessagePaths(warning.message, rootDir),
+        };
+        baselineWarnings.set(warningKey(entry), entry);
+      }
+    }
+  }
+
+  return {
+    version: 1,
+    cycles: sortByKey(cycles),
+    warnings: sortByKey(baselineWarnings),
+  };
+}
+
+/**
+ * Reads and validates a baseline file
+ * @param filePath Path of the baseline JSON file
+ * @returns Baseline with normalised cycles
+ * @throws CliError if the file is missing or not a valid baseline
+ */
+export function readBaseline(filePath: string): Baseline {
+  if (!existsSync(filePath)) {
+    throw ErrorHandler.createError(
+      `Baseline file not found: ${filePath}. Run with --update-baseline to create it`,
+      'FILE_NOT_FOUND',
+      filePath
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw ErrorHandler.createError(
+      `Invalid baseline file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  const baseline = data as Partial<Baseline> | null;
+  if (
+    baseline === null ||
+    typeof baseline !== 'object' ||
+    baseline.version !== 1 ||
+    !Array.isArray(baseline.cycles) ||
+    !Array.isArray(baseline.warnings)
+  ) {
+    throw ErrorHandler.createError(
+      'Invalid baseline file: expected { "version": 1, "cycles": [...], "warnings": [...] }',
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  const invalidCycle = baseline.cycles.findIndex((cycle) => !isStringArray(cycle));
+  if (invalidCycle !== -1) {
+    throw ErrorHandler.createError(
+      `Invalid baseline file: cycles[${invalidCycle}] must be an array of node ids`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  const invalidWarning = baseline.warnings.findIndex((warning) => !isBaselineWarning(warning));
+  if (invalidWarning !== -1) {
+    throw ErrorHandler.createError(
+      `Invalid baseline file: warnings[${invalidWarning}] must be an object with string "category", "type", "file" and "message" properties`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  return {
+    version: 1,
+    cycles: baseline.cycles.map(normalizeCycle),
+    warnings: baseline.warnings,
+  };
+}
+
+/**
+ * Serializes a baseline for writing to disk
+ * @param baseline The baseline to serialize
+ * @returns Pretty-printed JSON with a trailing newline
+ */
+export function serializeBaseline(baseline: Baseline): string {
+  return `${JSON.stringify(baseline, null, 2)}\n`;
+}
+
+/**
+ * Finds cycles and warnings of the current state that are missing from the baseline
+ * @param current Baseline created from the current graph
+ * @param baseline Accepted baseline
+ * @returns New cycles and warnings
+ */
+export function diffBaseline(
+  current: Baseline,
+  baseline: Baseline
+): { cycles: string[][]; warnings: BaselineWarning[] } {
+  const acceptedCycles = new Set(baseline.cycles.map(cycleKey));
+  const acceptedWarnings = new Set(baseline.warnings.map(warningKey));
+
+  return {
+    cycles: current.cycles.filter((cycle) => !acceptedCycles.has(cycleKey(cycle))),
+    warnings: current.warnings.filter((warning) => !acceptedWarnings.has(warningKey(warning))),
+  };
+}
+
+/**
+ * Rotates a cycle to start at its smallest node id and drops the repeated closing node
+ * @param cycle Cycle path, with or without the first node repeated at the end
+ * @returns Normalised cycle
+ */
+export function normalizeCycle(cycle: string[]): string[] {
+  const nodes =
+    cycle.length > 1 && cycle[0] === cycle[cycle.length - 1] ? cycle.slice(0, -1) : cycle;
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  const start = nodes.reduce((smallest, id, index) => (id < nodes[smallest] ? index : smallest), 0);
+  return [...nodes.slice(start), ...nodes.slice(0, start)];
+}
+
+/**
+ * Identity of a normalised cycle
+ */
+function cycleKey(cycle: string[]): string {
+  return cycle.join(' -> ');
+}
+
+/**
+ * Identity of a baseline warning (line and column are ignored so edits do not invalidate entries)
+ */
+function warningKey(warning: BaselineWarning): string {
+  return [warning.category, warning.type, warning.file, warning.message].join('\n');
+}
+
+/**
+ * Makes a warning file path relative to the root directory with forward slashes
+ */
+function normalizeFilePath(filePath: string, rootDir?: string): string {
+  const path = rootDir && isAbsolute(filePath) ? relative(rootDir, filePath) : filePath;
+  return path.replace(/\\/g, '/');
+}
+
+/**
+ * Makes absolute paths below the root directory inside a warning message relative,
+ * e.g. the file list of a name collision
+ */
+function normalizeMessagePaths(message: string, rootDir?: string): string {
+  if (!rootDir) {
+    return message;
+  }
+  const prefix = `${resolve(rootDir)}${sep}`;
+  return message.replace(new RegExp(`${escapeRegExp(prefix)}[^\\s,;:'"()]*`, 'g'), (path) =>
+    normalizeFilePath(path, rootDir)
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isBaselineWarning(value: unknown): value is BaselineWarning {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const warning = value as Record<string, unknown>;
+  return (['category', 'type', 'file', 'message'] as const).every(
+    (key) => typeof warning[key] === 'string'
+  );
+}
+
+/**
+ * Returns map values ordered by their keys
+ */
+function sortByKey<T>(entries: Map<string, T>): T[] {
+  return [...entries.keys()].sort().map((key) => entries.get(key) as T);
+}
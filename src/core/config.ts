@@ -0,0 +1,274 @@
+/**
+ * Configuration file module for ng-di-graph CLI tool
+ * Discovers, loads and validates ng-di-graph.config.json / ng-di-graph.config.ts
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+import { compileFunction } from 'node:vm';
+import { ts } from 'ts-morph';
+import {
+  type CheckRule,
+  type ConfigOutput,
+  DIRECTIONS,
+  type NgDiGraphConfig,
+  NODE_KINDS,
+} from '../types';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * File names looked up in the working directory, in order of preference
+ */
+export const CONFIG_FILE_NAMES = ['ng-di-graph.config.json', 'ng-di-graph.config.ts'];
+
+const FORMAT_EXPECTATION = 'json, mermaid, dot, html, a formatter module path or package name';
+const CHECK_RULES: CheckRule[] = ['unknown-nodes', 'cycles', 'warnings'];
+
+/**
+ * Validation rule and expectation (for error messages) of every configuration property
+ */
+const PROPERTY_RULES: Record<
+  keyof NgDiGraphConfig,
+  { isValid: (value: unknown) => boolean; expected: string }
+> = {
+  project: { isValid: isString, expected: 'a string' },
+  format: { isValid: isFormat, expected: `one of ${FORMAT_EXPECTATION}` },
+  entry: { isValid: isStringArray, expected: 'an array of strings' },
+  direction: {
+    isValid: (value) => isOneOf(value, DIRECTIONS),
+    expected: `one of ${DIRECTIONS.join(', ')}`,
+  },
+  depth: { isValid: isNonNegativeInteger, expected: 'a non-negative integer' },
+  includeDecorators: { isValid: isBoolean, expected: 'a boolean' },
+  out: { isValid: isString, expected: 'a string' },
+  verbose: { isValid: isBoolean, expected: 'a boolean' },
+  disambiguate: { isValid: isBoolean, expected: 'a boolean' },
+  scope: { isValid: isStringArray, expected: 'an array of strings' },
+  showScope: { isValid: isBoolean, expected: 'a boolean' },
+  showProvenance: { isValid: isBoolean, expected: 'a boolean' },
+  showMetadata: { isValid: isBoolean, expected: 'a boolean' },
+  include: { isValid: isStringArray, expected: 'an array of glob strings' },
+  exclude: { isValid: isStringArray, expected: 'an array of glob strings' },
+  workspace: { isValid: isString, expected: 'a string' },
+  projects: { isValid: isStringArray, expected: 'an array of strings' },
+  hide: { isValid: isStringArray, expected: 'an array of glob or /regex/ strings' },
+  onlyKind: {
+    isValid: (value) => Array.isArray(value) && value.every((kind) => isOneOf(kind, NODE_KINDS)),
+    expected: `an array of ${NODE_KINDS.join(', ')}`,
+  },
+  hideUnknown: { isValid: isBoolean, expected: 'a boolean' },
+  pathPrefix: { isValid: isStringArray, expected: 'an array of strings' },
+  cache: { isValid: isBoolean, expected: 'a boolean' },
+  cacheDir: { isValid: isString, expected: 'a string' },
+  workers: { isValid: isPositiveInteger, expected: 'a positive integer' },
+  outputs: {
+    isValid: (value) => Array.isArray(value) && value.every(isOutput),
+    expected: `an array of { "format": string, "out": string }`,
+  },
+  check: {
+    isValid: isCheckConfig,
+    expected: `{ "failOn"?: (${CHECK_RULES.join('|')})[], "maxCycles"?: non-negative integer, "baseline"?: string }`,
+  },
+};
+
+/**
+ * Finds the configuration file in a directory
+ * @param cwd Directory to look in
+ * @returns Path of the first existing configuration file, if any
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(cwd, name)).find((path) => existsSync(path));
+}
+
+/**
+ * Loads and validates a configuration file
+ * Relative paths in the file are resolved against its directory
+ * @param filePath Path of a .json or .ts configuration file
+ * @returns Validated configuration
+ * @throws CliError if the file is missing, cannot be evaluated or is invalid
+ */
+export function loadConfig(filePath: string): NgDiGraphConfig {
+  if (!existsSync(filePath)) {
+    throw ErrorHandler.createError(
+      `Config file not found: ${filePath}`,
+      'FILE_NOT_FOUND',
+      filePath
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = filePath.endsWith('.ts') ? evaluateTypeScriptConfig(filePath) : readJsonConfig(filePath);
+  } catch (error) {
+    throw ErrorHandler.createError(
+      `Invalid config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  return resolveConfigPaths(validateConfig(data, filePath), dirname(resolve(filePath)));
+}
+
+/**
+ * Validates the shape of a configuration object
+ * @param data Parsed configuration
+ * @param filePath Configuration file path (for error messages)
+ * @returns The configuration, typed
+ * @throws CliError naming the first invalid property
+ */
+export function validateConfig(data: unknown, filePath: string): NgDiGraphConfig {
+  const fail = (message: string): never => {
+    throw ErrorHandler.createError(
+      `Invalid config file ${filePath}: ${message}`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  };
+
+  if (!isRecord(data)) {
+    return fail('expected an object');
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in PROPERTY_RULES)) {
+      fail(`unknown property "${key}"`);
+    }
+    const rule = PROPERTY_RULES[key as keyof NgDiGraphConfig];
+    if (!rule.isValid(value)) {
+      fail(`"${key}" must be ${rule.expected}`);
+    }
+  }
+
+  return data as NgDiGraphConfig;
+}
+
+/**
+ * Reads a JSON configuration file
+ */
+function readJsonConfig(filePath: string): unknown {
+  return JSON.parse(readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Transpiles a TypeScript configuration file to CommonJS and evaluates it
+ * @returns The default export, or module.exports when there is none
+ */
+function evaluateTypeScriptConfig(filePath: string): unknown {
+  const { outputText } = ts.transpileModule(readFileSync(filePath, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filePath,
+  });
+
+  const module: { exports: Record<string, unknown> } = { exports: {} };
+  const evaluate = compileFunction(
+    outputText,
+    ['exports', 'require', 'module', '__filename', '__dirname'],
+    { filename: filePath }
+  );
+  evaluate(module.exports, createRequire(filePath), module, filePath, dirname(filePath));
+
+  return 'default' in module.exports ? module.exports.default : module.exports;
+}
+
+/**
+ * Resolves file paths of a configuration against its directory
+ */
+function resolveConfigPaths(config: NgDiGraphConfig, configDir: string): NgDiGraphConfig {
+  const resolvePath = (path: string): string =>
+    isAbsolute(path) ? path : resolve(configDir, path);
+
+  const resolved: NgDiGraphConfig = { ...config };
+  if (config.project) {
+    resolved.project = resolvePath(config.project);
+  }
+  if (config.workspace) {
+    resolved.workspace = resolvePath(config.workspace);
+  }
+  if (config.format) {
+    resolved.format = resolveFormat(config.format, configDir);
+  }
+  if (config.out) {
+    resolved.out = resolvePath(config.out);
+  }
+  if (config.cacheDir) {
+    resolved.cacheDir = resolvePath(config.cacheDir);
+  }
+  if (config.outputs) {
+    resolved.outputs = config.outputs.map((output) => ({
+      format: resolveFormat(output.format, configDir),
+      out: resolvePath(output.out),
+    }));
+  }
+  if (config.check?.baseline) {
+    resolved.check = { ...config.check, baseline: resolvePath(config.check.baseline) };
+  }
+  return resolved;
+}
+
+/**
+ * Resolves a relative formatter module path against the configuration directory
+ * Format names and package names are kept as they are
+ */
+function resolveFormat(format: string, configDir: string): string {
+  return format.startsWith('.') ? resolve(configDir, format) : format;
+}
+
+/**
+ * Type guards used by the property rules
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === 'string';
+}
+
+function isFormat(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isBoolean(value: unknown): boolean {
+  return typeof value === 'boolean';
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+function isOneOf<T>(value: unknown, allowed: readonly T[]): boolean {
+  return allowed.includes(value as T);
+}
+
+function isOutput(value: unknown): value is ConfigOutput {
+  return (
+    isRecord(value) &&
+    isFormat(value.format) &&
+    isString(value.out) &&
+    Object.keys(value).every((key) => key === 'format' || key === 'out')
+  );
+}
+
+function isCheckConfig(value: unknown): boolean {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const { failOn, maxCycles, baseline, ...rest } = value;
+  return (
+    Object.keys(rest).length === 0 &&
+    (failOn === undefined ||
+      (Array.isArray(failOn) && failOn.every((rule) => isOneOf(rule, CHECK_RULES)))) &&
+    (maxCycles === undefined || isNonNegativeInteger(maxCycles)) &&
+    (baseline === undefined || isString(baseline))
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * Cycle analysis module for ng-di-graph CLI tool
+ * Finds strongly connected components, their elementary cycles and edges that break them
+ */
+
+import type { Edge, Node, StronglyConnectedComponent } from '../types';
+
+/**
+ * Default number of elementary cycles listed per component
+ */
+export const DEFAULT_MAX_CYCLES_PER_COMPONENT = 20;
+
+/**
+ * Finds the strongly connected components that contain cycles (Tarjan's algorithm)
+ * Each component lists its elementary cycles (Johnson's algorithm, up to a limit) and a
+ * minimal set of edges whose removal makes it acyclic (Eades-Lin-Smyth ordering, then pruned)
+ * @param nodes Graph nodes
+ * @param edges Graph edges; provided-by edges do not take part in injection cycles
+ * @param maxCycles Maximum number of elementary cycles listed per component
+ * @returns Cyclic components sorted by their smallest node id
+ */
+export function findStronglyConnectedComponents(
+  nodes: Node[],
+  edges: Edge[],
+  maxCycles = DEFAULT_MAX_CYCLES_PER_COMPONENT
+): StronglyConnectedComponent[] {
+  const adjacency = buildAdjacency(nodes, edges);
+  const components: StronglyConnectedComponent[] = [];
+
+  for (const componentNodes of tarjan(adjacency)) {
+    const members = new Set(componentNodes);
+    const first = componentNodes[0];
+    const isCyclic = componentNodes.length > 1 || (adjacency.get(first)?.has(first) ?? false);
+    if (!isCyclic) {
+      continue;
+    }
+
+    const { cycles, truncated } = findElementaryCycles(componentNodes, adjacency, maxCycles);
+    const component: StronglyConnectedComponent = {
+      nodes: componentNodes,
+      cycles,
+      suggestedBreaks: findFeedbackEdges(componentNodes, members, adjacency),
+    };
+    if (truncated) {
+      component.cyclesTruncated = true;
+    }
+    components.push(component);
+  }
+
+  return components.sort((a, b) => a.nodes[0].localeCompare(b.nodes[0]));
+}
+
+/**
+ * Closed path of a cycle, ending with its first node
+ * Accepts open cycles (['A', 'B']) and closed ones (['A', 'B', 'A']), so cycles read from
+ * older graph files print the same as those of buildGraph
+ * @param cycle Node ids of the cycle
+ * @returns Node ids with the first node repeated once at the end
+ */
+export function toCyclePath(cycle: string[]): string[] {
+  if (cycle.length > 1 && cycle[0] === cycle[cycle.length - 1]) {
+    return cycle;
+  }
+  return cycle.length > 0 ? [...cycle, cycle[0]] : [];
+}
+
+/**
+ * Builds sorted, de-duplicated successor sets, ignoring provided-by edges
+ */
+function buildAdjacency(nodes: Node[], edges: Edge[]): Map<string, Set<string>> {
+  const ids = new Set(nodes.map((node) => node.id));
+  for (const edge of edges) {
+    ids.add(edge.from);
+    ids.add(edge.to);
+  }
+
+  const successors = new Map<string, string[]>([...ids].sort().map((id) => [id, []]));
+  for (const edge of edges) {
+    if (edge.kind !== 'provided-by') {
+      successors.get(edge.from)?.push(edge.to);
+    }
+  }
+
+  return new Map(
+    [...successors.entries()].map(([id, targets]) => [id, new Set([...targets].sort())])
+  );
+}
+
+/**
+ * Tarjan's strongly connected components
+ * @returns Components with sorted node ids
+ */
+function tarjan(adjacency: Map<string, Set<string>>): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  function connect(node: string): void {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const successor of adjacency.get(node) ?? []) {
+      if (!indices.has(successor)) {
+        connect(successor);
+        lowLinks.set(node, Math.min(lowLinks.get(node) ?? 0, lowLinks.get(successor) ?? 0));
+      } else if (onStack.has(successor)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node) ?? 0, indices.get(successor) ?? 0));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member !== undefined) {
+          onStack.delete(member);
+          component.push(member);
+        }
+      } while (member !== undefined && member !== node);
+      components.push(component.sort());
+    }
+  }
+
+  for (const node of adjacency.keys()) {
+    if (!indices.has(node)) {
+      connect(node);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Johnson's elementary circuit enumeration within one component
+ * Cycles start at their smallest node id and do not repeat it at the end
+ * @returns Up to `maxCycles` cycles and whether more exist
+ */
+function findElementaryCycles(
+  componentNodes: string[],
+  adjacency: Map<string, Set<string>>,
+  maxCycles: number
+): { cycles: string[][]; truncated: boolean } {
+  const cycles: string[][] = [];
+  let truncated = false;
+
+  for (let startIndex = 0; startIndex < componentNodes.length && !truncated; startIndex++) {
+    const start = componentNodes[startIndex];
+    // Only nodes after the start node take part, so every cycle is found once
+    const allowed = new Set(componentNodes.slice(startIndex));
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (node: string): void => {
+      blocked.delete(node);
+      const dependents = blockedBy.get(node);
+      blockedBy.delete(node);
+      for (const dependent of dependents ?? []) {
+        if (blocked.has(dependent)) {
+          unblock(dependent);
+        }
+      }
+    };
+
+    const circuit = (node: string): boolean => {
+      let found = false;
+      path.push(node);
+      blocked.add(node);
+
+      for (const successor of adjacency.get(node) ?? []) {
+        if (truncated || !allowed.has(successor)) {
+          continue;
+        }
+        if (successor === start) {
+          if (cycles.length >= maxCycles) {
+            truncated = true;
+            continue;
+          }
+          cycles.push([...path]);
+          found = true;
+        } else if (!blocked.has(successor) && circuit(successor)) {
+          found = true;
+        }
+      }
+
+      if (found) {
+        unblock(node);
+      } else {
+        for (const successor of adjacency.get(node) ?? []) {
+          if (allowed.has(successor)) {
+            const dependents = blockedBy.get(successor) ?? new Set<string>();
+            dependents.add(node);
+            blockedBy.set(successor, dependents);
+          }
+        }
+      }
+
+      path.pop();
+      return found;
+    };
+
+    circuit(start);
+  }
+
+  return { cycles, truncated };
+}
+
+/**
+ * Suggests a minimal set of edges whose removal makes a component acyclic
+ * Orders nodes with the Eades-Lin-Smyth greedy heuristic, takes the edges pointing backwards
+ * in that order, then drops suggestions whose edge cannot close a cycle on its own
+ */
+function findFeedbackEdges(
+  componentNodes: string[],
+  members: Set<string>,
+  adjacency: Map<string, Set<string>>
+): Array<{ from: string; to: string }> {
+  const successors = new Map<string, Set<string>>();
+  const predecessors = new Map<string, Set<string>>(componentNodes.map((id) => [id, new Set()]));
+  for (const id of componentNodes) {
+    const targets = new Set([...(adjacency.get(id) ?? [])].filter((target) => members.has(target)));
+    successors.set(id, targets);
+    for (const target of targets) {
+      predecessors.get(target)?.add(id);
+    }
+  }
+
+  // Greedy ordering: sources go to the front, sinks to the back, otherwise the node with the
+  // largest out-degree minus in-degree goes to the front
+  const remaining = new Set(componentNodes);
+  const front: string[] = [];
+  const back: string[] = [];
+  const degree = (id: string, neighbors: Map<string, Set<string>>): number =>
+    [...(neighbors.get(id) ?? [])].filter((other) => other !== id && remaining.has(other)).length;
+
+  while (remaining.size > 0) {
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const id of [...remaining]) {
+        if (degree(id, successors) === 0) {
+          back.unshift(id);
+          remaining.delete(id);
+          progressed = true;
+        } else if (degree(id, predecessors) === 0) {
+          front.push(id);
+          remaining.delete(id);
+          progressed = true;
+        }
+      }
+    }
+
+    let best: string | undefined;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const id of remaining) {
+      const score = degree(id, successors) - degree(id, predecessors);
+      if (score > bestScore) {
+        best = id;
+        bestScore = score;
+      }
+    }
+    if (best !== undefined) {
+      front.push(best);
+      remaining.delete(best);
+    }
+  }
+
+  const position = new Map([...front, ...back].map((id, index) => [id, index]));
+  const breaks: Array<{ from: string; to: string }> = [];
+  for (const from of componentNodes) {
+    for (const to of successors.get(from) ?? []) {
+      if ((position.get(to) ?? 0) <= (position.get(from) ?? 0)) {
+        breaks.push({ from, to });
+      }
+    }
+  }
+
+  // Keep an edge removed only if restoring it would close a cycle with the other edges removed
+  const removed = new Set(breaks.map((edge) => `${edge.from}->${edge.to}`));
+  const reaches = (from: string, to: string): boolean => {
+    const visited = new Set([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      if (current === to) {
+        return true;
+      }
+      for (const next of successors.get(current) ?? []) {
+        if (!visited.has(next) && !removed.has(`${current}->${next}`)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return false;
+  };
+
+  return breaks.filter((edge) => {
+    const key = `${edge.from}->${edge.to}`;
+    removed.delete(key);
+    if (edge.from !== edge.to && !reaches(edge.to, edge.from)) {
+      return false;
+    }
+    removed.add(key);
+    return true;
+  });
+}
@@ -17,6 +17,8 @@ export enum ExitCodes {
   MEMORY_ERROR = 6, // Memory limit exceeded
   FILE_NOT_FOUND = 7, // Required file not found
   PERMISSION_ERROR = 8, // Insufficient permissions
+  CHECK_FAILED = 9, // `check` command found rule violations
+  NO_PATH = 10, // `path` command found no path between the nodes
 }
 
 /**
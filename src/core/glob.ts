@@ -0,0 +1,57 @@
+/**
+ * Glob matching module for ng-di-graph CLI tool
+ * Supports `**`, `*`, `?` and `{a,b}`; patterns without a slash match at any depth
+ */
+
+/**
+ * Converts a glob pattern to a regular expression matching forward-slash paths
+ * @param pattern Glob pattern, e.g. `src/**\/*.spec.ts` or `*.stories.ts`
+ * @returns Anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const anchored = normalized.includes('/') ? normalized : `**/${normalized}`;
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < anchored.length; i++) {
+    const char = anchored[i];
+    if (char === '*') {
+      if (anchored[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything below
+        const followedBySlash = anchored[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Creates a matcher testing paths against any of the given glob patterns
+ * @param patterns Glob patterns
+ * @returns Function returning true when a path matches one of the patterns
+ */
+export function createGlobMatcher(patterns: string[]): (path: string) => boolean {
+  const expressions = patterns.map(globToRegExp);
+  return (path) => {
+    const normalized = path.replace(/\\/g, '/');
+    return expressions.some((expression) => expression.test(normalized));
+  };
+}
@@ -3,7 +3,18 @@
  * Transforms parsed classes into graph data structure
  */
 
-import type { Edge, Graph, Node, ParsedClass } from '../types';
+import { relative } from 'node:path';
+import type {
+  BuildGraphOptions,
+  Edge,
+  Graph,
+  Node,
+  ParsedClass,
+  ProviderKind,
+  SourceLocation,
+  StronglyConnectedComponent,
+} from '../types';
+import { findStronglyConnectedComponents } from './cycle-analysis';
 import { LogCategory, type Logger } from './logger';
 
 /**
@@ -50,95 +61,98 @@ function validateInput(parsedClasses: ParsedClass[]): void {
         throw new Error('ParsedDependency must have a valid token property');
       }
     }
+
+    // Validate providers if present
+    if (parsedClass.providers != null) {
+      if (!Array.isArray(parsedClass.providers)) {
+        throw new Error('ParsedClass providers must be an array');
+      }
+
+      for (const provider of parsedClass.providers) {
+        if (typeof provider.token !== 'string' || provider.token.trim() === '') {
+          throw new Error('ParsedProvider must have a valid token property');
+        }
+      }
+    }
   }
 }
 
 /**
- * Detects circular dependencies using DFS (Depth-First Search)
+ * Derives the circular dependencies of a graph from its cyclic strongly connected components
+ * Cycles are the elementary cycles of each component as closed paths (first node repeated at
+ * the end); every injection edge inside a component lies on a cycle
+ * @param components Cyclic strongly connected components
  * @param edges Array of edges representing the dependency graph
- * @param nodes Array of nodes in the graph
- * @returns Array of circular dependency paths and edges marked as circular
+ * @returns Circular dependency paths and the keys of edges that are part of a cycle
  */
-function detectCircularDependencies(
-  edges: Edge[],
-  nodes: Node[]
+function collectCircularDependencies(
+  components: StronglyConnectedComponent[],
+  edges: Edge[]
 ): {
   circularDependencies: string[][];
   circularEdges: Set<string>;
 } {
-  const circularDependencies: string[][] = [];
-  const circularEdges = new Set<string>();
+  const circularDependencies = components.flatMap((component) =>
+    component.cycles.map((cycle) => [...cycle, cycle[0]])
+  );
+
+  const componentByNode = new Map<string, number>();
+  components.forEach((component, index) => {
+    for (const node of component.nodes) {
+      componentByNode.set(node, index);
+    }
+  });
 
-  // Build adjacency list for efficient traversal
-  const adjacencyList = new Map<string, string[]>();
-  for (const node of nodes) {
-    adjacencyList.set(node.id, []);
-  }
+  const circularEdges = new Set<string>();
   for (const edge of edges) {
-    if (!adjacencyList.has(edge.from)) {
-      adjacencyList.set(edge.from, []);
+    // Registration edges do not take part in injection cycles
+    if (edge.kind === 'provided-by') {
+      continue;
     }
-    const neighbors = adjacencyList.get(edge.from);
-    if (neighbors) {
-      neighbors.push(edge.to);
+    const component = componentByNode.get(edge.from);
+    if (component !== undefined && component === componentByNode.get(edge.to)) {
+      circularEdges.add(`${edge.from}->${edge.to}`);
     }
   }
 
-  // Track visited nodes during DFS
-  const recursionStack = new Set<string>();
-  const processedNodes = new Set<string>();
-
-  /**
-   * DFS helper function to detect cycles
-   */
-  function dfs(node: string, path: string[]): void {
-    if (processedNodes.has(node)) {
-      return; // Already processed this node completely
-    }
-
-    if (recursionStack.has(node)) {
-      // Found a cycle - extract the cycle path
-      const cycleStartIndex = path.indexOf(node);
-      const cyclePath = [...path.slice(cycleStartIndex), node];
-      circularDependencies.push(cyclePath);
-
-      // Mark all edges in this cycle as circular
-      for (let i = 0; i < cyclePath.length - 1; i++) {
-        const edgeKey = `${cyclePath[i]}->${cyclePath[i + 1]}`;
-        circularEdges.add(edgeKey);
-      }
-      return;
-    }
-
-    recursionStack.add(node);
-    const newPath = [...path, node];
-
-    const neighbors = adjacencyList.get(node) || [];
-    for (const neighbor of neighbors) {
-      dfs(neighbor, newPath);
-    }
-
-    recursionStack.delete(node);
-    processedNodes.add(node);
-  }
+  return { circularDependencies, circularEdges };
+}
 
-  // Run DFS from each unvisited node
-  for (const node of nodes) {
-    if (!processedNodes.has(node.id)) {
-      dfs(node.id, []);
-    }
-  }
+/**
+ * Creates the stable identity of a declared symbol: '<file path>#<Name>'
+ * @param filePath File declaring the symbol
+ * @param name Symbol name
+ * @param rootDir Optional directory the file path is made relative to
+ * @returns Node id with forward-slash separators
+ */
+export function createNodeId(filePath: string, name: string, rootDir?: string): string {
+  const path = rootDir ? relative(rootDir, filePath) : filePath;
+  return `${path.replace(/\\/g, '/')}#${name}`;
+}
 
-  return { circularDependencies, circularEdges };
+/**
+ * Makes the file of a source location relative to rootDir, with forward-slash separators
+ * @param location Location with an absolute file path
+ * @param rootDir Optional directory the file path is made relative to
+ * @returns Location as stored on nodes and edges
+ */
+function toRelativeLocation(location: SourceLocation, rootDir?: string): SourceLocation {
+  const file = rootDir ? relative(rootDir, location.file) : location.file;
+  return { ...location, file: file.replace(/\\/g, '/') };
 }
 
 /**
  * Builds a dependency graph from parsed Angular classes
  * @param parsedClasses Array of parsed classes with their dependencies
  * @param logger Optional Logger instance for verbose mode logging
+ * @param options Optional build options (rootDir for relative node ids)
  * @returns Graph containing nodes and edges representing the dependency relationships
  */
-export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph {
+export function buildGraph(
+  parsedClasses: ParsedClass[],
+  logger?: Logger,
+  options: BuildGraphOptions = {}
+): Graph {
   // Start performance timing
   logger?.time('buildGraph');
   logger?.info(LogCategory.GRAPH_CONSTRUCTION, 'Starting graph construction', {
@@ -152,41 +166,111 @@ export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph
   const nodeMap = new Map<string, Node>();
   const edges: Edge[] = [];
 
+  // Node ids per parsed class (same order) and per symbol name for token lookup
+  const classIds = parsedClasses.map((parsedClass) =>
+    createNodeId(parsedClass.filePath, parsedClass.name, options.rootDir)
+  );
+  const idsByName = new Map<string, string[]>();
+
   // First pass: Create nodes for all parsed classes
-  for (const parsedClass of parsedClasses) {
-    if (!nodeMap.has(parsedClass.name)) {
-      nodeMap.set(parsedClass.name, {
-        id: parsedClass.name,
-        kind: parsedClass.kind,
-      });
+  parsedClasses.forEach((parsedClass, index) => {
+    const id = classIds[index];
+    if (nodeMap.has(id)) {
+      return;
     }
-  }
+
+    const node: Node = {
+      id,
+      label: parsedClass.name,
+      kind: parsedClass.kind,
+    };
+    const providedIn = parsedClass.providedIn ?? parsedClass.token?.providedIn;
+    if (providedIn) {
+      node.providedIn = providedIn;
+    }
+    if (parsedClass.token) {
+      node.token = parsedClass.token;
+    }
+    if (parsedClass.project) {
+      node.project = parsedClass.project;
+    }
+    if (parsedClass.location) {
+      node.location = toRelativeLocation(parsedClass.location, options.rootDir);
+    }
+    if (parsedClass.exportName) {
+      node.exportName = parsedClass.exportName;
+    }
+    if (parsedClass.selector) {
+      node.selector = parsedClass.selector;
+    }
+    if (parsedClass.standalone !== undefined) {
+      node.standalone = parsedClass.standalone;
+    }
+    nodeMap.set(id, node);
+
+    const sameNameIds = idsByName.get(parsedClass.name) ?? [];
+    sameNameIds.push(id);
+    idsByName.set(parsedClass.name, sameNameIds);
+  });
 
   logger?.info(LogCategory.GRAPH_CONSTRUCTION, `Created ${nodeMap.size} nodes`, {
     nodeCount: nodeMap.size,
   });
 
-  // Second pass: Create edges and unknown nodes for dependencies
   let unknownNodeCount = 0;
-  for (const parsedClass of parsedClasses) {
-    for (const dependency of parsedClass.dependencies) {
-      // Create unknown node if dependency doesn't exist
-      if (!nodeMap.has(dependency.token)) {
-        nodeMap.set(dependency.token, {
-          id: dependency.token,
-          kind: 'unknown',
-        });
-        unknownNodeCount++;
-        logger?.warn(LogCategory.GRAPH_CONSTRUCTION, `Created unknown node: ${dependency.token}`, {
-          nodeId: dependency.token,
-          referencedBy: parsedClass.name,
-        });
+
+  /**
+   * Resolve a dependency token to a node id, creating an unknown node when needed
+   * Prefers the declaring file, then a unique name match, then a match in the referencing file
+   */
+  const resolveTokenId = (
+    token: string,
+    referencedBy: ParsedClass,
+    tokenFilePath?: string
+  ): string => {
+    const candidates = idsByName.get(token) ?? [];
+
+    if (tokenFilePath) {
+      const declaredId = createNodeId(tokenFilePath, token, options.rootDir);
+      if (nodeMap.has(declaredId)) {
+        return declaredId;
       }
+    } else if (candidates.length === 1) {
+      return candidates[0];
+    } else if (candidates.length > 1) {
+      const sameFileId = createNodeId(referencedBy.filePath, token, options.rootDir);
+      const resolvedId = candidates.includes(sameFileId) ? sameFileId : [...candidates].sort()[0];
+      logger?.warn(LogCategory.GRAPH_CONSTRUCTION, `Ambiguous dependency token: ${token}`, {
+        nodeId: resolvedId,
+        candidates,
+        referencedBy: referencedBy.name,
+      });
+      return resolvedId;
+    }
+
+    // Create unknown node if dependency doesn't exist
+    if (!nodeMap.has(token)) {
+      nodeMap.set(token, {
+        id: token,
+        label: token,
+        kind: 'unknown',
+      });
+      unknownNodeCount++;
+      logger?.warn(LogCategory.GRAPH_CONSTRUCTION, `Created unknown node: ${token}`, {
+        nodeId: token,
+        referencedBy: referencedBy.name,
+      });
+    }
+    return token;
+  };
 
+  // Second pass: Create edges and unknown nodes for dependencies
+  parsedClasses.forEach((parsedClass, index) => {
+    for (const dependency of parsedClass.dependencies) {
       // Create edge
       const edge: Edge = {
-        from: parsedClass.name,
-        to: dependency.token,
+        from: classIds[index],
+        to: resolveTokenId(dependency.token, parsedClass, dependency.tokenFilePath),
       };
 
       // Add flags if present
@@ -194,12 +278,70 @@ export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph
         edge.flags = dependency.flags;
       }
 
+      // Keep where and how the dependency is injected
+      edge.parameterName = dependency.parameterName;
+      if (dependency.source) {
+        edge.source = dependency.source;
+      }
+      if (dependency.location) {
+        edge.location = toRelativeLocation(dependency.location, options.rootDir);
+      }
+
       edges.push(edge);
     }
+  });
+
+  // Third pass: Create provided-by edges and provider resolution edges
+  const providerKinds = new Map<string, Set<ProviderKind>>();
+  const resolutionEdgeKeys = new Set<string>();
+  let providerEdgeCount = 0;
+
+  parsedClasses.forEach((parsedClass, index) => {
+    for (const provider of parsedClass.providers ?? []) {
+      const tokenId = resolveTokenId(provider.token, parsedClass);
+
+      const kinds = providerKinds.get(tokenId) ?? new Set<ProviderKind>();
+      kinds.add(provider.kind);
+      providerKinds.set(tokenId, kinds);
+
+      edges.push({
+        from: tokenId,
+        to: classIds[index],
+        kind: 'provided-by',
+        provider: provider.multi ? { kind: provider.kind, multi: true } : { kind: provider.kind },
+      });
+      providerEdgeCount++;
+
+      // Resolving the token requires its useClass/useExisting target and factory deps
+      const resolutionTargets = [
+        ...(provider.target ? [provider.target] : []),
+        ...(provider.deps ?? []),
+      ];
+      for (const target of resolutionTargets) {
+        if (target === provider.token) {
+          continue;
+        }
+        const targetId = resolveTokenId(target, parsedClass);
+        const edgeKey = `${tokenId}->${targetId}`;
+        if (resolutionEdgeKeys.has(edgeKey)) {
+          continue;
+        }
+        resolutionEdgeKeys.add(edgeKey);
+        edges.push({ from: tokenId, to: targetId });
+      }
+    }
+  });
+
+  for (const [tokenId, kinds] of providerKinds) {
+    const node = nodeMap.get(tokenId);
+    if (node) {
+      node.providerKinds = Array.from(kinds).sort();
+    }
   }
 
   logger?.info(LogCategory.GRAPH_CONSTRUCTION, `Created ${edges.length} edges`, {
     edgeCount: edges.length,
+    providerEdgeCount,
     unknownNodeCount,
   });
 
@@ -213,9 +355,28 @@ export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph
     return a.to.localeCompare(b.to);
   });
 
+  // Group cycles into strongly connected components with elementary cycles and suggested breaks
+  logger?.time('componentAnalysis');
+  const stronglyConnectedComponents = findStronglyConnectedComponents(
+    nodes,
+    edges,
+    options.maxCyclesPerComponent
+  );
+  logger?.info(
+    LogCategory.GRAPH_CONSTRUCTION,
+    `Found ${stronglyConnectedComponents.length} cyclic strongly connected components`,
+    {
+      componentCount: stronglyConnectedComponents.length,
+      analysisTime: logger?.timeEnd('componentAnalysis'),
+    }
+  );
+
   // Detect circular dependencies
   logger?.time('circularDetection');
-  const { circularDependencies, circularEdges } = detectCircularDependencies(edges, nodes);
+  const { circularDependencies, circularEdges } = collectCircularDependencies(
+    stronglyConnectedComponents,
+    edges
+  );
   const circularDetectionTime = logger?.timeEnd('circularDetection');
 
   if (circularDependencies.length > 0) {
@@ -234,8 +395,11 @@ export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph
     });
   }
 
-  // Mark circular edges
+  // Mark circular edges (provided-by edges between the same nodes are registrations, not cycles)
   for (const edge of edges) {
+    if (edge.kind === 'provided-by') {
+      continue;
+    }
     const edgeKey = `${edge.from}->${edge.to}`;
     if (circularEdges.has(edgeKey)) {
       edge.isCircular = true;
@@ -255,5 +419,6 @@ export function buildGraph(parsedClasses: ParsedClass[], logger?: Logger): Graph
     nodes,
     edges,
     circularDependencies,
+    stronglyConnectedComponents,
   };
 }
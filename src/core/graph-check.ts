@@ -0,0 +1,140 @@
+/**
+ * Graph checking module for ng-di-graph CLI tool
+ * Evaluates a graph against the rules of the `check` command and formats a compact report
+ */
+
+import type {
+  BaselineWarning,
+  CheckCycle,
+  CheckOptions,
+  CheckResult,
+  CheckRule,
+  Graph,
+  StructuredWarnings,
+} from '../types';
+import { createBaseline, diffBaseline } from './baseline';
+
+/**
+ * Checks a graph for cycles, unknown nodes and parser warnings
+ * @param graph The graph to check
+ * @param options Rules to fail on and the number of tolerated cycles
+ * @param warnings Optional structured warnings collected by the parser
+ * @returns Check result with the failed rules and the data behind them
+ */
+export function checkGraph(
+  graph: Graph,
+  options: CheckOptions,
+  warnings?: StructuredWarnings
+): CheckResult {
+  const cycles = graph.circularDependencies.map(toCheckCycle);
+  const cyclesTruncated =
+    graph.stronglyConnectedComponents?.some((component) => component.cyclesTruncated) ?? false;
+  const unknownNodes = graph.nodes.filter((node) => node.kind === 'unknown').map((node) => node.id);
+  const warningCount = warnings?.totalCount ?? 0;
+
+  // With a baseline, the cycles and warnings rules only look at entries missing from it
+  let newCycles: CheckCycle[] | undefined;
+  let newWarnings: BaselineWarning[] | undefined;
+  if (options.baseline) {
+    const added = diffBaseline(createBaseline(graph, warnings, options.rootDir), options.baseline);
+    newCycles = added.cycles.map(toCheckCycle);
+    newWarnings = added.warnings;
+  }
+
+  // A truncated cycle list has more cycles than listed, so reaching the maximum exceeds it
+  const cycleCount = (newCycles ?? cycles).length;
+  const tooManyCycles =
+    cycleCount > options.maxCycles ||
+    (cyclesTruncated && !newCycles && cycleCount >= options.maxCycles);
+
+  const failedRules: CheckRule[] = [];
+  if (options.failOn.includes('cycles') && tooManyCycles) {
+    failedRules.push('cycles');
+  }
+  if (options.failOn.includes('unknown-nodes') && unknownNodes.length > 0) {
+    failedRules.push('unknown-nodes');
+  }
+  if (options.failOn.includes('warnings') && (newWarnings?.length ?? warningCount) > 0) {
+    failedRules.push('warnings');
+  }
+
+  const result: CheckResult = {
+    passed: failedRules.length === 0,
+    failedRules,
+    cycles,
+    unknownNodes,
+    warningCount,
+    maxCycles: options.maxCycles,
+  };
+  if (cyclesTruncated) {
+    result.cyclesTruncated = true;
+  }
+  if (newCycles && newWarnings) {
+    result.newCycles = newCycles;
+    result.newWarnings = newWarnings;
+  }
+
+  return result;
+}
+
+/**
+ * Formats a check result as a compact text report
+ * Each cycle is listed by node label, followed by its edges as node ids
+ * @param result The check result
+ * @param graph The checked graph (used for node labels)
+ * @returns Report text
+ */
+export function formatCheckReport(result: CheckResult, graph: Graph): string {
+  const labels = new Map(graph.nodes.map((node) => [node.id, node.label ?? node.id]));
+  const labelOf = (id: string): string => labels.get(id) ?? id;
+
+  const lines = [
+    result.passed
+      ? 'ng-di-graph check: passed'
+      : `ng-di-graph check: failed (${result.failedRules.join(', ')})`,
+    result.newCycles
+      ? `Cycles: ${result.cycles.length} (${result.newCycles.length} new, max ${result.maxCycles})`
+      : `Cycles: ${result.cycles.length} (max ${result.maxCycles})`,
+  ];
+  if (result.cyclesTruncated) {
+    lines.push(
+      '  Some strongly connected components have more elementary cycles than listed; the count is a lower bound'
+    );
+  }
+
+  // With a baseline, only new cycles and warnings are listed
+  (result.newCycles ?? result.cycles).forEach((cycle, index) => {
+    lines.push(`  ${index + 1}. ${[...cycle.nodes, cycle.nodes[0]].map(labelOf).join(' -> ')}`);
+    for (const edge of cycle.edges) {
+      lines.push(`     ${edge.from} -> ${edge.to}`);
+    }
+  });
+
+  lines.push(`Unknown nodes: ${result.unknownNodes.length}`);
+  for (const id of result.unknownNodes) {
+    lines.push(`  - ${id}`);
+  }
+
+  if (result.newWarnings) {
+    lines.push(`Warnings: ${result.warningCount} (${result.newWarnings.length} new)`);
+    for (const warning of result.newWarnings) {
+      lines.push(`  - [${warning.category}] ${warning.file}: ${warning.message}`);
+    }
+  } else {
+    lines.push(`Warnings: ${result.warningCount}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts a detected cycle path to its nodes and closing edges
+ * @param cycle Cycle path, with or without the first node repeated at the end
+ * @returns Cycle nodes and edges
+ */
+function toCheckCycle(cycle: string[]): CheckCycle {
+  const nodes =
+    cycle.length > 1 && cycle[0] === cycle[cycle.length - 1] ? cycle.slice(0, -1) : cycle;
+  const edges = nodes.map((from, index) => ({ from, to: nodes[(index + 1) % nodes.length] }));
+  return { nodes, edges };
+}
@@ -0,0 +1,237 @@
+/**
+ * Graph diff module for ng-di-graph CLI tool
+ * Compares two dependency graphs and formats the changes as text, JSON or Markdown
+ */
+
+import type { DiffFormat, Edge, EdgeFlagChange, EdgeFlags, Graph, GraphDiff, Node } from '../types';
+import { normalizeCycle } from './baseline';
+
+/**
+ * Order of flag names in reports
+ */
+const FLAG_ORDER: Array<keyof EdgeFlags> = ['optional', 'self', 'skipSelf', 'host'];
+
+/**
+ * Compares two graphs by node id, edge endpoints and kind, edge flags and cycles
+ * @param base The graph before the change
+ * @param head The graph after the change
+ * @returns Added and removed nodes and edges, changed flags and new or resolved cycles
+ */
+export function diffGraphs(base: Graph, head: Graph): GraphDiff {
+  const baseNodes = new Map(base.nodes.map((node) => [node.id, node]));
+  const headNodes = new Map(head.nodes.map((node) => [node.id, node]));
+  const baseEdges = new Map(base.edges.map((edge) => [edgeKey(edge), edge]));
+  const headEdges = new Map(head.edges.map((edge) => [edgeKey(edge), edge]));
+
+  const changedFlags: EdgeFlagChange[] = [];
+  for (const [key, headEdge] of headEdges) {
+    const baseEdge = baseEdges.get(key);
+    if (!baseEdge) {
+      continue;
+    }
+    const baseFlags = setFlags(baseEdge.flags);
+    const headFlags = setFlags(headEdge.flags);
+    if (formatFlags(baseFlags) !== formatFlags(headFlags)) {
+      const change: EdgeFlagChange = {
+        from: headEdge.from,
+        to: headEdge.to,
+        base: baseFlags,
+        head: headFlags,
+      };
+      if (headEdge.kind) {
+        change.kind = headEdge.kind;
+      }
+      changedFlags.push(change);
+    }
+  }
+
+  const baseCycles = normalizedCycles(base);
+  const headCycles = normalizedCycles(head);
+
+  return {
+    addedNodes: head.nodes.filter((node) => !baseNodes.has(node.id)).sort(byId),
+    removedNodes: base.nodes.filter((node) => !headNodes.has(node.id)).sort(byId),
+    addedEdges: [...headEdges.entries()]
+      .filter(([key]) => !baseEdges.has(key))
+      .map(([, edge]) => edge)
+      .sort(byEndpoints),
+    removedEdges: [...baseEdges.entries()]
+      .filter(([key]) => !headEdges.has(key))
+      .map(([, edge]) => edge)
+      .sort(byEndpoints),
+    changedFlags: changedFlags.sort(byEndpoints),
+    newCycles: [...headCycles.entries()]
+      .filter(([key]) => !baseCycles.has(key))
+      .map(([, cycle]) => cycle),
+    resolvedCycles: [...baseCycles.entries()]
+      .filter(([key]) => !headCycles.has(key))
+      .map(([, cycle]) => cycle),
+  };
+}
+
+/**
+ * Formats a graph diff
+ * @param diff The diff to format
+ * @param format Output format: 'text', 'json' or 'markdown'
+ * @returns Formatted diff
+ */
+export function formatGraphDiff(diff: GraphDiff, format: DiffFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(diff, null, 2);
+  }
+  return format === 'markdown' ? formatMarkdown(diff) : formatText(diff);
+}
+
+/**
+ * Formats a graph diff as a plain text report
+ */
+function formatText(diff: GraphDiff): string {
+  const lines = [`ng-di-graph diff: ${formatSummary(diff)}`];
+  for (const section of diffSections(diff)) {
+    lines.push(
+      `${section.title}:`,
+      ...section.entries.map((entry) => `  ${section.marker} ${entry}`)
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Formats a graph diff as Markdown, suitable for pull request comments
+ */
+function formatMarkdown(diff: GraphDiff): string {
+  const lines = ['## DI graph diff', '', formatSummary(diff)];
+  for (const section of diffSections(diff)) {
+    lines.push('', `### ${section.title}`, '', ...section.entries.map((entry) => `- \`${entry}\``));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Non-empty report sections with their entries and text marker
+ */
+function diffSections(
+  diff: GraphDiff
+): Array<{ title: string; marker: string; entries: string[] }> {
+  return [
+    { title: 'Added nodes', marker: '+', entries: diff.addedNodes.map(formatNode) },
+    { title: 'Removed nodes', marker: '-', entries: diff.removedNodes.map(formatNode) },
+    { title: 'Added edges', marker: '+', entries: diff.addedEdges.map(formatEdge) },
+    { title: 'Removed edges', marker: '-', entries: diff.removedEdges.map(formatEdge) },
+    { title: 'Changed flags', marker: '~', entries: diff.changedFlags.map(formatFlagChange) },
+    { title: 'New cycles', marker: '+', entries: diff.newCycles.map(formatCycle) },
+    { title: 'Resolved cycles', marker: '-', entries: diff.resolvedCycles.map(formatCycle) },
+  ].filter((section) => section.entries.length > 0);
+}
+
+/**
+ * One-line summary of the number of changes per category
+ */
+function formatSummary(diff: GraphDiff): string {
+  const counts = [
+    diff.addedNodes.length,
+    diff.removedNodes.length,
+    diff.addedEdges.length,
+    diff.removedEdges.length,
+    diff.changedFlags.length,
+    diff.newCycles.length,
+    diff.resolvedCycles.length,
+  ];
+  if (counts.every((count) => count === 0)) {
+    return 'no changes';
+  }
+
+  return [
+    `+${diff.addedNodes.length}/-${diff.removedNodes.length} nodes`,
+    `+${diff.addedEdges.length}/-${diff.removedEdges.length} edges`,
+    `${diff.changedFlags.length} flag changes`,
+    `${diff.newCycles.length} new cycles`,
+    `${diff.resolvedCycles.length} resolved cycles`,
+  ].join(', ');
+}
+
+/**
+ * Node entry: id and kind
+ */
+function formatNode(node: Node): string {
+  return `${node.id} (${node.kind})`;
+}
+
+/**
+ * Edge entry with its kind and set flags
+ */
+function formatEdge(edge: Edge): string {
+  const flags = formatFlags(setFlags(edge.flags));
+  const kind = edge.kind === 'provided-by' ? ' (provided-by)' : '';
+  return `${edge.from} -> ${edge.to}${kind}${flags ? ` [${flags}]` : ''}`;
+}
+
+/**
+ * Flag change entry: base flags => head flags
+ */
+function formatFlagChange(change: EdgeFlagChange): string {
+  const kind = change.kind === 'provided-by' ? ' (provided-by)' : '';
+  const base = formatFlags(change.base) || 'none';
+  const head = formatFlags(change.head) || 'none';
+  return `${change.from} -> ${change.to}${kind}: ${base} => ${head}`;
+}
+
+/**
+ * Cycle path closed by its first node
+ */
+function formatCycle(cycle: string[]): string {
+  return [...cycle, cycle[0]].join(' -> ');
+}
+
+/**
+ * Comma-separated names of the set flags
+ */
+function formatFlags(flags: EdgeFlags): string {
+  return FLAG_ORDER.filter((flag) => flags[flag]).join(', ');
+}
+
+/**
+ * Identity of an edge: endpoints and edge kind (flags are compared separately)
+ */
+function edgeKey(edge: Edge): string {
+  return `${edge.kind ?? 'inject'}|${edge.from}|${edge.to}`;
+}
+
+/**
+ * Keeps only the flags that are set, so `{ optional: false }` equals `{}`
+ */
+function setFlags(flags?: EdgeFlags): EdgeFlags {
+  const result: EdgeFlags = {};
+  for (const flag of FLAG_ORDER) {
+    if (flags?.[flag]) {
+      result[flag] = true;
+    }
+  }
+  return result;
+}
+
+/**
+ * Normalised cycles of a graph keyed by their path
+ */
+function normalizedCycles(graph: Graph): Map<string, string[]> {
+  const cycles = new Map<string, string[]>();
+  for (const cycle of graph.circularDependencies) {
+    const normalized = normalizeCycle(cycle);
+    cycles.set(normalized.join(' -> '), normalized);
+  }
+  return new Map([...cycles.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Sort nodes by id
+ */
+function byId(a: Node, b: Node): number {
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Sort edges by source, then target
+ */
+function byEndpoints(a: { from: string; to: string }, b: { from: string; to: string }): number {
+  return a.from.localeCompare(b.from) || a.to.localeCompare(b.to);
+}
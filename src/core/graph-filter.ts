@@ -1,32 +1,32 @@
 /**
  * Graph filtering module for ng-di-graph CLI tool
- * Filters graphs based on entry points and direction
+ * Filters graphs based on entry points and direction, providedIn scope, workspace project
+ * or node pattern, kind and folder
  */
 
-import type { CliOptions, Graph } from '../types';
+import type { CliOptions, Graph, Node } from '../types';
+import { ErrorHandler } from './error-handler';
+import { createGlobMatcher } from './glob';
 
 /**
- * Helper function to validate entry points and perform traversal
- * @param entryPoints Array of entry point names to validate and traverse from
+ * Helper function to resolve entry points to node ids, warning about missing ones once
+ * @param entryPoints Array of entry point ids or labels to resolve
  * @param graph The graph containing all nodes
- * @param adjacencyList The adjacency list for traversal
- * @param resultSet The set to collect traversal results
  * @param options CLI options for verbose output
+ * @returns Ids of the nodes to start the traversal from
  */
-function validateAndTraverseEntryPoints(
-  entryPoints: string[],
-  graph: Graph,
-  adjacencyList: Map<string, string[]>,
-  resultSet: Set<string>,
-  options: CliOptions
-): void {
+function resolveEntryPoints(entryPoints: string[], graph: Graph, options: CliOptions): string[] {
+  const startNodes: string[] = [];
   for (const entryPoint of entryPoints) {
-    if (graph.nodes.some((n) => n.id === entryPoint)) {
-      traverseFromEntry(entryPoint, adjacencyList, resultSet);
+    // Entry points match node ids or labels (a label may match several same-named nodes)
+    const matchingNodes = graph.nodes.filter((n) => n.id === entryPoint || n.label === entryPoint);
+    if (matchingNodes.length > 0) {
+      startNodes.push(...matchingNodes.map((node) => node.id));
     } else if (options.verbose) {
       console.warn(`Entry point '${entryPoint}' not found in graph`);
     }
   }
+  return startNodes;
 }
 
 /**
@@ -42,29 +42,35 @@ export function filterGraph(graph: Graph, options: CliOptions): Graph {
   }
 
   const includedNodeIds = new Set<string>();
+  // Depth-limit frontier nodes per traversal, with the adjacency list they were reached by
+  const frontiers: Array<{ nodes: Set<string>; adjacencyList: Map<string, string[]> }> = [];
+
+  const startNodes = resolveEntryPoints(options.entry, graph, options);
 
   // Handle bidirectional separately by combining upstream and downstream
   if (options.direction === 'both') {
     // Perform upstream traversal
     const upstreamAdjacencyList = buildAdjacencyList(graph, 'upstream');
     const upstreamNodes = new Set<string>();
-    validateAndTraverseEntryPoints(
-      options.entry,
-      graph,
+    const upstreamFrontier = traverseFromEntries(
+      startNodes,
       upstreamAdjacencyList,
       upstreamNodes,
-      options
+      options.depth
     );
 
     // Perform downstream traversal
     const downstreamAdjacencyList = buildAdjacencyList(graph, 'downstream');
     const downstreamNodes = new Set<string>();
-    validateAndTraverseEntryPoints(
-      options.entry,
-      graph,
+    const downstreamFrontier = traverseFromEntries(
+      startNodes,
       downstreamAdjacencyList,
       downstreamNodes,
-      options
+      options.depth
+    );
+    frontiers.push(
+      { nodes: upstreamFrontier, adjacencyList: upstreamAdjacencyList },
+      { nodes: downstreamFrontier, adjacencyList: downstreamAdjacencyList }
     );
 
     // Combine upstream and downstream results using Set constructor for optimal performance
@@ -75,17 +81,254 @@ export function filterGraph(graph: Graph, options: CliOptions): Graph {
   } else {
     // Handle single direction (upstream or downstream)
     const adjacencyList = buildAdjacencyList(graph, options.direction);
-    validateAndTraverseEntryPoints(options.entry, graph, adjacencyList, includedNodeIds, options);
+    const frontier = traverseFromEntries(startNodes, adjacencyList, includedNodeIds, options.depth);
+    frontiers.push({ nodes: frontier, adjacencyList });
+  }
+
+  // Frontier nodes with neighbors left out by the depth limit are marked as truncated
+  const truncatedNodeIds = new Set<string>();
+  for (const frontier of frontiers) {
+    for (const nodeId of frontier.nodes) {
+      const neighbors = frontier.adjacencyList.get(nodeId) ?? [];
+      if (neighbors.some((neighbor) => !includedNodeIds.has(neighbor))) {
+        truncatedNodeIds.add(nodeId);
+      }
+    }
   }
 
   // Filter nodes and edges
-  const filteredNodes = graph.nodes.filter((node) => includedNodeIds.has(node.id));
+  const filteredNodes = graph.nodes
+    .filter((node) => includedNodeIds.has(node.id))
+    .map((node) => (truncatedNodeIds.has(node.id) ? { ...node, truncated: true } : node));
   const filteredEdges = graph.edges.filter(
     (edge) => includedNodeIds.has(edge.from) && includedNodeIds.has(edge.to)
   );
 
   // Filter circular dependencies - only include cycles where all nodes exist and edges form valid cycle
-  const filteredCircularDeps = graph.circularDependencies.filter((cycle) => {
+  const filteredCircularDeps = filterCircularDependencies(graph, includedNodeIds);
+
+  if (options.verbose) {
+    console.log(`Filtered graph: ${filteredNodes.length} nodes, ${filteredEdges.length} edges`);
+    console.log(`Entry points: ${options.entry.join(', ')}`);
+    if (options.depth !== undefined) {
+      console.log(`Depth: ${options.depth} (${truncatedNodeIds.size} truncated nodes)`);
+    }
+  }
+
+  return withComponents(
+    {
+      nodes: filteredNodes,
+      edges: filteredEdges,
+      circularDependencies: filteredCircularDeps,
+    },
+    graph,
+    includedNodeIds
+  );
+}
+
+/**
+ * Filters a graph to the nodes whose providedIn scope matches one of the requested scopes
+ * @param graph The graph to filter
+ * @param options CLI options containing the scopes ('root', 'platform', 'any' or a module name)
+ * @returns Filtered graph containing only scoped nodes and the edges between them
+ */
+export function filterGraphByScope(graph: Graph, options: CliOptions): Graph {
+  if (!options.scope || options.scope.length === 0) {
+    return graph;
+  }
+
+  const scopes = new Set(options.scope);
+  const filtered = filterGraphByNodePredicate(
+    graph,
+    (node) => node.providedIn !== undefined && scopes.has(node.providedIn),
+    'Scope',
+    options.verbose
+  );
+  if (options.verbose) {
+    console.log(`Scopes: ${options.scope.join(', ')}`);
+  }
+  return filtered;
+}
+
+/**
+ * Filters a graph to the nodes owned by one of the requested workspace projects
+ * @param graph The graph to filter
+ * @param options CLI options containing the project names
+ * @returns Filtered graph containing only the projects' nodes and the edges between them
+ */
+export function filterGraphByProject(graph: Graph, options: CliOptions): Graph {
+  if (!options.projects || options.projects.length === 0) {
+    return graph;
+  }
+
+  const projects = new Set(options.projects);
+  const filtered = filterGraphByNodePredicate(
+    graph,
+    (node) => node.project !== undefined && projects.has(node.project),
+    'Project',
+    options.verbose
+  );
+  if (options.verbose) {
+    console.log(`Projects: ${options.projects.join(', ')}`);
+  }
+  return filtered;
+}
+
+/**
+ * Keeps the nodes matching a predicate, the edges between them and the cycles made of them only
+ * @param graph The graph to filter
+ * @param keep Returns true for nodes to keep
+ * @param label Name of the filter in the verbose summary
+ * @param verbose Print the size of the filtered graph
+ * @returns Filtered graph
+ */
+function filterGraphByNodePredicate(
+  graph: Graph,
+  keep: (node: Node) => boolean,
+  label: string,
+  verbose?: boolean
+): Graph {
+  const includedNodeIds = new Set(graph.nodes.filter(keep).map((node) => node.id));
+
+  const filteredNodes = graph.nodes.filter((node) => includedNodeIds.has(node.id));
+  const filteredEdges = graph.edges.filter(
+    (edge) => includedNodeIds.has(edge.from) && includedNodeIds.has(edge.to)
+  );
+  const filteredCircularDeps = graph.circularDependencies.filter((cycle) =>
+    cycle.every((nodeId) => includedNodeIds.has(nodeId))
+  );
+
+  if (verbose) {
+    console.log(
+      `${label} filtered graph: ${filteredNodes.length} nodes, ${filteredEdges.length} edges`
+    );
+  }
+
+  return withComponents(
+    {
+      nodes: filteredNodes,
+      edges: filteredEdges,
+      circularDependencies: filteredCircularDeps,
+    },
+    graph,
+    includedNodeIds
+  );
+}
+
+/**
+ * Removes nodes by pattern, kind and folder, together with their edges
+ * - hide: globs or `/regex/flags` matched against node labels and ids
+ * - onlyKind: node kinds to keep
+ * - hideUnknown: removes nodes of kind 'unknown' (unresolved or framework tokens)
+ * - pathPrefix: keeps nodes declared in files below one of the folders (relative to the tsconfig directory)
+ * @param graph The graph to filter
+ * @param options CLI options containing the node filters
+ * @returns Filtered graph with edges and cycles pruned to the kept nodes
+ * @throws CliError if a hide pattern is an invalid regular expression
+ */
+export function filterGraphByNodes(graph: Graph, options: CliOptions): Graph {
+  const hide = options.hide ?? [];
+  const onlyKind = options.onlyKind ?? [];
+  const pathPrefix = options.pathPrefix ?? [];
+  if (
+    hide.length === 0 &&
+    onlyKind.length === 0 &&
+    !options.hideUnknown &&
+    pathPrefix.length === 0
+  ) {
+    return graph;
+  }
+
+  const isHidden = createNodeMatcher(hide);
+  const kinds = new Set(onlyKind);
+  const folders = pathPrefix.map((prefix) =>
+    prefix.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '')
+  );
+  const isInFolder = (node: Node): boolean => {
+    const separator = node.id.lastIndexOf('#');
+    if (separator === -1) {
+      return false;
+    }
+    const filePath = node.id.slice(0, separator);
+    return folders.some((folder) => filePath === folder || filePath.startsWith(`${folder}/`));
+  };
+
+  const includedNodeIds = new Set(
+    graph.nodes
+      .filter(
+        (node) =>
+          !isHidden(node) &&
+          (kinds.size === 0 || kinds.has(node.kind)) &&
+          !(options.hideUnknown && node.kind === 'unknown') &&
+          (folders.length === 0 || isInFolder(node))
+      )
+      .map((node) => node.id)
+  );
+
+  const filteredNodes = graph.nodes.filter((node) => includedNodeIds.has(node.id));
+  const filteredEdges = graph.edges.filter(
+    (edge) => includedNodeIds.has(edge.from) && includedNodeIds.has(edge.to)
+  );
+
+  if (options.verbose) {
+    console.log(
+      `Node filtered graph: ${filteredNodes.length} nodes, ${filteredEdges.length} edges (${graph.nodes.length - filteredNodes.length} nodes removed)`
+    );
+  }
+
+  return withComponents(
+    {
+      nodes: filteredNodes,
+      edges: filteredEdges,
+      circularDependencies: filterCircularDependencies(graph, includedNodeIds),
+    },
+    graph,
+    includedNodeIds
+  );
+}
+
+/**
+ * Creates a matcher for --hide patterns
+ * `/source/flags` is a regular expression tested against label and id; anything else is a
+ * glob matched against the whole label or id
+ * @param patterns Hide patterns
+ * @returns Function returning true when a node matches one of the patterns
+ * @throws CliError if a regular expression is invalid
+ */
+function createNodeMatcher(patterns: string[]): (node: Node) => boolean {
+  const expressions: RegExp[] = [];
+  const globs: string[] = [];
+  for (const pattern of patterns) {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (!regex) {
+      globs.push(pattern);
+      continue;
+    }
+    try {
+      expressions.push(new RegExp(regex[1], regex[2]));
+    } catch (error) {
+      throw ErrorHandler.createError(
+        `Invalid --hide pattern ${pattern}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_ARGUMENTS'
+      );
+    }
+  }
+
+  const matchesGlob = createGlobMatcher(globs);
+  return (node) =>
+    [node.label ?? node.id, node.id].some(
+      (value) => matchesGlob(value) || expressions.some((expression) => expression.test(value))
+    );
+}
+
+/**
+ * Keeps the circular dependencies whose nodes are all kept and whose edges exist in the graph
+ * @param graph The original graph
+ * @param includedNodeIds Ids of the kept nodes
+ * @returns Valid cycles of the filtered graph
+ */
+function filterCircularDependencies(graph: Graph, includedNodeIds: Set<string>): string[][] {
+  return graph.circularDependencies.filter((cycle) => {
     // First check if cycle has valid length (minimum 2 for self-loop, minimum 3 for multi-node cycle)
     if (cycle.length < 2) {
       return false; // Invalid cycle - too short
@@ -126,50 +369,64 @@ export function filterGraph(graph: Graph, options: CliOptions): Graph {
 
     return true;
   });
+}
 
-  if (options.verbose) {
-    console.log(`Filtered graph: ${filteredNodes.length} nodes, ${filteredEdges.length} edges`);
-    console.log(`Entry points: ${options.entry.join(', ')}`);
+/**
+ * Carries over the strongly connected components whose nodes are all kept
+ * Edges between kept nodes are preserved by the filters, so such components stay intact
+ * @param filtered The filtered graph
+ * @param graph The original graph
+ * @param includedNodeIds Ids of the kept nodes
+ * @returns The filtered graph with its components
+ */
+function withComponents(filtered: Graph, graph: Graph, includedNodeIds: Set<string>): Graph {
+  if (graph.stronglyConnectedComponents) {
+    filtered.stronglyConnectedComponents = graph.stronglyConnectedComponents.filter((component) =>
+      component.nodes.every((nodeId) => includedNodeIds.has(nodeId))
+    );
   }
-
-  return {
-    nodes: filteredNodes,
-    edges: filteredEdges,
-    circularDependencies: filteredCircularDeps,
-  };
+  return filtered;
 }
 
 /**
- * Traverses the graph from a starting node using DFS
- * @param startNode The node to start traversal from
+ * Traverses the graph breadth-first from the entry nodes
+ * Nodes are reached at their shortest distance from any entry node
+ * @param startNodes Ids of the entry nodes
  * @param adjacencyList The adjacency list representation of the graph
  * @param visited Set to track visited nodes
+ * @param maxDepth Optional number of edges followed from the entry nodes
+ * @returns Nodes at the depth limit (empty when the traversal completed)
  */
-function traverseFromEntry(
-  startNode: string,
+function traverseFromEntries(
+  startNodes: string[],
   adjacencyList: Map<string, string[]>,
-  visited: Set<string>
-): void {
-  const stack = [startNode];
-
-  while (stack.length > 0) {
-    const currentNode = stack.pop();
-    if (!currentNode) break; // Defensive check, should never happen
+  visited: Set<string>,
+  maxDepth?: number
+): Set<string> {
+  let level = [...new Set(startNodes)].filter((node) => !visited.has(node));
+  for (const node of level) {
+    visited.add(node);
+  }
 
-    if (visited.has(currentNode)) {
-      continue;
+  for (let depth = 0; level.length > 0; depth++) {
+    if (maxDepth !== undefined && depth >= maxDepth) {
+      return new Set(level);
     }
 
-    visited.add(currentNode);
-
-    // Add neighbors to stack for traversal
-    const neighbors = adjacencyList.get(currentNode) || [];
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor)) {
-        stack.push(neighbor);
+    const nextLevel: string[] = [];
+    for (const currentNode of level) {
+      // Add unvisited neighbors to the next level
+      for (const neighbor of adjacencyList.get(currentNode) || []) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          nextLevel.push(neighbor);
+        }
       }
     }
+    level = nextLevel;
   }
+
+  return new Set();
 }
 
 /**
@@ -0,0 +1,260 @@
+/**
+ * Graph path module for ng-di-graph CLI tool
+ * Finds the dependency chains between two nodes and formats them as text or as a sub-graph
+ */
+
+import type { DependencyPath, Edge, EdgeFlags, Graph, PathOptions, PathResult } from '../types';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Number of paths listed with `all` when no limit is given
+ */
+export const DEFAULT_PATH_LIMIT = 20;
+
+/**
+ * Order of flag names in reports
+ */
+const FLAG_ORDER: Array<keyof EdgeFlags> = ['optional', 'self', 'skipSelf', 'host'];
+
+/**
+ * Finds the shortest path, or every simple path, from one node to another
+ * Paths follow injection edges from consumer to dependency and are listed shortest first;
+ * a path ends at the first target node it reaches
+ * @param graph The graph to search
+ * @param from Source node id or label (a label may match several same-named nodes)
+ * @param to Target node id or label
+ * @param options List every simple path (up to a limit) instead of one shortest path
+ * @returns Matching node ids and the paths found (empty when the target is unreachable)
+ * @throws CliError if a node is not found or the limit is invalid
+ */
+export function findPaths(
+  graph: Graph,
+  from: string,
+  to: string,
+  options: PathOptions = {}
+): PathResult {
+  const sources = resolveNodeIds(graph, from);
+  const targets = resolveNodeIds(graph, to);
+
+  const limit = options.all ? (options.limit ?? DEFAULT_PATH_LIMIT) : 1;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw ErrorHandler.createError(
+      `Invalid limit: ${options.limit}. Must be a positive integer`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  // Provided-by edges point from a token to its provider, not along the injection chain
+  const injectionEdges = graph.edges.filter((edge) => edge.kind !== 'provided-by');
+  const targetIds = new Set(targets);
+  const distances = distancesToTargets(injectionEdges, targetIds);
+
+  // Only edges leading towards a target can be part of a path
+  const outgoing = new Map<string, Edge[]>();
+  for (const edge of injectionEdges) {
+    if (distances.has(edge.to)) {
+      const edges = outgoing.get(edge.from) ?? [];
+      edges.push(edge);
+      outgoing.set(edge.from, edges);
+    }
+  }
+
+  // One path more than the limit is collected to detect truncation
+  const maxPaths = options.all ? limit + 1 : 1;
+  const paths: DependencyPath[] = [];
+  let cutOff = false;
+
+  /**
+   * Depth-first search for simple paths of exactly `length` hops, skipping neighbors
+   * from which a target cannot be reached within the remaining hops
+   */
+  const visit = (nodes: string[], edges: Edge[], length: number): void => {
+    const current = nodes[nodes.length - 1];
+    if (edges.length === length) {
+      if (targetIds.has(current)) {
+        paths.push({ nodes: [...nodes], edges: [...edges] });
+      }
+      return;
+    }
+    if (targetIds.has(current)) {
+      return;
+    }
+
+    for (const edge of outgoing.get(current) ?? []) {
+      if (paths.length >= maxPaths) {
+        return;
+      }
+      if (nodes.includes(edge.to)) {
+        continue;
+      }
+      if (edges.length + 1 + (distances.get(edge.to) ?? 0) > length) {
+        cutOff = true;
+        continue;
+      }
+      nodes.push(edge.to);
+      edges.push(edge);
+      visit(nodes, edges, length);
+      nodes.pop();
+      edges.pop();
+    }
+  };
+
+  // Iterative deepening lists paths by length; it stops once no path was cut off
+  const reachableSources = sources.filter((id) => distances.has(id));
+  const shortest = Math.min(...reachableSources.map((id) => distances.get(id) ?? 0));
+  for (let length = shortest; length < graph.nodes.length; length++) {
+    cutOff = false;
+    for (const source of reachableSources) {
+      if (paths.length < maxPaths) {
+        visit([source], [], length);
+      }
+    }
+    if (paths.length >= maxPaths || !cutOff) {
+      break;
+    }
+  }
+
+  const result: PathResult = { from: sources, to: targets, paths: paths.slice(0, limit) };
+  if (paths.length > limit) {
+    result.truncated = true;
+  }
+  return result;
+}
+
+/**
+ * Builds the sub-graph made of the nodes and edges of the found paths
+ * Cycles are kept when all of their edges are on a path
+ * @param graph The searched graph
+ * @param result Paths found in the graph
+ * @returns Sub-graph that can be passed to any graph formatter
+ */
+export function pathsToGraph(graph: Graph, result: PathResult): Graph {
+  const nodeIds = new Set(result.paths.flatMap((path) => path.nodes));
+  const edges = new Set(result.paths.flatMap((path) => path.edges));
+  const edgeKeys = new Set([...edges].map((edge) => `${edge.from}|${edge.to}`));
+
+  const circularDependencies = graph.circularDependencies.filter((cycle) => {
+    const closed = cycle.length > 1 && cycle[0] === cycle[cycle.length - 1];
+    const nodes = closed ? cycle : [...cycle, cycle[0]];
+    return nodes.slice(1).every((to, index) => edgeKeys.has(`${nodes[index]}|${to}`));
+  });
+
+  const subGraph: Graph = {
+    nodes: graph.nodes.filter((node) => nodeIds.has(node.id)),
+    edges: graph.edges.filter((edge) => edges.has(edge)),
+    circularDependencies,
+  };
+  if (graph.stronglyConnectedComponents) {
+    subGraph.stronglyConnectedComponents = graph.stronglyConnectedComponents.filter((component) =>
+      component.cycles.some((cycle) =>
+        [...cycle, cycle[0]].slice(1).every((to, index) => edgeKeys.has(`${cycle[index]}|${to}`))
+      )
+    );
+  }
+  return subGraph;
+}
+
+/**
+ * Formats found paths as a text report
+ * Each hop lists the dependency, the injected parameter name and the set flags
+ * @param result Paths found in the graph
+ * @param graph The searched graph (used for node labels)
+ * @param fromName Source name as given by the user
+ * @param toName Target name as given by the user
+ * @returns Report text
+ */
+export function formatPathReport(
+  result: PathResult,
+  graph: Graph,
+  fromName: string,
+  toName: string
+): string {
+  if (result.paths.length === 0) {
+    return `No path from ${fromName} to ${toName}`;
+  }
+
+  const labels = new Map(graph.nodes.map((node) => [node.id, node.label ?? node.id]));
+  const labelOf = (id: string): string => labels.get(id) ?? id;
+
+  const lines: string[] = [];
+  const formatPath = (path: DependencyPath): void => {
+    lines.push(`  ${labelOf(path.nodes[0])}`);
+    for (const edge of path.edges) {
+      lines.push(`    -> ${labelOf(edge.to)}${formatHop(edge)}`);
+    }
+  };
+
+  if (result.paths.length === 1 && !result.truncated) {
+    const [path] = result.paths;
+    lines.push(`Path from ${fromName} to ${toName} (${formatHopCount(path)}):`);
+    formatPath(path);
+    return lines.join('\n');
+  }
+
+  lines.push(`${result.paths.length} paths from ${fromName} to ${toName}:`);
+  result.paths.forEach((path, index) => {
+    lines.push(`${index + 1}. (${formatHopCount(path)})`);
+    formatPath(path);
+  });
+  if (result.truncated) {
+    lines.push('More paths exist; raise --limit to list them');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Ids of the nodes matching an id or label
+ */
+function resolveNodeIds(graph: Graph, name: string): string[] {
+  const ids = graph.nodes
+    .filter((node) => node.id === name || node.label === name)
+    .map((node) => node.id);
+  if (ids.length === 0) {
+    throw ErrorHandler.createError(`Node not found in graph: ${name}`, 'INVALID_ARGUMENTS');
+  }
+  return ids;
+}
+
+/**
+ * Number of hops from every node to the nearest target (nodes that cannot reach one are missing)
+ */
+function distancesToTargets(edges: Edge[], targetIds: Set<string>): Map<string, number> {
+  const incoming = new Map<string, string[]>();
+  for (const edge of edges) {
+    const sources = incoming.get(edge.to) ?? [];
+    sources.push(edge.from);
+    incoming.set(edge.to, sources);
+  }
+
+  const distances = new Map([...targetIds].map((id) => [id, 0]));
+  let level = [...targetIds];
+  for (let distance = 1; level.length > 0; distance++) {
+    const nextLevel: string[] = [];
+    for (const id of level) {
+      for (const source of incoming.get(id) ?? []) {
+        if (!distances.has(source)) {
+          distances.set(source, distance);
+          nextLevel.push(source);
+        }
+      }
+    }
+    level = nextLevel;
+  }
+  return distances;
+}
+
+/**
+ * Hop details: parameter name and set flags
+ */
+function formatHop(edge: Edge): string {
+  const details = edge.parameterName ? [edge.parameterName] : [];
+  details.push(...FLAG_ORDER.filter((flag) => edge.flags?.[flag]));
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+/**
+ * "1 hop" / "n hops"
+ */
+function formatHopCount(path: DependencyPath): string {
+  return path.edges.length === 1 ? '1 hop' : `${path.edges.length} hops`;
+}
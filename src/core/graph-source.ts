@@ -0,0 +1,130 @@
+/**
+ * Graph source module for ng-di-graph CLI tool
+ * Loads graphs from JSON files written by `--format json` or checks out git revisions to parse them
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import type { Graph } from '../types';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Checks whether a diff source refers to a graph JSON file rather than a git revision
+ * @param source File path or git revision
+ * @returns True when the source is an existing file
+ */
+export function isGraphFile(source: string): boolean {
+  return existsSync(source) && statSync(source).isFile();
+}
+
+/**
+ * Reads a graph written by the JSON formatter
+ * @param filePath Path of the graph JSON file
+ * @returns The parsed graph
+ * @throws CliError if the file is not a valid graph
+ */
+export function readGraphFile(filePath: string): Graph {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw ErrorHandler.createError(
+      `Invalid graph file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  const graph = data as Partial<Graph> | null;
+  if (
+    graph === null ||
+    typeof graph !== 'object' ||
+    !Array.isArray(graph.nodes) ||
+    !Array.isArray(graph.edges)
+  ) {
+    throw ErrorHandler.createError(
+      'Invalid graph file: expected JSON output of ng-di-graph with "nodes" and "edges"',
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+
+  return {
+    nodes: graph.nodes,
+    edges: graph.edges,
+    circularDependencies: graph.circularDependencies ?? [],
+  };
+}
+
+/**
+ * Checks out a git revision into a temporary worktree and runs a callback against it
+ * The worktree is removed afterwards, also when the callback throws
+ * @param ref Git revision (branch, tag or commit)
+ * @param projectPath tsconfig.json path in the current checkout
+ * @param callback Receives the tsconfig.json path inside the worktree
+ * @returns The callback result
+ * @throws CliError if the project is not in a git repository or the revision does not exist
+ */
+export async function withGitRevision<T>(
+  ref: string,
+  projectPath: string,
+  callback: (worktreeProjectPath: string) => Promise<T>
+): Promise<T> {
+  const absoluteProject = resolve(projectPath);
+  const projectDir = dirname(absoluteProject);
+
+  let repoRoot: string;
+  let projectPrefix: string;
+  try {
+    repoRoot = git(projectDir, ['rev-parse', '--show-toplevel']);
+    projectPrefix = git(projectDir, ['rev-parse', '--show-prefix']);
+  } catch {
+    throw ErrorHandler.createError(
+      `'${ref}' is neither a graph file nor usable as a git revision: ${projectDir} is not in a git repository`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  let commit: string;
+  try {
+    commit = git(repoRoot, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch {
+    throw ErrorHandler.createError(
+      `'${ref}' is neither a graph file nor a git revision`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  const worktreeDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-'));
+  try {
+    git(repoRoot, ['worktree', 'add', '--detach', '--quiet', worktreeDir, commit]);
+
+    // Installed packages are not versioned; reuse them so library types resolve as in the checkout
+    const nodeModules = join(repoRoot, 'node_modules');
+    if (existsSync(nodeModules) && !existsSync(join(worktreeDir, 'node_modules'))) {
+      symlinkSync(nodeModules, join(worktreeDir, 'node_modules'), 'dir');
+    }
+
+    return await callback(join(worktreeDir, projectPrefix, basename(absoluteProject)));
+  } finally {
+    try {
+      git(repoRoot, ['worktree', 'remove', '--force', worktreeDir]);
+    } catch {
+      // Worktree was not created; only the temporary directory needs cleaning up
+    }
+    rmSync(worktreeDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs a git command and returns its trimmed stdout
+ */
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }).trim();
+}
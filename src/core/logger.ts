@@ -90,6 +90,7 @@ export interface TimerEntry {
  * Returns undefined when verbose is false (no-op pattern)
  *
  * @param verbose - Enable verbose logging
+ * @param write - Receives each formatted log line (stderr by default)
  * @returns Logger instance or undefined
  *
  * @example
@@ -98,8 +99,11 @@ export interface TimerEntry {
  * logger?.info(LogCategory.FILE_PROCESSING, 'Starting processing');
  * ```
  */
-export function createLogger(verbose: boolean): Logger | undefined {
-  return verbose ? new LoggerImpl() : undefined;
+export function createLogger(
+  verbose: boolean,
+  write: (line: string) => void = (line) => console.error(line)
+): Logger | undefined {
+  return verbose ? new LoggerImpl(write) : undefined;
 }
 
 /**
@@ -111,7 +115,7 @@ class LoggerImpl implements Logger {
   private _stats: LoggingStats;
   private _peakMemory: number;
 
-  constructor() {
+  constructor(private readonly _write: (line: string) => void) {
     this._timers = new Map();
     this._stats = {
       totalLogs: 0,
@@ -184,7 +188,7 @@ class LoggerImpl implements Logger {
 
     // Format and output log
     const formattedLog = this._formatLog(level, category, message, context);
-    console.error(formattedLog); // Use stderr to separate from tool output
+    this._write(formattedLog);
   }
 
   private _formatLog(
@@ -0,0 +1,99 @@
+/**
+ * Parallel parsing module for ng-di-graph CLI tool
+ * Splits source files across worker threads; every worker loads the project on its own
+ * and parses its share of the files
+ */
+
+import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { Worker } from 'node:worker_threads';
+import type { CliOptions, ParsedFileResult, ParseWorkerData } from '../types';
+import { ErrorHandler } from './error-handler';
+
+/**
+ * Parse source files in worker threads
+ * Files are dealt to the workers in turn, so that each worker gets a similar share
+ * @param options Options of the parser; workers never log, cache or start workers themselves
+ * @param filePaths Absolute paths of the source files to parse
+ * @param workerCount Number of worker threads (at most one per file)
+ * @returns Parse results by absolute file path
+ * @throws CliError if a worker fails to start or to load the project
+ */
+export async function parseFilesInWorkers(
+  options: CliOptions,
+  filePaths: string[],
+  workerCount: number
+): Promise<Map<string, ParsedFileResult>> {
+  const workerOptions: CliOptions = {
+    ...options,
+    verbose: false,
+    cache: false,
+    workers: undefined,
+  };
+  const shareCount = Math.min(workerCount, filePaths.length);
+  const shares = Array.from({ length: shareCount }, (_, share) =>
+    filePaths.filter((_, index) => index % shareCount === share)
+  );
+
+  const results = await Promise.all(
+    shares.map((share) => runWorker({ options: workerOptions, filePaths: share }))
+  );
+  return new Map(results.flat().map((result) => [result.filePath, result]));
+}
+
+/**
+ * Run one parse worker until it has posted its results and exited
+ */
+function runWorker(data: ParseWorkerData): Promise<ParsedFileResult[]> {
+  const { filename, execArgv } = resolveWorkerScript();
+
+  return new Promise((resolvePromise, reject) => {
+    let results: ParsedFileResult[] | undefined;
+    const worker = new Worker(filename, { workerData: data, execArgv });
+
+    worker.once('message', (message: ParsedFileResult[]) => {
+      results = message;
+    });
+    worker.once('error', (error) => {
+      reject(
+        ErrorHandler.createError(
+          `Parse worker failed: ${error.message}`,
+          'INTERNAL_ERROR',
+          filename
+        )
+      );
+    });
+    worker.once('exit', (exitCode) => {
+      if (results) {
+        resolvePromise(results);
+      } else {
+        reject(
+          ErrorHandler.createError(
+            `Parse worker exited with code ${exitCode} before reporting its results`,
+            'INTERNAL_ERROR',
+            filename
+          )
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Locate the worker script
+ * Bundles share dist/parse-worker.js (the CLI bundle lives in dist/cli); when running
+ * from source the TypeScript entry point is loaded through tsx
+ */
+function resolveWorkerScript(): { filename: string; execArgv?: string[] } {
+  const bundled = [join(__dirname, 'parse-worker.js'), join(__dirname, '..', 'parse-worker.js')];
+  const script = bundled.find((candidate) => existsSync(candidate));
+  if (script) {
+    return { filename: script };
+  }
+
+  return {
+    filename: join(__dirname, 'parse-worker.ts'),
+    execArgv: ['--require', createRequire(__filename).resolve('tsx/cjs')],
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Parse cache module for ng-di-graph CLI tool
+ * Persists the classes and warnings parsed from each source file, so that files whose
+ * contents (and the contents of the local files they import) did not change skip analysis
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { type Project, type SourceFile, ts } from 'ts-morph';
+import type { ParseCacheEntry, ParseCacheStats } from '../types';
+import { ErrorHandler } from './error-handler';
+import { TOOL_VERSION } from './version';
+
+/**
+ * Cache directory used when --cache-dir is not given, relative to the tsconfig directory
+ */
+export const DEFAULT_CACHE_DIR = join('node_modules', '.cache', 'ng-di-graph');
+
+/**
+ * Contents of a cache file; one file per tsconfig
+ * Entries are only reused while the key (tool version, tsconfig, compiler and parse options)
+ * is unchanged
+ */
+interface CacheFile {
+  key: string;
+  entries: Record<string, ParseCacheEntry & { hash: string }>;
+}
+
+export interface ParseCacheOptions {
+  cacheDir?: string; // Defaults to DEFAULT_CACHE_DIR next to the tsconfig
+  includeDecorators: boolean; // Changes the parsed dependency flags, so it is part of the key
+}
+
+/**
+ * On-disk cache of parse results, keyed by a content hash of each source file
+ * The hash covers the file itself and every project file it imports (transitively),
+ * since the resolved tokens of a constructor depend on the declarations it imports
+ */
+export class ParseCache {
+  private readonly _cacheFile: string;
+  private readonly _key: string;
+  private _stored: CacheFile['entries'] = {};
+  private _entries: CacheFile['entries'] = {};
+  private _changed = false;
+  private _hits = 0;
+  private _misses = 0;
+  private _hashes = new Map<string, string>();
+  private _contentHashes = new Map<string, string>();
+  private _localImports = new Map<string, string[]>();
+  private _resolutionCache: ts.ModuleResolutionCache;
+
+  constructor(
+    private _project: Project,
+    tsConfigPath: string,
+    options: ParseCacheOptions
+  ) {
+    const tsConfigFile = resolve(tsConfigPath);
+    const cacheDir =
+      options.cacheDir !== undefined
+        ? resolve(options.cacheDir)
+        : join(dirname(tsConfigFile), DEFAULT_CACHE_DIR);
+    this._cacheFile = join(cacheDir, `${hash(tsConfigFile).slice(0, 16)}.json`);
+
+    const compilerOptions = this._project.getCompilerOptions();
+    this._resolutionCache = ts.createModuleResolutionCache(
+      dirname(tsConfigFile),
+      (fileName) => fileName,
+      compilerOptions
+    );
+    this._key = hash(
+      JSON.stringify([
+        TOOL_VERSION,
+        tsConfigFile,
+        readFileSync(tsConfigFile, 'utf-8'),
+        compilerOptions,
+        options.includeDecorators,
+      ])
+    );
+
+    this._stored = readCacheFile(this._cacheFile, this._key);
+  }
+
+  /**
+   * Get the cached parse result of a file, counting a hit or a miss
+   * @param sourceFile Source file about to be parsed
+   * @returns The cached classes and warnings, or undefined when the file has to be parsed
+   */
+  get(sourceFile: SourceFile): ParseCacheEntry | undefined {
+    const filePath = sourceFile.getFilePath();
+    const stored = this._stored[filePath];
+    if (stored && stored.hash === this.hashSourceFile(sourceFile)) {
+      this._hits++;
+      this._entries[filePath] = stored;
+      return { classes: stored.classes, warnings: stored.warnings };
+    }
+    this._misses++;
+    return undefined;
+  }
+
+  /**
+   * Check whether the cached parse result of a file is still valid, without counting it
+   * @param sourceFile Source file about to be parsed
+   */
+  has(sourceFile: SourceFile): boolean {
+    return this._stored[sourceFile.getFilePath()]?.hash === this.hashSourceFile(sourceFile);
+  }
+
+  /**
+   * Store the parse result of a file
+   * @param sourceFile Parsed source file
+   * @param entry Classes and warnings parsed from the file
+   */
+  set(sourceFile: SourceFile, entry: ParseCacheEntry): void {
+    this._entries[sourceFile.getFilePath()] = {
+      hash: this.hashSourceFile(sourceFile),
+      ...entry,
+    };
+    this._changed = true;
+  }
+
+  /**
+   * Write the cache file when an entry was added or a file of the previous run is gone
+   * Failing to write only warns, the cache is an optimization
+   */
+  save(): void {
+    const removed = Object.keys(this._stored).some((filePath) => !(filePath in this._entries));
+    if (!this._changed && !removed) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this._cacheFile), { recursive: true });
+      writeFileSync(
+        this._cacheFile,
+        JSON.stringify({ key: this._key, entries: this._entries } satisfies CacheFile)
+      );
+      this._stored = this._entries;
+      this._entries = {};
+      this._changed = false;
+    } catch (error) {
+      ErrorHandler.warn(
+        `Could not write parse cache: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this._cacheFile
+      );
+    }
+  }
+
+  /**
+   * Cache hits and misses since the cache was created
+   */
+  getStats(): ParseCacheStats {
+    return { hits: this._hits, misses: this._misses };
+  }
+
+  /**
+   * Path of the cache file of the project
+   */
+  getCacheFile(): string {
+    return this._cacheFile;
+  }
+
+  /**
+   * Hash of a file and the project files it imports (transitively)
+   */
+  private hashSourceFile(sourceFile: SourceFile): string {
+    const filePath = sourceFile.getFilePath();
+    const cached = this._hashes.get(filePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const visited = new Set<string>([filePath]);
+    const queue: string[] = [filePath];
+    for (let index = 0; index < queue.length; index++) {
+      for (const importedPath of this.getLocalImports(queue[index])) {
+        if (!visited.has(importedPath)) {
+          visited.add(importedPath);
+          queue.push(importedPath);
+        }
+      }
+    }
+
+    const fileHash = hash(
+      [...visited]
+        .sort()
+        .map((path) => `${path}:${this.getContentHash(path)}`)
+        .join('\n')
+    );
+    this._hashes.set(filePath, fileHash);
+    return fileHash;
+  }
+
+  private getContentHash(filePath: string): string {
+    let contentHash = this._contentHashes.get(filePath);
+    if (contentHash === undefined) {
+      contentHash = hash(this._project.getSourceFile(filePath)?.getFullText() ?? '');
+      this._contentHashes.set(filePath, contentHash);
+    }
+    return contentHash;
+  }
+
+  /**
+   * Project files imported or re-exported by a file
+   * Specifiers are resolved with the compiler options (paths, baseUrl) but without
+   * the type checker; declaration files and packages are left out
+   */
+  private getLocalImports(filePath: string): string[] {
+    const known = this._localImports.get(filePath);
+    if (known) {
+      return known;
+    }
+
+    const sourceFile = this._project.getSourceFile(filePath);
+    const imports: string[] = [];
+    const specifiers = [
+      ...(sourceFile?.getImportDeclarations() ?? []),
+      ...(sourceFile?.getExportDeclarations() ?? []),
+    ]
+      .map((declaration) => declaration.getModuleSpecifierValue())
+      .filter((specifier): specifier is string => specifier !== undefined);
+
+    for (const specifier of specifiers) {
+      const { resolvedModule } = ts.resolveModuleName(
+        specifier,
+        filePath,
+        this._project.getCompilerOptions(),
+        ts.sys,
+        this._resolutionCache
+      );
+      if (
+        resolvedModule &&
+        !resolvedModule.isExternalLibraryImport &&
+        !resolvedModule.resolvedFileName.endsWith('.d.ts')
+      ) {
+        const importedFile = this._project.getSourceFile(resolvedModule.resolvedFileName);
+        if (importedFile) {
+          imports.push(importedFile.getFilePath());
+        }
+      }
+    }
+
+    this._localImports.set(filePath, imports);
+    return imports;
+  }
+}
+
+/**
+ * Read the entries of a cache file, ignoring missing, unreadable and outdated files
+ */
+function readCacheFile(cacheFile: string, key: string): CacheFile['entries'] {
+  if (!existsSync(cacheFile)) {
+    return {};
+  }
+  try {
+    const contents = JSON.parse(readFileSync(cacheFile, 'utf-8')) as Partial<CacheFile>;
+    return contents.key === key && typeof contents.entries === 'object' && contents.entries !== null
+      ? contents.entries
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
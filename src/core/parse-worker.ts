@@ -0,0 +1,14 @@
+/**
+ * Parse worker entry point for ng-di-graph CLI tool
+ * Runs in a worker thread: loads the project and parses its share of the source files
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import type { ParseWorkerData } from '../types';
+import { AngularParser } from './parser';
+
+const { options, filePaths } = workerData as ParseWorkerData;
+
+const parser = new AngularParser(options);
+parser.loadProject();
+parentPort?.postMessage(parser.parseFiles(filePaths));
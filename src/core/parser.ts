@@ -1,8 +1,10 @@
 import { existsSync, readFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
 import type {
   CallExpression,
   ClassDeclaration,
   Decorator,
+  FunctionDeclaration,
   Node,
   ObjectLiteralExpression,
   ParameterDeclaration,
@@ -11,21 +13,31 @@ import type {
   SourceFile,
   Type,
   TypeNode,
+  VariableDeclaration,
 } from 'ts-morph';
-import { Project, SyntaxKind } from 'ts-morph';
+import { Project, SyntaxKind, VariableDeclarationKind } from 'ts-morph';
 import type {
   CliOptions,
   EdgeFlags,
+  InjectionTokenInfo,
   NodeKind,
   ParameterAnalysisResult,
+  ParseCacheEntry,
+  ParseCacheStats,
   ParsedClass,
   ParsedDependency,
+  ParsedFileResult,
+  ParsedProvider,
+  SourceLocation,
   StructuredWarnings,
   VerboseStats,
   Warning,
 } from '../types';
 import { CliError, ErrorHandler } from './error-handler';
+import { createGlobMatcher } from './glob';
 import { LogCategory, type Logger } from './logger';
+import { parseFilesInWorkers } from './parallel-parser';
+import { ParseCache } from './parse-cache';
 
 /**
  * AngularParser - Core TypeScript AST parsing using ts-morph
@@ -39,6 +51,11 @@ export class AngularParser {
   private _project?: Project;
   private _typeResolutionCache = new Map<string, string | null>();
   private _circularTypeRefs = new Set<string>();
+  private _exportNames = new WeakMap<SourceFile, Map<Node, string>>();
+  private _parseCache?: ParseCache;
+  private _fileWarnings?: ParseCacheEntry['warnings']; // Warnings of the file being parsed, for the cache
+  private _deferWarnings = false; // Set in parse workers; the main thread reports their warnings
+  private _runStats: Pick<VerboseStats, 'excludedFiles' | 'cacheHits' | 'cacheMisses'> = {};
   private _structuredWarnings: StructuredWarnings = {
     categories: {
       typeResolution: [],
@@ -46,6 +63,7 @@ export class AngularParser {
       unresolvedImports: [],
       circularReferences: [],
       performance: [],
+      nameCollisions: [],
     },
     totalCount: 0,
   };
@@ -75,6 +93,7 @@ export class AngularParser {
         unresolvedImports: [...this._structuredWarnings.categories.unresolvedImports],
         circularReferences: [...this._structuredWarnings.categories.circularReferences],
         performance: [...this._structuredWarnings.categories.performance],
+        nameCollisions: [...this._structuredWarnings.categories.nameCollisions],
       },
       totalCount: this._structuredWarnings.totalCount,
     };
@@ -90,6 +109,11 @@ export class AngularParser {
     category: keyof StructuredWarnings['categories'],
     warning: Warning
   ): void {
+    this._fileWarnings?.push({ category, warning });
+    if (this._deferWarnings) {
+      return;
+    }
+
     // Deduplicate using global warning tracking for both structured warnings and console output
     const warnKey = `${category}_${warning.type}_${warning.file}_${warning.message}`;
     if (!GLOBAL_WARNING_KEYS.has(warnKey)) {
@@ -172,6 +196,13 @@ export class AngularParser {
           { diagnosticCount: diagnostics.length }
         );
       }
+
+      if (this._options.cache) {
+        this._parseCache = new ParseCache(this._project, this._options.project, {
+          cacheDir: this._options.cacheDir,
+          includeDecorators: this._options.includeDecorators,
+        });
+      }
     } catch (error) {
       // Re-throw CliError instances
       if (error instanceof CliError) {
@@ -229,6 +260,23 @@ export class AngularParser {
     return this._project;
   }
 
+  /**
+   * Parse cache hits and misses of the project
+   * @returns Cache statistics, or undefined when the parse cache is disabled
+   */
+  getCacheStats(): ParseCacheStats | undefined {
+    return this._parseCache?.getStats();
+  }
+
+  /**
+   * Run totals of the last findDecoratedClasses call, printed in verbose mode
+   * @returns Files left out by the include/exclude globs and parse cache hits and misses
+   * (when the cache is enabled)
+   */
+  getRunStats(): Pick<VerboseStats, 'excludedFiles' | 'cacheHits' | 'cacheMisses'> {
+    return { ...this._runStats };
+  }
+
   /**
    * Parse decorated classes from the loaded project
    * Auto-loads project if not already loaded
@@ -244,7 +292,7 @@ export class AngularParser {
   }
 
   /**
-   * Find all classes decorated with @Injectable, @Component, or @Directive
+   * Find all classes decorated with @Injectable, @Component, @Directive, @Pipe or @NgModule
    * Implements FR-02: Decorated Class Collection
    * @returns Promise<ParsedClass[]> List of decorated classes
    */
@@ -262,7 +310,7 @@ export class AngularParser {
     }
 
     const decoratedClasses: ParsedClass[] = [];
-    const sourceFiles = this._project.getSourceFiles();
+    const { sourceFiles, excludedFiles } = this.getIncludedSourceFiles(this._project);
     let processedFiles = 0;
     let skippedFiles = 0;
 
@@ -279,6 +327,15 @@ export class AngularParser {
       console.log(`Processing ${sourceFiles.length} source files`);
     }
 
+    // With --workers, files missing from the parse cache are parsed up front in worker threads;
+    // their results are merged below in source file order, like serially parsed files
+    const workerResults =
+      (this._options.workers ?? 1) > 1
+        ? await this.parseInWorkers(
+            sourceFiles.filter((sourceFile) => !this._parseCache?.has(sourceFile))
+          )
+        : undefined;
+
     for (const sourceFile of sourceFiles) {
       const filePath = sourceFile.getFilePath();
       try {
@@ -288,37 +345,26 @@ export class AngularParser {
 
         this._logger?.debug(LogCategory.FILE_PROCESSING, 'Processing file', { filePath });
 
-        const classes = sourceFile.getClasses();
-
-        if (this._options.verbose) {
-          console.log(`File: ${filePath}, Classes: ${classes.length}`);
-        }
-
-        this._logger?.debug(LogCategory.AST_ANALYSIS, 'Analyzing classes in file', {
-          filePath,
-          classCount: classes.length,
-        });
-
-        // Process regular class declarations
-        for (const classDeclaration of classes) {
-          const parsedClass = this.parseClassDeclaration(classDeclaration);
-          if (parsedClass) {
-            decoratedClasses.push(parsedClass);
-            if (this._options.verbose) {
-              console.log(`Found decorated class: ${parsedClass.name} (${parsedClass.kind})`);
-            }
-            this._logger?.info(LogCategory.AST_ANALYSIS, 'Found decorated class', {
-              className: parsedClass.name,
-              kind: parsedClass.kind,
-              filePath,
-            });
+        const cached = this._parseCache?.get(sourceFile);
+        this._fileWarnings = this._parseCache && !cached ? [] : undefined;
+        if (cached) {
+          // Unchanged file: reuse its classes and report its warnings again
+          this._logger?.debug(LogCategory.FILE_PROCESSING, 'Parse cache hit', { filePath });
+          for (const { category, warning } of cached.warnings) {
+            this.addStructuredWarning(category, warning);
+          }
+          decoratedClasses.push(...cached.classes);
+        } else {
+          const workerResult = workerResults?.get(filePath);
+          const classes = workerResult
+            ? this.mergeWorkerResult(workerResult)
+            : this.parseSourceFile(sourceFile);
+          if (this._fileWarnings) {
+            this._parseCache?.set(sourceFile, { classes, warnings: this._fileWarnings });
           }
+          decoratedClasses.push(...classes);
         }
 
-        // Look for anonymous class expressions in variable declarations
-        // Pattern: const X = Decorator()(class { ... })
-        this.detectAnonymousClasses(sourceFile);
-
         processedFiles++;
       } catch (error) {
         // Graceful error recovery: warn and continue with next file (FR-14)
@@ -340,8 +386,22 @@ export class AngularParser {
       }
     }
 
+    this._fileWarnings = undefined;
+    this._parseCache?.save();
+    const cacheStats = this._parseCache?.getStats();
+    this._runStats = cacheStats
+      ? { excludedFiles, cacheHits: cacheStats.hits, cacheMisses: cacheStats.misses }
+      : { excludedFiles };
+
     if (this._options.verbose) {
-      console.log(`✅ Processed ${processedFiles} files, skipped ${skippedFiles} files`);
+      console.log(
+        `✅ Processed ${processedFiles} files, skipped ${skippedFiles} files, excluded ${this._runStats.excludedFiles} files`
+      );
+      if (this._runStats.cacheHits !== undefined) {
+        console.log(
+          `💾 Parse cache: ${this._runStats.cacheHits} hits, ${this._runStats.cacheMisses} misses`
+        );
+      }
     }
 
     // Logger: End timing and log completion
@@ -350,6 +410,9 @@ export class AngularParser {
       totalClasses: decoratedClasses.length,
       processedFiles,
       skippedFiles,
+      excludedFiles,
+      cacheHits: cacheStats?.hits,
+      cacheMisses: cacheStats?.misses,
       timing: elapsed,
     });
 
@@ -357,9 +420,309 @@ export class AngularParser {
       ErrorHandler.warn('No decorated classes found in the project');
     }
 
+    this.reportNameCollisions(decoratedClasses);
+
     return decoratedClasses;
   }
 
+  /**
+   * Parse the given files without reporting their warnings
+   * Used by parse workers: warnings and errors are returned per file, so that the
+   * main thread reports them in the same order as a serial run
+   * @param filePaths Absolute paths of source files of the loaded project
+   * @returns Classes, warnings or error of every file, in the given order
+   */
+  parseFiles(filePaths: string[]): ParsedFileResult[] {
+    const project = this.getProject();
+    this._deferWarnings = true;
+
+    try {
+      return filePaths.map((filePath) => {
+        const warnings: ParseCacheEntry['warnings'] = [];
+        this._fileWarnings = warnings;
+        try {
+          const classes = this.parseSourceFile(project.getSourceFileOrThrow(filePath));
+          return { filePath, classes, warnings };
+        } catch (error) {
+          return {
+            filePath,
+            classes: [],
+            warnings,
+            error: {
+              message: error instanceof Error ? error.message : 'Unknown error',
+              code: error instanceof CliError ? error.code : undefined,
+            },
+          };
+        }
+      });
+    } finally {
+      this._fileWarnings = undefined;
+      this._deferWarnings = false;
+    }
+  }
+
+  /**
+   * Parse files in worker threads
+   * @param sourceFiles Source files to parse
+   * @returns Parse results by absolute file path
+   */
+  private async parseInWorkers(sourceFiles: SourceFile[]): Promise<Map<string, ParsedFileResult>> {
+    const workerCount = Math.min(this._options.workers ?? 1, sourceFiles.length);
+    if (workerCount === 0) {
+      return new Map();
+    }
+
+    if (this._options.verbose) {
+      console.log(`⚡ Parsing ${sourceFiles.length} files in ${workerCount} worker threads`);
+    }
+    this._logger?.time('parseInWorkers');
+
+    const results = await parseFilesInWorkers(
+      this._options,
+      sourceFiles.map((sourceFile) => sourceFile.getFilePath()),
+      workerCount
+    );
+
+    const elapsed = this._logger?.timeEnd('parseInWorkers') || 0;
+    this._logger?.info(LogCategory.PERFORMANCE, 'Worker parsing complete', {
+      fileCount: sourceFiles.length,
+      workerCount,
+      timing: elapsed,
+    });
+    return results;
+  }
+
+  /**
+   * Report the warnings of a file parsed by a worker and return its classes
+   * @param result Parse result of the file
+   * @returns Classes declared in the file
+   * @throws The error the worker hit while parsing the file
+   */
+  private mergeWorkerResult(result: ParsedFileResult): ParsedClass[] {
+    for (const { category, warning } of result.warnings) {
+      this.addStructuredWarning(category, warning);
+    }
+    if (result.error) {
+      throw result.error.code
+        ? ErrorHandler.createError(result.error.message, result.error.code, result.filePath)
+        : new Error(result.error.message);
+    }
+    return result.classes;
+  }
+
+  /**
+   * Re-read changed files from disk and parse them again, together with the files importing them
+   * directly or through other files such as barrels (their dependencies resolve through the
+   * changed files), like the parse cache invalidates them
+   * Deleted files are removed from the project and new files listed by the tsconfig are added
+   * @param filePaths Absolute paths of changed, added or deleted files
+   * @returns Parsed declarations by re-parsed file path (empty for deleted or excluded files)
+   */
+  reparseFiles(filePaths: string[]): Map<string, ParsedClass[]> {
+    const project = this.getProject();
+    const affectedFiles = new Map<string, SourceFile | undefined>();
+    const addImporters = (sourceFile: SourceFile): void => {
+      const queue = [sourceFile];
+      for (let index = 0; index < queue.length; index++) {
+        for (const importer of queue[index].getReferencingSourceFiles()) {
+          if (!affectedFiles.has(importer.getFilePath())) {
+            affectedFiles.set(importer.getFilePath(), importer);
+            queue.push(importer);
+          }
+        }
+      }
+    };
+
+    // New files are only part of the project when the tsconfig lists them; they are added
+    // first, so that changed files importing them resolve their imports
+    if (filePaths.some((filePath) => existsSync(filePath) && !project.getSourceFile(filePath))) {
+      project.addSourceFilesFromTsConfig(this._options.project);
+    }
+
+    for (const filePath of filePaths) {
+      const sourceFile = project.getSourceFile(filePath);
+
+      if (!existsSync(filePath)) {
+        if (sourceFile) {
+          addImporters(sourceFile);
+          affectedFiles.set(sourceFile.getFilePath(), undefined);
+          this._exportNames.delete(sourceFile);
+          project.removeSourceFile(sourceFile);
+        }
+        continue;
+      }
+
+      if (sourceFile) {
+        sourceFile.refreshFromFileSystemSync();
+        // Export names are cached by declaration node, which the refresh replaces
+        this._exportNames.delete(sourceFile);
+        affectedFiles.set(sourceFile.getFilePath(), sourceFile);
+        addImporters(sourceFile);
+      }
+    }
+
+    // Resolved types may have changed with the files
+    this._typeResolutionCache.clear();
+    this._circularTypeRefs.clear();
+
+    const includedFiles = new Set(this.getIncludedSourceFiles(project).sourceFiles);
+    const reparsed = new Map<string, ParsedClass[]>();
+    for (const [filePath, sourceFile] of affectedFiles) {
+      if (!sourceFile || sourceFile.wasForgotten() || !includedFiles.has(sourceFile)) {
+        reparsed.set(filePath, []);
+        continue;
+      }
+
+      this._logger?.debug(LogCategory.FILE_PROCESSING, 'Re-parsing file', { filePath });
+      try {
+        reparsed.set(filePath, this.parseSourceFile(sourceFile));
+      } catch (error) {
+        if (error instanceof CliError && error.isFatal()) {
+          throw error;
+        }
+        ErrorHandler.warn(
+          `Failed to parse file (skipping): ${error instanceof Error ? error.message : 'Unknown error'}`,
+          filePath
+        );
+        reparsed.set(filePath, []);
+      }
+    }
+
+    return reparsed;
+  }
+
+  /**
+   * Parse the decorated classes, InjectionTokens and inject() functions of one source file
+   * @param sourceFile Source file to parse
+   * @returns Parsed declarations of the file
+   */
+  private parseSourceFile(sourceFile: SourceFile): ParsedClass[] {
+    const filePath = sourceFile.getFilePath();
+    const parsedClasses: ParsedClass[] = [];
+
+    const classes = sourceFile.getClasses();
+
+    if (this._options.verbose) {
+      console.log(`File: ${filePath}, Classes: ${classes.length}`);
+    }
+
+    this._logger?.debug(LogCategory.AST_ANALYSIS, 'Analyzing classes in file', {
+      filePath,
+      classCount: classes.length,
+    });
+
+    // Process regular class declarations
+    for (const classDeclaration of classes) {
+      const parsedClass = this.parseClassDeclaration(classDeclaration);
+      if (parsedClass) {
+        parsedClasses.push(parsedClass);
+        if (this._options.verbose) {
+          console.log(`Found decorated class: ${parsedClass.name} (${parsedClass.kind})`);
+        }
+        this._logger?.info(LogCategory.AST_ANALYSIS, 'Found decorated class', {
+          className: parsedClass.name,
+          kind: parsedClass.kind,
+          filePath,
+        });
+      }
+    }
+
+    // Collect InjectionToken declarations as first-class token nodes
+    for (const parsedToken of this.parseInjectionTokens(sourceFile)) {
+      parsedClasses.push(parsedToken);
+      if (this._options.verbose) {
+        console.log(`Found injection token: ${parsedToken.name}`);
+      }
+      this._logger?.info(LogCategory.AST_ANALYSIS, 'Found injection token', {
+        className: parsedToken.name,
+        kind: parsedToken.kind,
+        filePath,
+      });
+    }
+
+    // Collect functional guards, resolvers, interceptors and factories using inject()
+    for (const parsedFunction of this.parseInjectFunctions(sourceFile)) {
+      parsedClasses.push(parsedFunction);
+      if (this._options.verbose) {
+        console.log(`Found inject() function: ${parsedFunction.name}`);
+      }
+      this._logger?.info(LogCategory.AST_ANALYSIS, 'Found inject() function', {
+        className: parsedFunction.name,
+        kind: parsedFunction.kind,
+        filePath,
+      });
+    }
+
+    // Look for anonymous class expressions in variable declarations
+    // Pattern: const X = Decorator()(class { ... })
+    this.detectAnonymousClasses(sourceFile);
+
+    return parsedClasses;
+  }
+
+  /**
+   * Source files of the project that match the include globs (all when none are given)
+   * and none of the exclude globs
+   * Globs are matched against paths relative to the tsconfig directory; filtered-out files
+   * still take part in type resolution
+   * @param project Loaded ts-morph project
+   * @returns Source files to parse and the number of filtered-out files
+   */
+  private getIncludedSourceFiles(project: Project): {
+    sourceFiles: SourceFile[];
+    excludedFiles: number;
+  } {
+    const allSourceFiles = project.getSourceFiles();
+    const { include = [], exclude = [] } = this._options;
+    if (include.length === 0 && exclude.length === 0) {
+      return { sourceFiles: allSourceFiles, excludedFiles: 0 };
+    }
+
+    const isIncluded = include.length > 0 ? createGlobMatcher(include) : () => true;
+    const isExcluded = createGlobMatcher(exclude);
+    const rootDir = dirname(resolve(this._options.project));
+    const sourceFiles = allSourceFiles.filter((sourceFile) => {
+      const path = relative(rootDir, sourceFile.getFilePath());
+      if (isIncluded(path) && !isExcluded(path)) {
+        return true;
+      }
+      this._logger?.debug(LogCategory.FILE_PROCESSING, 'Excluded file', { filePath: path });
+      return false;
+    });
+
+    return { sourceFiles, excludedFiles: allSourceFiles.length - sourceFiles.length };
+  }
+
+  /**
+   * Report symbols declared with the same name in different files
+   * buildGraph keeps them as separate nodes, but their labels are ambiguous
+   * @param parsedClasses Parsed classes of the whole project
+   */
+  private reportNameCollisions(parsedClasses: ParsedClass[]): void {
+    const filesByName = new Map<string, Set<string>>();
+    for (const parsedClass of parsedClasses) {
+      const files = filesByName.get(parsedClass.name) ?? new Set<string>();
+      files.add(parsedClass.filePath);
+      filesByName.set(parsedClass.name, files);
+    }
+
+    for (const [name, files] of filesByName) {
+      if (files.size < 2) {
+        continue;
+      }
+
+      const sortedFiles = Array.from(files).sort();
+      this.addStructuredWarning('nameCollisions', {
+        type: 'duplicate_node_name',
+        message: `'${name}' is declared in ${sortedFiles.length} files: ${sortedFiles.join(', ')}`,
+        file: sortedFiles[0],
+        suggestion:
+          'Use --disambiguate with Mermaid output to show the file path of colliding names',
+        severity: 'warning',
+      });
+    }
+  }
+
   /**
    * Parse a single class declaration for Angular decorators
    * @param classDeclaration ts-morph ClassDeclaration
@@ -399,16 +762,109 @@ export class AngularParser {
     // FR-03: Extract constructor dependencies
     const dependencies = this.extractConstructorDependencies(classDeclaration);
 
-    return {
+    const parsedClass: ParsedClass = {
       name: className,
       kind: nodeKind,
       filePath,
       dependencies,
+      ...this.describeDeclaration(classDeclaration),
     };
+
+    // Keep the selector and standalone flag of components and directives
+    if (nodeKind === 'component' || nodeKind === 'directive') {
+      Object.assign(parsedClass, this.extractSelectorMetadata(angularDecorator));
+    }
+
+    // Extract `providers` registrations from decorator metadata
+    const providers = this.extractProviders(angularDecorator);
+    if (providers.length > 0) {
+      parsedClass.providers = providers;
+    }
+
+    // Keep the injector scope of @Injectable({ providedIn })
+    if (nodeKind === 'service') {
+      const providedIn = this.extractProvidedIn(angularDecorator);
+      if (providedIn) {
+        parsedClass.providedIn = providedIn;
+      }
+    }
+
+    return parsedClass;
+  }
+
+  /**
+   * Locate a declaration and find the name it is exported under
+   * @param declaration Class, function or variable declaration
+   * @returns Location of the declaration name and its export name, if exported
+   */
+  private describeDeclaration(
+    declaration: ClassDeclaration | FunctionDeclaration | VariableDeclaration
+  ): Pick<ParsedClass, 'location' | 'exportName'> {
+    const description: Pick<ParsedClass, 'location' | 'exportName'> = {
+      location: this.getSourceLocation(declaration.getNameNode() ?? declaration),
+    };
+
+    const sourceFile = declaration.getSourceFile();
+    let exportNames = this._exportNames.get(sourceFile);
+    if (!exportNames) {
+      exportNames = new Map();
+      for (const [name, declarations] of sourceFile.getExportedDeclarations()) {
+        for (const exported of declarations) {
+          if (!exportNames.has(exported)) {
+            exportNames.set(exported, name);
+          }
+        }
+      }
+      this._exportNames.set(sourceFile, exportNames);
+    }
+
+    const exportName = exportNames.get(declaration);
+    if (exportName) {
+      description.exportName = exportName;
+    }
+    return description;
+  }
+
+  /**
+   * Extract the `selector` and `standalone` options from decorator metadata
+   * @param decorator Angular decorator (@Component, @Directive)
+   * @returns Selector and standalone flag, when set as literals
+   */
+  private extractSelectorMetadata(
+    decorator: Decorator
+  ): Pick<ParsedClass, 'selector' | 'standalone'> {
+    const metadata: Pick<ParsedClass, 'selector' | 'standalone'> = {};
+    const options = decorator.getArguments()[0];
+    if (!options || options.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+      return metadata;
+    }
+
+    const selector = this.getObjectPropertyInitializer(
+      options as ObjectLiteralExpression,
+      'selector'
+    );
+    if (
+      selector?.getKind() === SyntaxKind.StringLiteral ||
+      selector?.getKind() === SyntaxKind.NoSubstitutionTemplateLiteral
+    ) {
+      metadata.selector = selector.getText().slice(1, -1);
+    }
+
+    const standalone = this.getObjectPropertyInitializer(
+      options as ObjectLiteralExpression,
+      'standalone'
+    );
+    if (standalone?.getKind() === SyntaxKind.TrueKeyword) {
+      metadata.standalone = true;
+    } else if (standalone?.getKind() === SyntaxKind.FalseKeyword) {
+      metadata.standalone = false;
+    }
+
+    return metadata;
   }
 
   /**
-   * Find Angular decorator (@Injectable, @Component, @Directive) from list of decorators
+   * Find Angular decorator (@Injectable, @Component, @Directive, @Pipe, @NgModule) from list of decorators
    * @param decorators Array of decorators from ts-morph
    * @returns Angular decorator if found, null otherwise
    */
@@ -419,7 +875,9 @@ export class AngularParser {
       if (
         decoratorName === 'Injectable' ||
         decoratorName === 'Component' ||
-        decoratorName === 'Directive'
+        decoratorName === 'Directive' ||
+        decoratorName === 'Pipe' ||
+        decoratorName === 'NgModule'
       ) {
         return decorator;
       }
@@ -501,11 +959,510 @@ export class AngularParser {
         return 'component';
       case 'Directive':
         return 'directive';
+      case 'Pipe':
+        return 'pipe';
+      case 'NgModule':
+        return 'module';
       default:
         return 'unknown';
     }
   }
 
+  /**
+   * Extract provider registrations from the `providers` array of decorator metadata
+   * Supports bare classes, useClass, useExisting, useValue, useFactory (with deps) and multi
+   * @param decorator Angular decorator (@NgModule, @Component, @Directive)
+   * @returns Array of parsed providers (empty if none)
+   */
+  private extractProviders(decorator: Decorator): ParsedProvider[] {
+    const providers: ParsedProvider[] = [];
+
+    try {
+      const metadata = decorator.getArguments()[0];
+      if (!metadata || metadata.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+        return providers;
+      }
+
+      const providersProperty = (metadata as ObjectLiteralExpression).getProperty('providers');
+      if (!providersProperty || providersProperty.getKind() !== SyntaxKind.PropertyAssignment) {
+        return providers;
+      }
+
+      const initializer = (providersProperty as PropertyAssignment).getInitializer();
+      if (initializer) {
+        this.collectProviderEntries(initializer, providers, new Set<Node>());
+      }
+    } catch (error) {
+      // Graceful error handling - don't break parsing for provider metadata issues
+      if (this._options.verbose) {
+        console.warn(
+          `Warning: Failed to extract providers in ${decorator.getSourceFile().getFilePath()}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Extract the `providedIn` scope from decorator metadata
+   * @param decorator Angular decorator (@Injectable)
+   * @returns 'root', 'platform', 'any', a module name, or null if not set
+   */
+  private extractProvidedIn(decorator: Decorator): string | null {
+    const metadata = decorator.getArguments()[0];
+    if (!metadata || metadata.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+      return null;
+    }
+
+    const providedIn = this.getObjectPropertyInitializer(
+      metadata as ObjectLiteralExpression,
+      'providedIn'
+    );
+    if (!providedIn || providedIn.getKind() === SyntaxKind.NullKeyword) {
+      return null;
+    }
+
+    return this.extractProviderToken(providedIn) ?? providedIn.getText();
+  }
+
+  /**
+   * Recursively collect provider entries from a providers expression
+   * Flattens nested arrays, spread elements and constant arrays referenced by identifier
+   * @param expression Expression found in (or referenced from) a providers array
+   * @param providers Accumulator for parsed providers
+   * @param visited Nodes already expanded (guards against self-referencing constants)
+   */
+  private collectProviderEntries(
+    expression: Node,
+    providers: ParsedProvider[],
+    visited: Set<Node>
+  ): void {
+    if (visited.has(expression)) {
+      return;
+    }
+    visited.add(expression);
+
+    switch (expression.getKind()) {
+      case SyntaxKind.ArrayLiteralExpression: {
+        for (const element of expression
+          .asKindOrThrow(SyntaxKind.ArrayLiteralExpression)
+          .getElements()) {
+          this.collectProviderEntries(element, providers, visited);
+        }
+        return;
+      }
+      case SyntaxKind.SpreadElement: {
+        const spreadExpression = expression.asKindOrThrow(SyntaxKind.SpreadElement).getExpression();
+        this.collectProviderEntries(spreadExpression, providers, visited);
+        return;
+      }
+      case SyntaxKind.Identifier: {
+        // Constant provider arrays: `providers: APP_PROVIDERS` or `[...APP_PROVIDERS]`
+        const arrayInitializer = this.resolveProviderArrayConstant(expression);
+        if (arrayInitializer) {
+          this.collectProviderEntries(arrayInitializer, providers, visited);
+          return;
+        }
+
+        // Bare class entry: `providers: [MyService]`
+        providers.push({ token: expression.getText(), kind: 'class' });
+        return;
+      }
+      case SyntaxKind.ObjectLiteralExpression: {
+        const provider = this.parseProviderObject(expression as ObjectLiteralExpression);
+        if (provider) {
+          providers.push(provider);
+        }
+        return;
+      }
+      default:
+        // Function calls such as provideHttpClient() cannot be analysed statically here
+        if (this._options.verbose) {
+          console.log(`Skipping unsupported provider expression: ${expression.getText()}`);
+        }
+    }
+  }
+
+  /**
+   * Resolve an identifier used in a providers array to the array literal it is initialized with
+   * @param identifier Identifier node
+   * @returns Array literal initializer if the identifier is a constant provider array, null otherwise
+   */
+  private resolveProviderArrayConstant(identifier: Node): Node | null {
+    const symbol = identifier.getSymbol();
+    if (!symbol) {
+      return null;
+    }
+
+    const resolvedSymbol = symbol.getAliasedSymbol() ?? symbol;
+    for (const declaration of resolvedSymbol.getDeclarations()) {
+      if (declaration.getKind() !== SyntaxKind.VariableDeclaration) {
+        continue;
+      }
+
+      const initializer = declaration
+        .asKindOrThrow(SyntaxKind.VariableDeclaration)
+        .getInitializer();
+      if (initializer && initializer.getKind() === SyntaxKind.ArrayLiteralExpression) {
+        return initializer;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a provider object literal: `{ provide: TOKEN, useClass | useExisting | useValue | useFactory }`
+   * @param objectLiteral Provider object literal
+   * @returns ParsedProvider or null if the object has no usable `provide` token
+   */
+  private parseProviderObject(objectLiteral: ObjectLiteralExpression): ParsedProvider | null {
+    const provideValue = this.getObjectPropertyInitializer(objectLiteral, 'provide');
+    const token = provideValue ? this.extractProviderToken(provideValue) : null;
+    if (!token) {
+      if (this._options.verbose) {
+        console.warn(`Provider without a resolvable 'provide' token - skipping`);
+      }
+      return null;
+    }
+
+    let provider: ParsedProvider;
+
+    const useClass = this.getObjectPropertyInitializer(objectLiteral, 'useClass');
+    const useExisting = this.getObjectPropertyInitializer(objectLiteral, 'useExisting');
+    const useFactory = this.getObjectPropertyInitializer(objectLiteral, 'useFactory');
+
+    if (useClass) {
+      provider = { token, kind: 'class', target: this.extractProviderToken(useClass) ?? undefined };
+    } else if (useExisting) {
+      provider = {
+        token,
+        kind: 'existing',
+        target: this.extractProviderToken(useExisting) ?? undefined,
+      };
+    } else if (useFactory) {
+      provider = { token, kind: 'factory' };
+      const deps = this.getObjectPropertyInitializer(objectLiteral, 'deps');
+      if (deps && deps.getKind() === SyntaxKind.ArrayLiteralExpression) {
+        provider.deps = this.extractFactoryDeps(deps);
+      }
+    } else if (this.getObjectPropertyInitializer(objectLiteral, 'useValue')) {
+      provider = { token, kind: 'value' };
+    } else {
+      // `{ provide: X }` without a recipe behaves like `useClass: X`
+      provider = { token, kind: 'class' };
+    }
+
+    const multi = this.getObjectPropertyInitializer(objectLiteral, 'multi');
+    if (multi && multi.getText() === 'true') {
+      provider.multi = true;
+    }
+
+    if (provider.target === undefined) {
+      delete provider.target;
+    }
+
+    return provider;
+  }
+
+  /**
+   * Extract tokens from a `useFactory` deps array
+   * Entries may be tokens or `[new Optional(), TOKEN]` style arrays (last token wins)
+   * @param depsArray Array literal from the `deps` property
+   * @returns Array of dependency tokens
+   */
+  private extractFactoryDeps(depsArray: Node): string[] {
+    const deps: string[] = [];
+
+    for (const element of depsArray
+      .asKindOrThrow(SyntaxKind.ArrayLiteralExpression)
+      .getElements()) {
+      if (element.getKind() === SyntaxKind.ArrayLiteralExpression) {
+        const tokens = element
+          .asKindOrThrow(SyntaxKind.ArrayLiteralExpression)
+          .getElements()
+          .filter((entry) => entry.getKind() !== SyntaxKind.NewExpression)
+          .map((entry) => this.extractProviderToken(entry))
+          .filter((entry): entry is string => entry !== null);
+        if (tokens.length > 0) {
+          deps.push(tokens[tokens.length - 1]);
+        }
+        continue;
+      }
+
+      const token = this.extractProviderToken(element);
+      if (token) {
+        deps.push(token);
+      }
+    }
+
+    return deps;
+  }
+
+  /**
+   * Get the initializer of a named property assignment in an object literal
+   * @param objectLiteral Object literal to inspect
+   * @param name Property name
+   * @returns Initializer node or undefined
+   */
+  private getObjectPropertyInitializer(
+    objectLiteral: ObjectLiteralExpression,
+    name: string
+  ): Node | undefined {
+    const property = objectLiteral.getProperty(name);
+    if (!property) {
+      return undefined;
+    }
+
+    if (property.getKind() === SyntaxKind.PropertyAssignment) {
+      return (property as PropertyAssignment).getInitializer();
+    }
+
+    if (property.getKind() === SyntaxKind.ShorthandPropertyAssignment) {
+      return property.asKindOrThrow(SyntaxKind.ShorthandPropertyAssignment).getNameNode();
+    }
+
+    // Method shorthand such as `useFactory() { ... }`
+    return property;
+  }
+
+  /**
+   * Convert a provider token expression to its token string
+   * @param expression Token expression (identifier, property access or string literal)
+   * @returns Token string or null if the expression cannot be used as a token
+   */
+  private extractProviderToken(expression: Node): string | null {
+    switch (expression.getKind()) {
+      case SyntaxKind.Identifier:
+      case SyntaxKind.PropertyAccessExpression:
+        return expression.getText();
+      case SyntaxKind.StringLiteral:
+      case SyntaxKind.NoSubstitutionTemplateLiteral:
+        return expression.getText().slice(1, -1) || null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Collect `new InjectionToken<T>(...)` variable declarations of a source file
+   * inject() calls inside an inline `factory` become dependencies of the token
+   * @param sourceFile Source file to analyze
+   * @returns Parsed token entries with kind 'token'
+   */
+  private parseInjectionTokens(sourceFile: SourceFile): ParsedClass[] {
+    const tokens: ParsedClass[] = [];
+
+    for (const variableStatement of sourceFile.getVariableStatements()) {
+      for (const declaration of variableStatement.getDeclarations()) {
+        const initializer = declaration.getInitializer();
+        if (!initializer || !this.isInjectionTokenExpression(initializer)) {
+          continue;
+        }
+
+        const newExpression = initializer.asKindOrThrow(SyntaxKind.NewExpression);
+        const [descriptionArg, optionsArg] = newExpression.getArguments();
+        const tokenInfo: InjectionTokenInfo = { filePath: sourceFile.getFilePath() };
+        const dependencies: ParsedDependency[] = [];
+
+        if (descriptionArg) {
+          const description = this.extractProviderToken(descriptionArg);
+          if (description) {
+            tokenInfo.description = description;
+          }
+        }
+
+        const typeArgument = newExpression.getTypeArguments()[0];
+        if (typeArgument) {
+          tokenInfo.type = typeArgument.getText();
+        }
+
+        if (optionsArg && optionsArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+          const options = optionsArg as ObjectLiteralExpression;
+
+          const providedIn = this.getObjectPropertyInitializer(options, 'providedIn');
+          if (providedIn) {
+            tokenInfo.providedIn = this.extractProviderToken(providedIn) ?? providedIn.getText();
+          }
+
+          const factory = this.getObjectPropertyInitializer(options, 'factory');
+          if (factory) {
+            tokenInfo.factory = true;
+            for (const call of factory.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+              const injectResult = this.analyzeInjectCall(call);
+              if (injectResult) {
+                dependencies.push({
+                  token: injectResult.token,
+                  flags: injectResult.flags,
+                  parameterName: 'factory',
+                  tokenFilePath: injectResult.tokenFilePath,
+                  source: 'inject',
+                  location: this.getSourceLocation(call),
+                });
+              }
+            }
+          }
+        }
+
+        tokens.push({
+          name: declaration.getName(),
+          kind: 'token',
+          filePath: sourceFile.getFilePath(),
+          dependencies,
+          token: tokenInfo,
+          ...this.describeDeclaration(declaration),
+        });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Check whether an expression is `new InjectionToken(...)` with InjectionToken from @angular/core
+   * @param expression Expression to check
+   * @returns True if the expression creates an Angular InjectionToken
+   */
+  private isInjectionTokenExpression(expression: Node): boolean {
+    if (expression.getKind() !== SyntaxKind.NewExpression) {
+      return false;
+    }
+
+    const constructorExpression = expression
+      .asKindOrThrow(SyntaxKind.NewExpression)
+      .getExpression();
+    if (constructorExpression.getKind() !== SyntaxKind.Identifier) {
+      return false;
+    }
+
+    const name = constructorExpression.getText();
+    return this.resolveDecoratorAlias(expression.getSourceFile(), name) === 'InjectionToken';
+  }
+
+  /**
+   * Follow an identifier used as a DI token to its InjectionToken declaration
+   * Resolves import aliases so `import { API_URL as URL }` still maps to `API_URL`
+   * @param tokenExpression Token expression from @Inject() or inject()
+   * @returns Declared token name, or null if the identifier is not an InjectionToken
+   */
+  private resolveInjectionTokenName(tokenExpression: Node): string | null {
+    if (tokenExpression.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+
+    try {
+      const symbol = tokenExpression.getSymbol();
+      if (!symbol) {
+        return null;
+      }
+
+      const resolvedSymbol = symbol.getAliasedSymbol() ?? symbol;
+      for (const declaration of resolvedSymbol.getDeclarations()) {
+        if (declaration.getKind() !== SyntaxKind.VariableDeclaration) {
+          continue;
+        }
+
+        const variableDeclaration = declaration.asKindOrThrow(SyntaxKind.VariableDeclaration);
+        const initializer = variableDeclaration.getInitializer();
+        if (initializer && this.isInjectionTokenExpression(initializer)) {
+          return variableDeclaration.getName();
+        }
+      }
+    } catch {
+      // Fall back to the identifier text when symbol resolution fails
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse top-level functions that call Angular's inject()
+   * Covers exported function declarations and `const` arrow/function expressions such as
+   * CanActivateFn, ResolveFn, HttpInterceptorFn and provideX() factories
+   * @param sourceFile Source file to analyze
+   * @returns Parsed function entries with kind 'function' (only functions with inject() calls)
+   */
+  private parseInjectFunctions(sourceFile: SourceFile): ParsedClass[] {
+    if (!this.isAngularInjectImported(sourceFile)) {
+      return [];
+    }
+
+    const candidates: Array<{
+      name: string;
+      body: Node;
+      declaration: FunctionDeclaration | VariableDeclaration;
+    }> = [];
+
+    for (const functionDeclaration of sourceFile.getFunctions()) {
+      const name = functionDeclaration.getName();
+      const body = functionDeclaration.getBody();
+      if (name && body && functionDeclaration.isExported()) {
+        candidates.push({ name, body, declaration: functionDeclaration });
+      }
+    }
+
+    for (const variableStatement of sourceFile.getVariableStatements()) {
+      if (variableStatement.getDeclarationKind() !== VariableDeclarationKind.Const) {
+        continue;
+      }
+      for (const declaration of variableStatement.getDeclarations()) {
+        const initializer = declaration.getInitializer();
+        if (
+          initializer &&
+          (initializer.getKind() === SyntaxKind.ArrowFunction ||
+            initializer.getKind() === SyntaxKind.FunctionExpression)
+        ) {
+          candidates.push({ name: declaration.getName(), body: initializer, declaration });
+        }
+      }
+    }
+
+    const functions: ParsedClass[] = [];
+    for (const { name, body, declaration } of candidates) {
+      const dependencies: ParsedDependency[] = [];
+      const seenTokens = new Set<string>();
+
+      for (const call of body.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const injectResult = this.analyzeInjectCall(call);
+        if (!injectResult || seenTokens.has(injectResult.token)) {
+          continue;
+        }
+        seenTokens.add(injectResult.token);
+
+        // Name the dependency after the variable it is assigned to, if any
+        const parent = call.getParent();
+        const parameterName =
+          parent?.getKind() === SyntaxKind.VariableDeclaration
+            ? parent.asKindOrThrow(SyntaxKind.VariableDeclaration).getName()
+            : 'inject';
+
+        dependencies.push({
+          token: injectResult.token,
+          flags: injectResult.flags,
+          parameterName,
+          tokenFilePath: injectResult.tokenFilePath,
+          source: 'inject',
+          location: this.getSourceLocation(call),
+        });
+      }
+
+      if (dependencies.length > 0) {
+        functions.push({
+          name,
+          kind: 'function',
+          filePath: sourceFile.getFilePath(),
+          dependencies,
+          ...this.describeDeclaration(declaration),
+        });
+      }
+    }
+
+    return functions;
+  }
+
   /**
    * Detect and warn about anonymous class expressions
    * Handles patterns like: const X = Decorator()(class { ... })
@@ -1007,6 +1964,9 @@ export class AngularParser {
             token,
             flags,
             parameterName,
+            tokenFilePath: this.resolveTokenFilePath(injectDecorator.getArguments()[0]),
+            source: '@Inject',
+            location: this.getSourceLocation(param),
           };
         }
       }
@@ -1023,6 +1983,9 @@ export class AngularParser {
             token: injectResult.token,
             flags: finalFlags,
             parameterName,
+            tokenFilePath: injectResult.tokenFilePath,
+            source: 'inject',
+            location: this.getSourceLocation(param),
           };
         }
       }
@@ -1041,6 +2004,9 @@ export class AngularParser {
             token,
             flags,
             parameterName,
+            tokenFilePath: this.resolveTokenFilePath(typeNode_check),
+            source: 'constructor',
+            location: this.getSourceLocation(param),
           };
         }
       }
@@ -1058,7 +2024,16 @@ export class AngularParser {
           console.log(`Cache hit for parameter '${parameterName}': ${typeText}`);
         }
 
-        return cachedResult ? { token: cachedResult, flags, parameterName } : null;
+        return cachedResult
+          ? {
+              token: cachedResult,
+              flags,
+              parameterName,
+              tokenFilePath: this.resolveTypeFilePath(type),
+              source: 'constructor',
+              location: this.getSourceLocation(param),
+            }
+          : null;
       }
 
       if (this._options.verbose) {
@@ -1082,6 +2057,9 @@ export class AngularParser {
           token: resolvedToken,
           flags,
           parameterName,
+          tokenFilePath: this.resolveTypeFilePath(type),
+          source: 'constructor',
+          location: this.getSourceLocation(param),
         };
       }
 
@@ -1108,6 +2086,57 @@ export class AngularParser {
     }
   }
 
+  /**
+   * Location of the code that injects a dependency
+   * @param node Constructor parameter, field or inject() call
+   * @returns Absolute file path with 1-based line and column
+   */
+  private getSourceLocation(node: Node): SourceLocation {
+    return {
+      file: node.getSourceFile().getFilePath(),
+      line: node.getStartLineNumber(),
+      column: node.getStart() - node.getStartLinePos() + 1,
+    };
+  }
+
+  /**
+   * Resolve the file declaring a DI token (class, InjectionToken, ...)
+   * Used by buildGraph to link dependencies to the right node when class names collide
+   * @param tokenNode Token expression or type reference
+   * @returns Absolute declaration file path, or undefined if the symbol cannot be resolved
+   */
+  private resolveTokenFilePath(tokenNode: Node | undefined): string | undefined {
+    if (!tokenNode) {
+      return undefined;
+    }
+
+    try {
+      const target =
+        tokenNode.getKind() === SyntaxKind.TypeReference
+          ? tokenNode.asKindOrThrow(SyntaxKind.TypeReference).getTypeName()
+          : tokenNode;
+      const symbol = target.getSymbol();
+      const resolvedSymbol = symbol?.getAliasedSymbol() ?? symbol;
+      return resolvedSymbol?.getDeclarations()[0]?.getSourceFile().getFilePath();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve the file declaring an inferred parameter type
+   * @param type Type object from ts-morph
+   * @returns Absolute declaration file path, or undefined if the type has no declaration
+   */
+  private resolveTypeFilePath(type: Type): string | undefined {
+    try {
+      const symbol = type.getSymbol() ?? type.getAliasSymbol();
+      return symbol?.getDeclarations()[0]?.getSourceFile().getFilePath();
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Extract token from @Inject decorator
    * @param decorator @Inject decorator
@@ -1121,7 +2150,8 @@ export class AngularParser {
     if (args.length === 0) return null;
 
     const firstArg = args[0];
-    return firstArg.getText().replace(/['"]/g, ''); // Remove quotes if string literal
+    // Prefer the declared InjectionToken name, otherwise remove quotes if string literal
+    return this.resolveInjectionTokenName(firstArg) ?? firstArg.getText().replace(/['"]/g, '');
   }
 
   /**
@@ -1236,9 +2266,10 @@ export class AngularParser {
         return null;
       }
 
-      // First argument is the token
+      // First argument is the token (declared InjectionToken name, or text without quotes)
       const tokenArg = args[0];
-      const token = tokenArg.getText().replace(/['"]/g, ''); // Remove quotes if string literal
+      const token =
+        this.resolveInjectionTokenName(tokenArg) ?? tokenArg.getText().replace(/['"]/g, '');
 
       // Skip if token should be filtered out
       if (this.shouldSkipType(token) || this.isPrimitiveType(token)) {
@@ -1257,6 +2288,9 @@ export class AngularParser {
         token,
         flags,
         parameterName: propertyName,
+        tokenFilePath: this.resolveTokenFilePath(tokenArg),
+        source: 'inject-field',
+        location: this.getSourceLocation(property),
       };
     } catch (error) {
       // Graceful error handling
@@ -1533,8 +2567,8 @@ export class AngularParser {
           return null;
         }
       } else if (tokenArg.getKind() === SyntaxKind.Identifier) {
-        // Class token: inject(MyService, ...)
-        token = tokenArg.getText();
+        // Class or InjectionToken: inject(MyService, ...) / inject(API_URL, ...)
+        token = this.resolveInjectionTokenName(tokenArg) ?? tokenArg.getText();
         if (token === 'undefined' || token === 'null') {
           // Explicit undefined or null token
           if (this._options.verbose) {
@@ -1582,6 +2616,7 @@ export class AngularParser {
         token,
         flags,
         source: 'inject',
+        tokenFilePath: this.resolveTokenFilePath(tokenArg),
       };
     } catch (error) {
       // Graceful error handling
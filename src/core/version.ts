@@ -0,0 +1,33 @@
+/**
+ * Version module for ng-di-graph CLI tool
+ * Reads the version from the package manifest, so it cannot drift from package.json
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/**
+ * Version of ng-di-graph, reported by --version and part of the parse cache key
+ */
+export const TOOL_VERSION = readToolVersion();
+
+/**
+ * Find the ng-di-graph package.json above this module (src/core, dist or dist/cli)
+ */
+function readToolVersion(): string {
+  for (let dir = __dirname; ; dir = dirname(dir)) {
+    const manifestPath = join(dir, 'package.json');
+    if (existsSync(manifestPath)) {
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as {
+        name?: string;
+        version?: string;
+      };
+      if (manifest.name === 'ng-di-graph' && manifest.version) {
+        return manifest.version;
+      }
+    }
+    if (dirname(dir) === dir) {
+      return '0.0.0';
+    }
+  }
+}
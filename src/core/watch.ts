@@ -0,0 +1,174 @@
+/**
+ * Watch module for ng-di-graph CLI tool
+ * Keeps the ts-morph project in memory and, on every change, re-parses only the changed files
+ * and their importers before rebuilding the graph
+ */
+
+import { type FSWatcher, watch } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import type {
+  CliOptions,
+  Edge,
+  ParsedClass,
+  ProjectWatcher,
+  WatchHandlers,
+  WatchUpdate,
+} from '../types';
+import { applyGraphFilters } from './analyzer';
+import { buildGraph } from './graph-builder';
+import { diffGraphs } from './graph-diff';
+import type { Logger } from './logger';
+import { AngularParser } from './parser';
+
+/**
+ * Milliseconds to wait for more changes before re-analyzing (editors save in several steps)
+ */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Directories whose changes are ignored
+ */
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  'dist',
+  'tmp',
+  'coverage',
+  '.git',
+  '.angular',
+]);
+
+/**
+ * Parses the project, reports the graph and re-analyzes it whenever a source file below the
+ * tsconfig directory changes
+ * @param cliOptions Resolved CLI options (single project)
+ * @param handlers Receive every graph update and re-analysis errors
+ * @param logger Optional Logger instance for verbose mode
+ * @param debounceMs Milliseconds to wait for more changes before re-analyzing
+ * @returns Watcher to close
+ * @throws CliError if the project cannot be loaded
+ */
+export async function watchProject(
+  cliOptions: CliOptions,
+  handlers: WatchHandlers,
+  logger?: Logger,
+  debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS
+): Promise<ProjectWatcher> {
+  const rootDir = dirname(resolve(cliOptions.project));
+  const parser = new AngularParser(cliOptions, logger);
+  parser.loadProject();
+
+  let parsedClasses = await parser.parseClasses();
+  let graph = applyGraphFilters(buildGraph(parsedClasses, logger, { rootDir }), cliOptions);
+  await handlers.onUpdate({ graph, changedFiles: [], reparsedFiles: 0 });
+
+  const changedFiles = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let queue = Promise.resolve();
+
+  const reanalyze = async (): Promise<void> => {
+    const files = [...changedFiles].sort();
+    changedFiles.clear();
+
+    const reparsed = parser.reparseFiles(files);
+    parsedClasses = patchParsedClasses(parsedClasses, reparsed);
+
+    const previousGraph = graph;
+    graph = applyGraphFilters(buildGraph(parsedClasses, logger, { rootDir }), cliOptions);
+    await handlers.onUpdate({
+      graph,
+      previousGraph,
+      changedFiles: files.map((file) => relative(rootDir, file)),
+      reparsedFiles: reparsed.size,
+      diff: diffGraphs(previousGraph, graph),
+    });
+  };
+
+  const watcher: FSWatcher = watch(rootDir, { recursive: true }, (_event, fileName) => {
+    if (!fileName || !isWatchedFile(fileName)) {
+      return;
+    }
+    changedFiles.add(join(rootDir, fileName));
+
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      // Re-analyses run one at a time; changes made meanwhile are picked up by the next one
+      queue = queue.then(reanalyze).catch(handlers.onError);
+    }, debounceMs);
+  });
+
+  return {
+    rootDir,
+    close: () => {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
+
+/**
+ * Replaces the parsed declarations of re-parsed files
+ * @param parsedClasses Parsed declarations of the whole project
+ * @param reparsed Parsed declarations by re-parsed file path
+ * @returns Declarations of the other files followed by the re-parsed ones
+ */
+export function patchParsedClasses(
+  parsedClasses: ParsedClass[],
+  reparsed: Map<string, ParsedClass[]>
+): ParsedClass[] {
+  return [
+    ...parsedClasses.filter((parsedClass) => !reparsed.has(parsedClass.filePath)),
+    ...[...reparsed.values()].flat(),
+  ];
+}
+
+/**
+ * Formats a one-line summary of a re-analysis followed by the added and removed edges
+ * @param update Graph update after a change
+ * @returns Summary text
+ */
+export function formatWatchSummary(update: WatchUpdate): string {
+  const { diff } = update;
+  const files =
+    update.changedFiles.length === 1
+      ? `${update.changedFiles[0]} changed`
+      : `${update.changedFiles.length} files changed`;
+  const reparsed = `${update.reparsedFiles} ${update.reparsedFiles === 1 ? 'file' : 'files'} re-parsed`;
+  const header = `🔄 ${files} (${reparsed}): `;
+
+  if (!diff || (diff.addedEdges.length === 0 && diff.removedEdges.length === 0)) {
+    return `${header}no edge changes`;
+  }
+
+  const labels = new Map(
+    [...(update.previousGraph?.nodes ?? []), ...update.graph.nodes].map((node) => [
+      node.id,
+      node.label ?? node.id,
+    ])
+  );
+  const formatEdge = (edge: Edge): string =>
+    `${labels.get(edge.from) ?? edge.from} -> ${labels.get(edge.to) ?? edge.to}`;
+
+  return [
+    `${header}+${formatCount(diff.addedEdges.length)}, -${formatCount(diff.removedEdges.length)}`,
+    ...diff.addedEdges.map((edge) => `  + ${formatEdge(edge)}`),
+    ...diff.removedEdges.map((edge) => `  - ${formatEdge(edge)}`),
+  ].join('\n');
+}
+
+/**
+ * TypeScript sources outside ignored directories
+ * @param fileName Path relative to the watched directory
+ */
+function isWatchedFile(fileName: string): boolean {
+  return (
+    /\.tsx?$/.test(fileName) &&
+    !fileName.split(sep).some((segment) => IGNORED_DIRECTORIES.has(segment))
+  );
+}
+
+/**
+ * "1 edge" / "n edges"
+ */
+function formatCount(count: number): string {
+  return count === 1 ? '1 edge' : `${count} edges`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Workspace module for ng-di-graph CLI tool
+ * Discovers the projects of an Angular CLI or Nx workspace and parses them into one class list
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import type {
+  CliOptions,
+  ParseCacheStats,
+  ParsedClass,
+  StructuredWarnings,
+  Workspace,
+  WorkspaceProject,
+} from '../types';
+import { ErrorHandler } from './error-handler';
+import { LogCategory, type Logger } from './logger';
+import { AngularParser } from './parser';
+
+/**
+ * Workspace files looked up in a workspace directory, in order of preference
+ */
+const WORKSPACE_FILE_NAMES = ['angular.json', 'workspace.json', 'nx.json'];
+
+/**
+ * tsconfig files tried in a project root when no build target names one
+ */
+const PROJECT_TSCONFIG_NAMES = ['tsconfig.app.json', 'tsconfig.lib.json', 'tsconfig.json'];
+
+/**
+ * Directories never searched for Nx project.json files
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'tmp', 'coverage']);
+
+/**
+ * Project configuration as found in angular.json, workspace.json or project.json
+ */
+interface ProjectConfig {
+  name?: string;
+  root?: string;
+  projectType?: string;
+  architect?: Record<string, { options?: { tsConfig?: string } }>;
+  targets?: Record<string, { options?: { tsConfig?: string } }>;
+}
+
+/**
+ * Discovers the projects of a workspace and their tsconfig files
+ * angular.json / workspace.json list the projects (inline or as paths to project.json);
+ * with only nx.json, project.json files are searched below the workspace directory
+ * @param workspacePath Workspace file or directory containing one
+ * @returns Workspace root and projects sorted by name
+ * @throws CliError if no workspace file or no project with a tsconfig is found
+ */
+export function discoverWorkspace(workspacePath: string): Workspace {
+  const workspaceFile = findWorkspaceFile(resolve(workspacePath));
+  const root = dirname(workspaceFile);
+
+  const configs =
+    basename(workspaceFile) === 'nx.json'
+      ? findNxProjectConfigs(root)
+      : readWorkspaceProjectConfigs(workspaceFile);
+
+  const projects: WorkspaceProject[] = [];
+  const skippedProjects: string[] = [];
+  for (const [name, config] of configs) {
+    const projectRoot = resolve(root, config.root ?? '');
+    const tsConfig = findProjectTsConfig(root, projectRoot, config);
+    if (!tsConfig) {
+      skippedProjects.push(name);
+      continue;
+    }
+
+    const project: WorkspaceProject = { name, root: projectRoot, tsConfig };
+    if (config.projectType === 'application' || config.projectType === 'library') {
+      project.projectType = config.projectType;
+    }
+    projects.push(project);
+  }
+
+  if (projects.length === 0) {
+    throw ErrorHandler.createError(
+      `No projects with a tsconfig found in workspace: ${workspaceFile}`,
+      'INVALID_ARGUMENTS',
+      workspaceFile
+    );
+  }
+
+  return {
+    root,
+    projects: projects.sort((a, b) => a.name.localeCompare(b.name)),
+    skippedProjects: skippedProjects.sort(),
+  };
+}
+
+/**
+ * Parses every project of a workspace and tags each class with its owning project
+ * A class belongs to the project whose root contains its file, so library classes reached
+ * through an application's imports are attributed to the library and listed once
+ * @param workspace Discovered workspace
+ * @param options CLI options applied to every project (project is replaced per project)
+ * @param logger Optional Logger instance for verbose mode
+ * @returns Parsed classes of all projects, their merged structured warnings and parse cache statistics
+ */
+export async function parseWorkspace(
+  workspace: Workspace,
+  options: CliOptions,
+  logger?: Logger
+): Promise<{
+  parsedClasses: ParsedClass[];
+  warnings: StructuredWarnings;
+  cache?: ParseCacheStats;
+}> {
+  const parsedClasses: ParsedClass[] = [];
+  let cache: ParseCacheStats | undefined;
+  const seen = new Set<string>();
+  const warnings: StructuredWarnings = {
+    categories: {
+      typeResolution: [],
+      skippedTypes: [],
+      unresolvedImports: [],
+      circularReferences: [],
+      performance: [],
+      nameCollisions: [],
+    },
+    totalCount: 0,
+  };
+
+  // Longest roots first, so nested projects win over the projects containing them
+  const projectsByRoot = [...workspace.projects].sort((a, b) => b.root.length - a.root.length);
+  const ownerOf = (filePath: string, fallback: string): string =>
+    projectsByRoot.find((project) => isWithin(resolve(filePath), project.root))?.name ?? fallback;
+
+  for (const project of workspace.projects) {
+    if (options.verbose) {
+      console.log(
+        `📦 Parsing project ${project.name} (${relative(workspace.root, project.tsConfig)})`
+      );
+    }
+    logger?.info(LogCategory.FILE_PROCESSING, `Parsing workspace project ${project.name}`, {
+      tsConfig: project.tsConfig,
+    });
+
+    const parser = new AngularParser({ ...options, project: project.tsConfig }, logger);
+    parser.loadProject();
+
+    for (const parsedClass of await parser.parseClasses()) {
+      const key = `${resolve(parsedClass.filePath)}#${parsedClass.name}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      parsedClasses.push({ ...parsedClass, project: ownerOf(parsedClass.filePath, project.name) });
+    }
+
+    const projectWarnings = parser.getStructuredWarnings();
+    for (const category of Object.keys(warnings.categories) as Array<
+      keyof StructuredWarnings['categories']
+    >) {
+      warnings.categories[category].push(...projectWarnings.categories[category]);
+    }
+    warnings.totalCount += projectWarnings.totalCount;
+
+    const projectCache = parser.getCacheStats();
+    if (projectCache) {
+      cache = {
+        hits: (cache?.hits ?? 0) + projectCache.hits,
+        misses: (cache?.misses ?? 0) + projectCache.misses,
+      };
+    }
+  }
+
+  return { parsedClasses, warnings, cache };
+}
+
+/**
+ * Resolves a workspace path to its workspace file
+ */
+function findWorkspaceFile(path: string): string {
+  if (existsSync(path) && statSync(path).isFile()) {
+    return path;
+  }
+
+  const workspaceFile = WORKSPACE_FILE_NAMES.map((name) => join(path, name)).find((file) =>
+    existsSync(file)
+  );
+  if (!workspaceFile) {
+    throw ErrorHandler.createError(
+      `Workspace not found: no ${WORKSPACE_FILE_NAMES.join(', ')} in ${path}`,
+      'FILE_NOT_FOUND',
+      path
+    );
+  }
+  return workspaceFile;
+}
+
+/**
+ * Reads a JSON workspace or project file
+ */
+function readJsonFile(filePath: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      return data;
+    }
+  } catch (error) {
+    throw ErrorHandler.createError(
+      `Invalid workspace file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ARGUMENTS',
+      filePath
+    );
+  }
+  throw ErrorHandler.createError(
+    `Invalid workspace file ${filePath}: expected an object`,
+    'INVALID_ARGUMENTS',
+    filePath
+  );
+}
+
+/**
+ * Reads the projects of angular.json / workspace.json
+ * Entries are inline configurations or paths to directories containing project.json
+ */
+function readWorkspaceProjectConfigs(workspaceFile: string): Array<[string, ProjectConfig]> {
+  const root = dirname(workspaceFile);
+  const projects = readJsonFile(workspaceFile).projects;
+  if (typeof projects !== 'object' || projects === null) {
+    return [];
+  }
+
+  return Object.entries(projects).map(([name, value]): [string, ProjectConfig] => {
+    if (typeof value === 'string') {
+      const projectFile = join(root, value, 'project.json');
+      const config: ProjectConfig = existsSync(projectFile) ? readJsonFile(projectFile) : {};
+      return [name, { ...config, root: config.root ?? value }];
+    }
+    return [name, (value ?? {}) as ProjectConfig];
+  });
+}
+
+/**
+ * Finds the Nx project.json files below the workspace directory
+ */
+function findNxProjectConfigs(root: string): Array<[string, ProjectConfig]> {
+  const configs: Array<[string, ProjectConfig]> = [];
+
+  const visit = (dir: string): void => {
+    const entries = readdirSync(dir, { withFileTypes: true });
+    if (entries.some((entry) => entry.isFile() && entry.name === 'project.json')) {
+      const config: ProjectConfig = readJsonFile(join(dir, 'project.json'));
+      const projectRoot = relative(root, dir);
+      configs.push([config.name ?? basename(dir), { ...config, root: config.root ?? projectRoot }]);
+    }
+
+    for (const entry of entries) {
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith('.') &&
+        !IGNORED_DIRECTORIES.has(entry.name)
+      ) {
+        visit(join(dir, entry.name));
+      }
+    }
+  };
+  visit(root);
+
+  return configs;
+}
+
+/**
+ * Finds the tsconfig of a project: the build target's tsConfig option, else a conventional
+ * file in the project root
+ */
+function findProjectTsConfig(
+  root: string,
+  projectRoot: string,
+  config: ProjectConfig
+): string | undefined {
+  const buildTsConfig = (config.architect ?? config.targets)?.build?.options?.tsConfig;
+  if (buildTsConfig && existsSync(resolve(root, buildTsConfig))) {
+    return resolve(root, buildTsConfig);
+  }
+
+  return PROJECT_TSCONFIG_NAMES.map((name) => join(projectRoot, name)).find((file) =>
+    existsSync(file)
+  );
+}
+
+/**
+ * Checks whether a file lies inside a directory
+ */
+function isWithin(filePath: string, dir: string): boolean {
+  return filePath === dir || filePath.startsWith(dir.endsWith(sep) ? dir : `${dir}${sep}`);
+}
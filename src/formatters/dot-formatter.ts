@@ -0,0 +1,231 @@
+import { toCyclePath } from '../core/cycle-analysis';
+import { LogCategory, type Logger } from '../core/logger';
+import type { Edge, EdgeFlags, Formatter, Graph, Node, NodeKind } from '../types';
+
+/**
+ * Options for DOT output
+ */
+export interface DotFormatterOptions {
+  includeDecorators?: boolean; // Label edges with their EdgeFlags
+  showMetadata?: boolean; // Show selector, standalone flag, export name and location under the node label
+}
+
+/**
+ * Graphviz node attributes per node kind
+ */
+const NODE_STYLES: Record<NodeKind, { shape: string; fillcolor: string }> = {
+  service: { shape: 'box', fillcolor: '#cfe2ff' },
+  component: { shape: 'component', fillcolor: '#d1e7dd' },
+  directive: { shape: 'hexagon', fillcolor: '#fff3cd' },
+  pipe: { shape: 'cds', fillcolor: '#e2d9f3' },
+  module: { shape: 'folder', fillcolor: '#f8d7da' },
+  function: { shape: 'ellipse', fillcolor: '#d2f4ea' },
+  token: { shape: 'note', fillcolor: '#fde2c8' },
+  unknown: { shape: 'box', fillcolor: '#e9ecef' },
+};
+
+/**
+ * Order of flag names in edge labels
+ */
+const FLAG_ORDER: Array<keyof EdgeFlags> = ['optional', 'self', 'skipSelf', 'host'];
+
+/**
+ * Graphviz DOT formatter for dependency graph output
+ * Produces a digraph that renders with dot, sfdp and other Graphviz layouts
+ */
+export class DotFormatter implements Formatter {
+  /**
+   * Logger instance for verbose output (optional)
+   * @private
+   */
+  private readonly _logger?: Logger;
+
+  /**
+   * Formatting options
+   * @private
+   */
+  private readonly _options: DotFormatterOptions;
+
+  /**
+   * Create a new DOT formatter
+   * @param logger Optional Logger instance for verbose mode
+   * @param options Optional formatting options
+   */
+  constructor(logger?: Logger, options: DotFormatterOptions = {}) {
+    this._logger = logger;
+    this._options = options;
+  }
+
+  /**
+   * Format a dependency graph as a Graphviz digraph
+   * @param graph The dependency graph to format
+   * @returns DOT source string
+   */
+  format(graph: Graph): string {
+    this._logger?.time('dot-format');
+    this._logger?.info(LogCategory.PERFORMANCE, 'Generating DOT output', {
+      nodeCount: graph.nodes.length,
+      edgeCount: graph.edges.length,
+    });
+
+    const lines = [
+      'digraph DependencyGraph {',
+      '  rankdir=LR;',
+      '  node [style=filled, fontname="Helvetica"];',
+      '  edge [fontname="Helvetica", fontsize=10];',
+    ];
+
+    if (graph.nodes.length === 0) {
+      lines.push('  // Empty graph - no nodes to display');
+    }
+
+    // Nodes of workspace projects are grouped into one cluster per project
+    const clusters = new Map<string, Node[]>();
+    for (const node of graph.nodes) {
+      if (node.project) {
+        const projectNodes = clusters.get(node.project) ?? [];
+        projectNodes.push(node);
+        clusters.set(node.project, projectNodes);
+      } else {
+        lines.push(`  ${this.formatNode(node)}`);
+      }
+    }
+
+    for (const [project, nodes] of [...clusters.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`  subgraph ${this.quote(`cluster_${project}`)} {`);
+      lines.push(`    label=${this.quote(project)};`);
+      for (const node of nodes) {
+        lines.push(`    ${this.formatNode(node)}`);
+      }
+      lines.push('  }');
+    }
+
+    if (graph.edges.length > 0) {
+      lines.push('');
+    }
+
+    for (const edge of graph.edges) {
+      lines.push(`  ${this.formatEdge(edge)}`);
+    }
+
+    // Add circular dependency comments if any
+    if (graph.circularDependencies.length > 0) {
+      lines.push('');
+      lines.push('  // Circular Dependencies Detected:');
+      for (const cycle of graph.circularDependencies) {
+        lines.push(`  // ${toCyclePath(cycle).join(' -> ')}`);
+      }
+    }
+
+    lines.push('}');
+    const result = lines.join('\n');
+
+    const elapsed = this._logger?.timeEnd('dot-format') ?? 0;
+    this._logger?.info(LogCategory.PERFORMANCE, 'DOT output complete', {
+      outputSize: result.length,
+      elapsed,
+    });
+
+    return result;
+  }
+
+  /**
+   * Format a node statement with shape and colour for its kind
+   * @param node Graph node
+   * @returns DOT node statement
+   */
+  private formatNode(node: Node): string {
+    const style = NODE_STYLES[node.kind] ?? NODE_STYLES.unknown;
+    const lines = [
+      node.label ?? node.id,
+      ...(this._options.showMetadata ? this.formatMetadata(node) : []),
+    ];
+    const attributes = [
+      `label=${this.quoteLines(lines)}`,
+      `shape=${style.shape}`,
+      `fillcolor=${this.quote(style.fillcolor)}`,
+    ];
+    if (node.kind === 'unknown') {
+      attributes.push('style="filled,dashed"');
+    }
+    if (node.truncated) {
+      // Double border: more dependencies or dependents lie beyond --depth
+      attributes.push('peripheries=2');
+    }
+
+    return `${this.quote(node.id)} [${attributes.join(', ')}];`;
+  }
+
+  /**
+   * Format an edge statement
+   * Circular edges are dashed and red; provided-by edges are dotted
+   * @param edge Graph edge
+   * @returns DOT edge statement
+   */
+  private formatEdge(edge: Edge): string {
+    const attributes: string[] = [];
+    const labels: string[] = [];
+
+    if (edge.kind === 'provided-by') {
+      attributes.push('style=dotted');
+      labels.push('provided-by');
+    }
+
+    if (edge.isCircular) {
+      attributes.push('style=dashed', 'color="#d62728"');
+      labels.push('circular');
+    }
+
+    if (this._options.includeDecorators && edge.flags) {
+      const flags = edge.flags;
+      labels.push(...FLAG_ORDER.filter((flag) => flags[flag]));
+    }
+
+    if (labels.length > 0) {
+      attributes.push(`label=${this.quote(labels.join(', '))}`);
+    }
+
+    const statement = `${this.quote(edge.from)} -> ${this.quote(edge.to)}`;
+    return attributes.length > 0 ? `${statement} [${attributes.join(', ')}];` : `${statement};`;
+  }
+
+  /**
+   * Metadata lines shown under a node label
+   * @param node Graph node
+   * @returns Selector, standalone flag, export name (when it differs from the label) and location
+   */
+  private formatMetadata(node: Node): string[] {
+    const lines: string[] = [];
+    if (node.selector) {
+      lines.push(`selector: ${node.selector}`);
+    }
+    if (node.standalone !== undefined) {
+      lines.push(`standalone: ${node.standalone}`);
+    }
+    if (node.exportName && node.exportName !== (node.label ?? node.id)) {
+      lines.push(`export: ${node.exportName}`);
+    }
+    if (node.location) {
+      lines.push(`${node.location.file}:${node.location.line}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Quote a multi-line label, joining the lines with the DOT line break escape
+   * @param lines Raw label lines
+   * @returns Double-quoted label
+   */
+  private quoteLines(lines: string[]): string {
+    return `"${lines.map((line) => this.quote(line).slice(1, -1)).join('\\n')}"`;
+  }
+
+  /**
+   * Quote a DOT identifier or attribute value
+   * @param value Raw value
+   * @returns Double-quoted value with quotes and backslashes escaped
+   */
+  private quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
@@ -0,0 +1,226 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ErrorHandler } from '../core/error-handler';
+import type { Logger } from '../core/logger';
+import type { CliOptions, Formatter, FormatterFactory } from '../types';
+import { DotFormatter } from './dot-formatter';
+import { HtmlFormatter } from './html-formatter';
+import { JsonFormatter } from './json-formatter';
+import { MermaidFormatter } from './mermaid-formatter';
+
+/**
+ * Package export conditions matched when resolving formatter packages, as for import()
+ */
+const IMPORT_CONDITIONS = ['import', 'node', 'default'];
+
+/**
+ * Formatter factories by format name
+ */
+const registry = new Map<string, FormatterFactory>();
+
+/**
+ * Register a formatter under a format name, replacing any formatter of that name
+ * @param name Format name accepted by --format and the config file
+ * @param factory Creates the formatter from the resolved CLI options
+ */
+export function registerFormatter(name: string, factory: FormatterFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Names of the registered formats, built-in ones first
+ */
+export function getFormatNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Create the formatter for a format
+ * Unregistered formats are loaded as a module: paths starting with `.` or absolute paths
+ * are resolved against `baseDir`, anything else is looked up as an npm package
+ * @param format Format name, formatter module path or package name
+ * @param options Resolved CLI options (formatter settings)
+ * @param logger Optional Logger instance for verbose mode
+ * @param baseDir Directory relative module paths and packages are resolved from
+ * @returns Formatter instance
+ * @throws CliError if the format is unknown or its module is not a formatter
+ */
+export async function createFormatter(
+  format: string,
+  options: CliOptions,
+  logger?: Logger,
+  baseDir: string = process.cwd()
+): Promise<Formatter> {
+  const factory = registry.get(format) ?? (await loadFormatterModule(format, baseDir));
+  const formatter = factory(options, logger);
+  if (typeof formatter?.format !== 'function') {
+    throw ErrorHandler.createError(
+      `Formatter for format ${format} has no format(graph) method`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+  return formatter;
+}
+
+/**
+ * Load a formatter module (CommonJS or ES module)
+ * The module's default export (or module.exports) is a formatter factory, a formatter class
+ * constructed with the same arguments, or an object with a format(graph) method
+ */
+async function loadFormatterModule(specifier: string, baseDir: string): Promise<FormatterFactory> {
+  const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+  const requireFromBase = createRequire(join(resolve(baseDir), 'noop.js'));
+
+  let resolvedPath: string;
+  try {
+    resolvedPath = isPath
+      ? requireFromBase.resolve(resolve(baseDir, specifier))
+      : (resolvePackageImport(specifier, requireFromBase) ?? requireFromBase.resolve(specifier));
+  } catch {
+    throw ErrorHandler.createError(
+      `Unknown format: ${specifier}. Must be one of ${getFormatNames().join(', ')}, a formatter module path or an installed formatter package`,
+      'INVALID_ARGUMENTS'
+    );
+  }
+
+  let exported: unknown;
+  try {
+    exported = await import(pathToFileURL(resolvedPath).href);
+  } catch (error) {
+    throw ErrorHandler.createError(
+      `Cannot load formatter module ${specifier}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ARGUMENTS',
+      resolvedPath
+    );
+  }
+
+  // CommonJS modules are imported with module.exports as default export, which holds
+  // the default export of transpiled ES modules
+  let candidate = getDefaultExport(exported);
+  if (
+    typeof candidate === 'object' &&
+    typeof (candidate as Formatter | null)?.format !== 'function'
+  ) {
+    candidate = getDefaultExport(candidate);
+  }
+
+  if (typeof candidate === 'function') {
+    if (/^class\s/.test(Function.prototype.toString.call(candidate))) {
+      const FormatterClass = candidate as new (...args: Parameters<FormatterFactory>) => Formatter;
+      return (options, logger) => new FormatterClass(options, logger);
+    }
+    return candidate as FormatterFactory;
+  }
+  if (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof (candidate as Formatter).format === 'function'
+  ) {
+    return () => candidate as Formatter;
+  }
+  throw ErrorHandler.createError(
+    `Formatter module ${specifier} must export a formatter factory, a formatter class or an object with a format(graph) method`,
+    'INVALID_ARGUMENTS',
+    resolvedPath
+  );
+}
+
+/**
+ * Resolve a package specifier through the `exports` of its package.json with the conditions
+ * of `import()`, so that ES-module-only packages without a `require` condition are found
+ * @param specifier Package name, optionally followed by a subpath
+ * @param requireFromBase Require function whose lookup paths are searched for the package
+ * @returns Absolute file path, or undefined if the package has no matching export
+ */
+function resolvePackageImport(
+  specifier: string,
+  requireFromBase: NodeJS.Require
+): string | undefined {
+  const match = /^((?:@[^/]+\/)?[^/]+)(\/.*)?$/.exec(specifier);
+  if (!match) {
+    return undefined;
+  }
+  const [, packageName, subpath = ''] = match;
+
+  for (const lookupDir of requireFromBase.resolve.paths(specifier) ?? []) {
+    const packageDir = join(lookupDir, packageName);
+    const packageJsonPath = join(packageDir, 'package.json');
+    if (!existsSync(packageJsonPath)) {
+      continue;
+    }
+    const { exports } = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as { exports?: unknown };
+    const target = selectImportTarget(exports, `.${subpath}`);
+    return target ? resolve(packageDir, target) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Select the target of a package `exports` field for a subpath (`.` for the package root)
+ * Condition objects are matched in key order against import, node and default
+ */
+function selectImportTarget(exports: unknown, subpath: string): string | undefined {
+  const isSubpathMap =
+    typeof exports === 'object' &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+  const entry = isSubpathMap
+    ? (exports as Record<string, unknown>)[subpath]
+    : subpath === '.'
+      ? exports
+      : undefined;
+  return selectConditionTarget(entry);
+}
+
+function selectConditionTarget(entry: unknown): string | undefined {
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  if (Array.isArray(entry)) {
+    return entry.map(selectConditionTarget).find((target) => target !== undefined);
+  }
+  if (typeof entry === 'object' && entry !== null) {
+    for (const [condition, target] of Object.entries(entry)) {
+      if (IMPORT_CONDITIONS.includes(condition)) {
+        const selected = selectConditionTarget(target);
+        if (selected !== undefined) {
+          return selected;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The default export of a module namespace, or the value itself when it has none
+ */
+function getDefaultExport(exported: unknown): unknown {
+  return typeof exported === 'object' && exported !== null && 'default' in exported
+    ? (exported as { default: unknown }).default
+    : exported;
+}
+
+registerFormatter('json', (_options, logger) => new JsonFormatter(logger));
+registerFormatter(
+  'mermaid',
+  (options, logger) =>
+    new MermaidFormatter(logger, {
+      disambiguate: options.disambiguate,
+      showScope: options.showScope,
+      showProvenance: options.showProvenance,
+      showMetadata: options.showMetadata,
+    })
+);
+registerFormatter(
+  'dot',
+  (options, logger) =>
+    new DotFormatter(logger, {
+      includeDecorators: options.includeDecorators,
+      showMetadata: options.showMetadata,
+    })
+);
+registerFormatter('html', (_options, logger) => new HtmlFormatter(logger));
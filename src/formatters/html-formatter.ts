@@ -0,0 +1,254 @@
+import { toCyclePath } from '../core/cycle-analysis';
+import { LogCategory, type Logger } from '../core/logger';
+import type { Formatter, Graph } from '../types';
+import { VIEWER_SCRIPT, VIEWER_STYLES } from './html-viewer';
+
+/**
+ * Position of a node in the viewer layout
+ */
+interface NodePosition {
+  x: number;
+  y: number;
+  width: number;
+}
+
+/**
+ * Layered left-to-right layout embedded in the HTML output
+ */
+interface ViewerLayout {
+  nodeHeight: number;
+  width: number;
+  height: number;
+  nodes: Record<string, NodePosition>;
+}
+
+const NODE_HEIGHT = 32;
+const ROW_GAP = 16;
+const COLUMN_GAP = 80;
+const MIN_NODE_WIDTH = 100;
+const CHAR_WIDTH = 7;
+const NODE_PADDING = 10;
+
+/**
+ * HTML formatter for dependency graph output
+ * Produces a single offline HTML file embedding the graph data and an interactive viewer
+ */
+export class HtmlFormatter implements Formatter {
+  /**
+   * Logger instance for verbose output (optional)
+   * @private
+   */
+  private readonly _logger?: Logger;
+
+  /**
+   * Create a new HTML formatter
+   * @param logger Optional Logger instance for verbose mode
+   */
+  constructor(logger?: Logger) {
+    this._logger = logger;
+  }
+
+  /**
+   * Format a dependency graph as a self-contained HTML page
+   * @param graph The dependency graph to format
+   * @returns HTML document string
+   */
+  format(graph: Graph): string {
+    this._logger?.time('html-format');
+    this._logger?.info(LogCategory.PERFORMANCE, 'Generating HTML output', {
+      nodeCount: graph.nodes.length,
+      edgeCount: graph.edges.length,
+    });
+
+    const payload = this.serializeForScript({
+      graph,
+      layout: this.computeLayout(graph),
+      cyclePaths: graph.circularDependencies.map(toCyclePath),
+    });
+
+    const result = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      '<title>ng-di-graph</title>',
+      `<style>${VIEWER_STYLES}</style>`,
+      '</head>',
+      '<body>',
+      '<aside id="sidebar">',
+      '<h1>ng-di-graph</h1>',
+      '<p id="summary"></p>',
+      '<h2>Search</h2>',
+      '<input id="search" type="search" placeholder="Node id or name (Enter to focus)">',
+      '<h2>Highlight</h2>',
+      '<select id="direction">',
+      '<option value="both">upstream + downstream</option>',
+      '<option value="downstream">downstream</option>',
+      '<option value="upstream">upstream</option>',
+      '</select>',
+      '<h2>Kinds</h2>',
+      '<div id="kinds"></div>',
+      '<h2>Cycles</h2>',
+      '<ol id="cycles"></ol>',
+      '<h2>Selection</h2>',
+      '<div id="details"></div>',
+      '</aside>',
+      '<main>',
+      '<svg id="canvas" xmlns="http://www.w3.org/2000/svg">',
+      '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#868e96"/></marker></defs>',
+      '<g id="viewport"><g id="edges"></g><g id="nodes"></g></g>',
+      '</svg>',
+      '<div id="toolbar"><button id="fit" type="button">Fit</button><button id="clear" type="button">Clear</button></div>',
+      '</main>',
+      `<script type="application/json" id="graph-data">${payload}</script>`,
+      `<script>${VIEWER_SCRIPT}</script>`,
+      '</body>',
+      '</html>',
+    ].join('\n');
+
+    const elapsed = this._logger?.timeEnd('html-format') ?? 0;
+    this._logger?.info(LogCategory.PERFORMANCE, 'HTML output complete', {
+      outputSize: result.length,
+      elapsed,
+    });
+
+    return result;
+  }
+
+  /**
+   * Compute a layered left-to-right layout
+   * Nodes are ranked by longest path from the sources (circular and provided-by edges ignored),
+   * then ordered within each column by the average row of their predecessors
+   * @param graph The dependency graph
+   * @returns Node positions and overall size
+   */
+  private computeLayout(graph: Graph): ViewerLayout {
+    const ids = graph.nodes.map((node) => node.id);
+    const successors = new Map<string, string[]>(ids.map((id) => [id, []]));
+    const predecessors = new Map<string, string[]>(ids.map((id) => [id, []]));
+    const inDegree = new Map<string, number>(ids.map((id) => [id, 0]));
+
+    for (const edge of graph.edges) {
+      if (
+        edge.isCircular ||
+        edge.kind === 'provided-by' ||
+        edge.from === edge.to ||
+        !successors.has(edge.from) ||
+        !successors.has(edge.to)
+      ) {
+        continue;
+      }
+      successors.get(edge.from)?.push(edge.to);
+      predecessors.get(edge.to)?.push(edge.from);
+      inDegree.set(edge.to, (inDegree.get(edge.to) ?? 0) + 1);
+    }
+
+    // Longest-path ranking; remaining cycles are broken at the node with the fewest inputs
+    const ranks = new Map<string, number>(ids.map((id) => [id, 0]));
+    const remaining = new Set(ids);
+    const queue = ids.filter((id) => inDegree.get(id) === 0);
+    let head = 0;
+
+    while (remaining.size > 0) {
+      if (head >= queue.length) {
+        let next = '';
+        for (const id of remaining) {
+          if (!next || (inDegree.get(id) ?? 0) < (inDegree.get(next) ?? 0)) {
+            next = id;
+          }
+        }
+        queue.push(next);
+      }
+
+      const id = queue[head++];
+      if (!remaining.delete(id)) {
+        continue;
+      }
+
+      for (const successor of successors.get(id) ?? []) {
+        ranks.set(successor, Math.max(ranks.get(successor) ?? 0, (ranks.get(id) ?? 0) + 1));
+        const degree = (inDegree.get(successor) ?? 0) - 1;
+        inDegree.set(successor, degree);
+        if (degree === 0 && remaining.has(successor)) {
+          queue.push(successor);
+        }
+      }
+    }
+
+    const columns: string[][] = [];
+    for (const id of ids) {
+      const rank = ranks.get(id) ?? 0;
+      columns[rank] = columns[rank] ?? [];
+      columns[rank].push(id);
+    }
+
+    const labels = new Map(graph.nodes.map((node) => [node.id, node.label ?? node.id]));
+    const rows = new Map<string, number>();
+    const widths = new Map<string, number>(
+      ids.map((id) => [
+        id,
+        Math.max(MIN_NODE_WIDTH, (labels.get(id) ?? id).length * CHAR_WIDTH + NODE_PADDING * 2),
+      ])
+    );
+
+    const orderedColumns = columns
+      .filter((column) => column !== undefined)
+      .map((column) => {
+        const barycenter = (id: string): number => {
+          const placed = (predecessors.get(id) ?? []).filter((pred) => rows.has(pred));
+          if (placed.length === 0) {
+            return Number.POSITIVE_INFINITY;
+          }
+          return placed.reduce((sum, pred) => sum + (rows.get(pred) ?? 0), 0) / placed.length;
+        };
+        const keys = new Map(column.map((id) => [id, barycenter(id)]));
+        const ordered = [...column].sort(
+          (a, b) =>
+            (keys.get(a) ?? 0) - (keys.get(b) ?? 0) ||
+            (labels.get(a) ?? a).localeCompare(labels.get(b) ?? b)
+        );
+        ordered.forEach((id, index) => {
+          rows.set(id, index);
+        });
+        return ordered;
+      });
+
+    const rowPitch = NODE_HEIGHT + ROW_GAP;
+    const maxRows = orderedColumns.reduce((max, column) => Math.max(max, column.length), 0);
+    const nodes: Record<string, NodePosition> = {};
+    let x = 0;
+
+    for (const column of orderedColumns) {
+      const offset = ((maxRows - column.length) * rowPitch) / 2;
+      let columnWidth = 0;
+      column.forEach((id, index) => {
+        const width = widths.get(id) ?? MIN_NODE_WIDTH;
+        nodes[id] = { x, y: offset + index * rowPitch, width };
+        columnWidth = Math.max(columnWidth, width);
+      });
+      x += columnWidth + COLUMN_GAP;
+    }
+
+    return {
+      nodeHeight: NODE_HEIGHT,
+      width: Math.max(0, x - COLUMN_GAP),
+      height: Math.max(0, maxRows * rowPitch - ROW_GAP),
+      nodes,
+    };
+  }
+
+  /**
+   * Serialize data as JSON that is safe inside a <script> element
+   * @param data Data to embed
+   * @returns JSON with '<', '>', '&' and line separators escaped
+   */
+  private serializeForScript(data: unknown): string {
+    return JSON.stringify(data)
+      .replace(/</g, '\\u003c')
+      .replace(/>/g, '\\u003e')
+      .replace(/&/g, '\\u0026')
+      .replace(/\u2028/g, '\\u2028')
+      .replace(/\u2029/g, '\\u2029');
+  }
+}
@@ -0,0 +1,463 @@
+/**
+ * Static assets of the self-contained HTML viewer
+ * Kept as strings so the viewer is bundled with the CLI and works offline (no CDN)
+ */
+
+/**
+ * Viewer stylesheet (node colours match the DOT formatter)
+ */
+export const VIEWER_STYLES = `
+* { box-sizing: border-box; }
+html, body { height: 100%; margin: 0; }
+body { display: flex; font-family: Helvetica, Arial, sans-serif; font-size: 13px; color: #212529; }
+#sidebar { width: 280px; padding: 12px; overflow-y: auto; border-right: 1px solid #dee2e6; background: #f8f9fa; }
+#sidebar h1 { font-size: 16px; margin: 0 0 4px; }
+#sidebar h2 { font-size: 13px; margin: 16px 0 6px; text-transform: uppercase; color: #6c757d; }
+#sidebar input[type="search"], #sidebar select { width: 100%; padding: 4px 6px; margin-top: 4px; }
+#sidebar label { display: block; margin: 2px 0; }
+#summary { margin: 0; color: #6c757d; }
+#cycles { padding-left: 18px; margin: 0; }
+#cycles li { cursor: pointer; margin: 2px 0; word-break: break-all; }
+#cycles li.active { font-weight: bold; color: #d62728; }
+#details dt { font-weight: bold; margin-top: 4px; }
+#details dd { margin: 0; word-break: break-all; }
+main { position: relative; flex: 1; overflow: hidden; background: #fff; }
+#canvas { width: 100%; height: 100%; cursor: grab; user-select: none; }
+#canvas.panning { cursor: grabbing; }
+#toolbar { position: absolute; top: 8px; right: 8px; display: flex; gap: 4px; }
+.node { cursor: pointer; }
+.node rect { stroke: #495057; stroke-width: 1; }
+.node text { font-size: 12px; pointer-events: none; }
+.node.kind-service rect { fill: #cfe2ff; }
+.node.kind-component rect { fill: #d1e7dd; }
+.node.kind-directive rect { fill: #fff3cd; }
+.node.kind-pipe rect { fill: #e2d9f3; }
+.node.kind-module rect { fill: #f8d7da; }
+.node.kind-function rect { fill: #d2f4ea; }
+.node.kind-token rect { fill: #fde2c8; }
+.node.kind-unknown rect { fill: #e9ecef; stroke-dasharray: 4 2; }
+.node.truncated rect { stroke-width: 2; stroke-dasharray: 8 3; }
+.node.match rect { stroke: #0d6efd; stroke-width: 3; }
+.node.selected rect { stroke: #212529; stroke-width: 3; }
+.node.highlight rect { stroke-width: 2; }
+.edge { fill: none; stroke: #868e96; stroke-width: 1.2; }
+.edge.provided-by { stroke-dasharray: 2 3; }
+.edge.circular { stroke: #d62728; stroke-dasharray: 6 3; }
+.edge.highlight { stroke: #212529; stroke-width: 2; }
+.edge.circular.highlight { stroke: #d62728; }
+.dimmed { opacity: 0.15; }
+.hidden { display: none; }
+`;
+
+/**
+ * Viewer script: pan/zoom, search, upstream/downstream highlighting, kind toggles and cycles
+ * Reads the graph and layout from the #graph-data JSON script element
+ */
+export const VIEWER_SCRIPT = String.raw`
+(function () {
+  'use strict';
+
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+  var data = JSON.parse(document.getElementById('graph-data').textContent);
+  var graph = data.graph;
+  var layout = data.layout;
+  var cyclePaths = data.cyclePaths;
+
+  var svg = document.getElementById('canvas');
+  var viewport = document.getElementById('viewport');
+  var edgeLayer = document.getElementById('edges');
+  var nodeLayer = document.getElementById('nodes');
+  var searchInput = document.getElementById('search');
+  var directionSelect = document.getElementById('direction');
+  var kindsContainer = document.getElementById('kinds');
+  var cyclesList = document.getElementById('cycles');
+  var details = document.getElementById('details');
+
+  var state = {
+    scale: 1,
+    x: 0,
+    y: 0,
+    query: '',
+    selected: null,
+    cycle: null,
+    direction: 'both',
+    hiddenKinds: {}
+  };
+
+  var nodesById = {};
+  var nodeElements = {};
+  var edgeElements = [];
+  var adjacency = { downstream: {}, upstream: {} };
+
+  graph.nodes.forEach(function (node) {
+    nodesById[node.id] = node;
+    adjacency.downstream[node.id] = [];
+    adjacency.upstream[node.id] = [];
+  });
+  graph.edges.forEach(function (edge) {
+    if (adjacency.downstream[edge.from] && adjacency.upstream[edge.to]) {
+      adjacency.downstream[edge.from].push(edge.to);
+      adjacency.upstream[edge.to].push(edge.from);
+    }
+  });
+
+  function create(name, attributes, parent) {
+    var element = document.createElementNS(SVG_NS, name);
+    Object.keys(attributes).forEach(function (key) {
+      element.setAttribute(key, attributes[key]);
+    });
+    if (parent) {
+      parent.appendChild(element);
+    }
+    return element;
+  }
+
+  function labelOf(id) {
+    var node = nodesById[id];
+    return node && node.label ? node.label : id;
+  }
+
+  // Same semantics as filterGraph: follow edges from the node in the given direction
+  function traverse(start, direction) {
+    var visited = {};
+    var stack = [start];
+    while (stack.length > 0) {
+      var current = stack.pop();
+      if (visited[current]) {
+        continue;
+      }
+      visited[current] = true;
+      (adjacency[direction][current] || []).forEach(function (next) {
+        if (!visited[next]) {
+          stack.push(next);
+        }
+      });
+    }
+    return visited;
+  }
+
+  function reachableFrom(id) {
+    if (state.direction !== 'both') {
+      return traverse(id, state.direction);
+    }
+    var result = traverse(id, 'downstream');
+    var upstream = traverse(id, 'upstream');
+    Object.keys(upstream).forEach(function (key) {
+      result[key] = true;
+    });
+    return result;
+  }
+
+  // Cycle paths are closed: the first node is repeated at the end
+  function cycleEdgeKeys(path) {
+    var keys = {};
+    for (var i = 0; i < path.length - 1; i++) {
+      keys[path[i] + '\u0000' + path[i + 1]] = true;
+    }
+    return keys;
+  }
+
+  // Parameter name, injection source and location of an edge, one per tooltip line
+  function edgeProvenance(edge) {
+    var lines = [];
+    if (edge.parameterName) {
+      lines.push(edge.parameterName + (edge.source ? ' (' + edge.source + ')' : ''));
+    }
+    if (edge.location) {
+      lines.push(edge.location.file + ':' + edge.location.line + ':' + edge.location.column);
+    }
+    return lines.length > 0 ? '\n' + lines.join('\n') : '';
+  }
+
+  function drawEdges() {
+    var half = layout.nodeHeight / 2;
+    graph.edges.forEach(function (edge) {
+      var from = layout.nodes[edge.from];
+      var to = layout.nodes[edge.to];
+      if (!from || !to) {
+        return;
+      }
+      var x1 = from.x + from.width;
+      var y1 = from.y + half;
+      var x2 = to.x;
+      var y2 = to.y + half;
+      var bend = Math.max(40, Math.abs(x2 - x1) / 2);
+      var path = create(
+        'path',
+        {
+          d: 'M' + x1 + ',' + y1 + ' C' + (x1 + bend) + ',' + y1 + ' ' + (x2 - bend) + ',' + y2 + ' ' + x2 + ',' + y2,
+          class: 'edge' + (edge.isCircular ? ' circular' : '') + (edge.kind === 'provided-by' ? ' provided-by' : ''),
+          'marker-end': 'url(#arrow)'
+        },
+        edgeLayer
+      );
+      var title = create('title', {}, path);
+      title.textContent = labelOf(edge.from) + ' -> ' + labelOf(edge.to) + (edge.kind ? ' (' + edge.kind + ')' : '') + edgeProvenance(edge);
+      edgeElements.push({ edge: edge, element: path });
+    });
+  }
+
+  function drawNodes() {
+    graph.nodes.forEach(function (node) {
+      var position = layout.nodes[node.id];
+      var group = create(
+        'g',
+        { class: 'node kind-' + node.kind + (node.truncated ? ' truncated' : ''), transform: 'translate(' + position.x + ',' + position.y + ')' },
+        nodeLayer
+      );
+      create('rect', { width: position.width, height: layout.nodeHeight, rx: 6, ry: 6 }, group);
+      var text = create('text', { x: 10, y: layout.nodeHeight / 2 + 4 }, group);
+      text.textContent = node.label || node.id;
+      var title = create('title', {}, group);
+      title.textContent = node.id + ' (' + node.kind + ')' + (node.location ? '\n' + node.location.file + ':' + node.location.line : '');
+      group.addEventListener('click', function (event) {
+        event.stopPropagation();
+        state.selected = state.selected === node.id ? null : node.id;
+        state.cycle = null;
+        render();
+      });
+      nodeElements[node.id] = group;
+    });
+  }
+
+  function buildKindToggles() {
+    var counts = {};
+    graph.nodes.forEach(function (node) {
+      counts[node.kind] = (counts[node.kind] || 0) + 1;
+    });
+    Object.keys(counts).sort().forEach(function (kind) {
+      var label = document.createElement('label');
+      var checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.addEventListener('change', function () {
+        state.hiddenKinds[kind] = !checkbox.checked;
+        render();
+      });
+      label.appendChild(checkbox);
+      label.appendChild(document.createTextNode(' ' + kind + ' (' + counts[kind] + ')'));
+      kindsContainer.appendChild(label);
+    });
+  }
+
+  function buildCycleList() {
+    if (cyclePaths.length === 0) {
+      var empty = document.createElement('li');
+      empty.textContent = 'None';
+      cyclesList.appendChild(empty);
+      return;
+    }
+    cyclePaths.forEach(function (path, index) {
+      var item = document.createElement('li');
+      item.textContent = path.map(labelOf).join(' -> ');
+      item.addEventListener('click', function () {
+        state.cycle = state.cycle === index ? null : index;
+        state.selected = null;
+        render();
+      });
+      cyclesList.appendChild(item);
+    });
+  }
+
+  function renderDetails() {
+    details.textContent = '';
+    var node = state.selected ? nodesById[state.selected] : null;
+    if (!node) {
+      details.textContent = 'Click a node to highlight its dependencies.';
+      return;
+    }
+    var list = document.createElement('dl');
+    [
+      ['Id', node.id],
+      ['Kind', node.kind],
+      ['Location', node.location ? node.location.file + ':' + node.location.line + ':' + node.location.column : undefined],
+      ['Export', node.exportName],
+      ['Selector', node.selector],
+      ['Standalone', node.standalone],
+      ['Provided in', node.providedIn],
+      ['Provider kinds', node.providerKinds ? node.providerKinds.join(', ') : undefined],
+      ['Truncated', node.truncated ? 'more nodes beyond --depth' : undefined],
+      ['Depends on', adjacency.downstream[node.id].length],
+      ['Used by', adjacency.upstream[node.id].length]
+    ].forEach(function (entry) {
+      if (entry[1] === undefined) {
+        return;
+      }
+      var term = document.createElement('dt');
+      term.textContent = entry[0];
+      var value = document.createElement('dd');
+      value.textContent = String(entry[1]);
+      list.appendChild(term);
+      list.appendChild(value);
+    });
+    details.appendChild(list);
+  }
+
+  function render() {
+    var active = null;
+    var activeEdges = null;
+    if (state.cycle !== null) {
+      var path = cyclePaths[state.cycle];
+      active = {};
+      path.forEach(function (id) {
+        active[id] = true;
+      });
+      activeEdges = cycleEdgeKeys(path);
+    } else if (state.selected) {
+      active = reachableFrom(state.selected);
+    }
+
+    var query = state.query.toLowerCase();
+    graph.nodes.forEach(function (node) {
+      var element = nodeElements[node.id];
+      var text = (node.id + ' ' + (node.label || '')).toLowerCase();
+      element.classList.toggle('hidden', !!state.hiddenKinds[node.kind]);
+      element.classList.toggle('dimmed', !!active && !active[node.id]);
+      element.classList.toggle('highlight', !!active && !!active[node.id]);
+      element.classList.toggle('selected', state.selected === node.id);
+      element.classList.toggle('match', query.length > 0 && text.indexOf(query) !== -1);
+    });
+
+    edgeElements.forEach(function (entry) {
+      var edge = entry.edge;
+      var hidden = state.hiddenKinds[nodesById[edge.from].kind] || state.hiddenKinds[nodesById[edge.to].kind];
+      var highlighted = false;
+      if (activeEdges) {
+        highlighted = !!activeEdges[edge.from + '\u0000' + edge.to];
+      } else if (active) {
+        highlighted = !!active[edge.from] && !!active[edge.to];
+      }
+      entry.element.classList.toggle('hidden', !!hidden);
+      entry.element.classList.toggle('dimmed', !!active && !highlighted);
+      entry.element.classList.toggle('highlight', highlighted);
+    });
+
+    Array.prototype.forEach.call(cyclesList.children, function (item, index) {
+      item.classList.toggle('active', state.cycle === index);
+    });
+    renderDetails();
+  }
+
+  function applyTransform() {
+    viewport.setAttribute(
+      'transform',
+      'translate(' + state.x + ',' + state.y + ') scale(' + state.scale + ')'
+    );
+  }
+
+  function fit() {
+    var bounds = svg.getBoundingClientRect();
+    var scale = Math.min(
+      1,
+      (bounds.width - 40) / Math.max(layout.width, 1),
+      (bounds.height - 40) / Math.max(layout.height, 1)
+    );
+    state.scale = Math.max(scale, 0.05);
+    state.x = 20;
+    state.y = 20;
+    applyTransform();
+  }
+
+  function centerOn(id) {
+    var position = layout.nodes[id];
+    var bounds = svg.getBoundingClientRect();
+    state.x = bounds.width / 2 - (position.x + position.width / 2) * state.scale;
+    state.y = bounds.height / 2 - (position.y + layout.nodeHeight / 2) * state.scale;
+    applyTransform();
+  }
+
+  function setupPanZoom() {
+    var drag = null;
+    svg.addEventListener('mousedown', function (event) {
+      drag = { x: event.clientX - state.x, y: event.clientY - state.y, moved: false };
+      svg.classList.add('panning');
+    });
+    window.addEventListener('mousemove', function (event) {
+      if (!drag) {
+        return;
+      }
+      drag.moved = true;
+      state.x = event.clientX - drag.x;
+      state.y = event.clientY - drag.y;
+      applyTransform();
+    });
+    window.addEventListener('mouseup', function () {
+      svg.classList.remove('panning');
+      setTimeout(function () {
+        drag = null;
+      }, 0);
+    });
+    svg.addEventListener('click', function () {
+      if (drag && drag.moved) {
+        return;
+      }
+      state.selected = null;
+      state.cycle = null;
+      render();
+    });
+    svg.addEventListener(
+      'wheel',
+      function (event) {
+        event.preventDefault();
+        var bounds = svg.getBoundingClientRect();
+        var pointerX = event.clientX - bounds.left;
+        var pointerY = event.clientY - bounds.top;
+        var factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+        var scale = Math.min(4, Math.max(0.05, state.scale * factor));
+        state.x = pointerX - ((pointerX - state.x) * scale) / state.scale;
+        state.y = pointerY - ((pointerY - state.y) * scale) / state.scale;
+        state.scale = scale;
+        applyTransform();
+      },
+      { passive: false }
+    );
+  }
+
+  function setupControls() {
+    searchInput.addEventListener('input', function () {
+      state.query = searchInput.value.trim();
+      render();
+    });
+    searchInput.addEventListener('keydown', function (event) {
+      if (event.key !== 'Enter' || !state.query) {
+        return;
+      }
+      var query = state.query.toLowerCase();
+      var match = graph.nodes.filter(function (node) {
+        return (node.id + ' ' + (node.label || '')).toLowerCase().indexOf(query) !== -1;
+      })[0];
+      if (match) {
+        state.selected = match.id;
+        state.cycle = null;
+        render();
+        centerOn(match.id);
+      }
+    });
+    directionSelect.addEventListener('change', function () {
+      state.direction = directionSelect.value;
+      render();
+    });
+    document.getElementById('fit').addEventListener('click', fit);
+    document.getElementById('clear').addEventListener('click', function () {
+      state.selected = null;
+      state.cycle = null;
+      state.query = '';
+      searchInput.value = '';
+      render();
+    });
+  }
+
+  document.getElementById('summary').textContent =
+    graph.nodes.length + ' nodes, ' + graph.edges.length + ' edges, ' +
+    graph.circularDependencies.length + ' cycles';
+
+  drawEdges();
+  drawNodes();
+  buildKindToggles();
+  buildCycleList();
+  setupPanZoom();
+  setupControls();
+  render();
+  fit();
+})();
+`;
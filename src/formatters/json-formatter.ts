@@ -1,11 +1,11 @@
 import { LogCategory, type Logger } from '../core/logger';
-import type { Graph } from '../types';
+import type { Formatter, Graph } from '../types';
 
 /**
  * JSON formatter for dependency graph output
  * Produces pretty-printed JSON with 2-space indentation
  */
-export class JsonFormatter {
+export class JsonFormatter implements Formatter {
   /**
    * Logger instance for verbose output (optional)
    * @private
@@ -1,23 +1,42 @@
+import { toCyclePath } from '../core/cycle-analysis';
 import { LogCategory, type Logger } from '../core/logger';
-import type { Graph } from '../types';
+import type { Formatter, Graph, Node } from '../types';
+
+/**
+ * Options for Mermaid output
+ */
+export interface MermaidFormatterOptions {
+  disambiguate?: boolean; // Show the file path after node labels shared by several nodes
+  showScope?: boolean; // Show the providedIn scope under the node label
+  showProvenance?: boolean; // Label edges with their parameter name and comment where they are injected
+  showMetadata?: boolean; // Show selector, standalone flag, export name and location under the node label
+}
 
 /**
  * Mermaid formatter for dependency graph output
  * Produces flowchart LR syntax compatible with Mermaid Live Editor
  */
-export class MermaidFormatter {
+export class MermaidFormatter implements Formatter {
   /**
    * Logger instance for verbose output (optional)
    * @private
    */
   private readonly _logger?: Logger;
 
+  /**
+   * Formatting options
+   * @private
+   */
+  private readonly _options: MermaidFormatterOptions;
+
   /**
    * Create a new Mermaid formatter
    * @param logger Optional Logger instance for verbose mode
+   * @param options Optional formatting options
    */
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, options: MermaidFormatterOptions = {}) {
     this._logger = logger;
+    this._options = options;
   }
 
   /**
@@ -42,25 +61,77 @@ export class MermaidFormatter {
     }
 
     const lines = ['flowchart LR'];
+    const displayNames = this.resolveDisplayNames(graph);
+    const nodeKeys = this.resolveNodeKeys(graph);
+    const keyOf = (id: string): string => nodeKeys.get(id) ?? this.sanitizeNodeName(id);
+    const nameOf = (id: string): string => displayNames.get(id) ?? id;
+
+    // Declare nodes whose text differs from their key (labels, providedIn scope, metadata)
+    for (const node of graph.nodes) {
+      const key = keyOf(node.id);
+      const name = nameOf(node.id);
+      const scope = this._options.showScope ? node.providedIn : undefined;
+      const details = [
+        ...(scope ? [`providedIn: ${scope}`] : []),
+        ...(this._options.showMetadata ? this.formatMetadata(node) : []),
+      ];
+      if (name === key && details.length === 0) {
+        continue;
+      }
+
+      lines.push(`  ${key}["${[name.replace(/"/g, '#quot;'), ...details].join('<br/>')}"]`);
+    }
+
+    // Group nodes of workspace projects into subgraphs
+    for (const [project, nodes] of this.groupByProject(graph)) {
+      lines.push(`  subgraph project_${this.sanitizeNodeName(project)}["${project}"]`);
+      for (const node of nodes) {
+        lines.push(`    ${keyOf(node.id)}`);
+      }
+      lines.push('  end');
+    }
 
     // Add edges with proper formatting
     for (const edge of graph.edges) {
-      const fromNode = this.sanitizeNodeName(edge.from);
-      const toNode = this.sanitizeNodeName(edge.to);
+      const fromNode = keyOf(edge.from);
+      const toNode = keyOf(edge.to);
+      const parameterName = this._options.showProvenance ? edge.parameterName : undefined;
+
+      // Mermaid has no edge tooltips, so the injection source and location go in a comment
+      if (this._options.showProvenance && edge.location) {
+        const source = edge.source ? ` (${edge.source})` : '';
+        const { file, line, column } = edge.location;
+        lines.push(`  %% ${parameterName ?? ''}${source} at ${file}:${line}:${column}`);
+      }
 
       if (edge.isCircular) {
-        lines.push(`  ${fromNode} -.->|circular| ${toNode}`);
+        lines.push(
+          `  ${fromNode} -.->|${parameterName ? `${parameterName}, circular` : 'circular'}| ${toNode}`
+        );
+      } else if (edge.kind === 'provided-by') {
+        lines.push(`  ${fromNode} -->|provided-by| ${toNode}`);
+      } else if (parameterName) {
+        lines.push(`  ${fromNode} -->|${parameterName}| ${toNode}`);
       } else {
         lines.push(`  ${fromNode} --> ${toNode}`);
       }
     }
 
+    // Draw nodes cut off by --depth with a dashed border
+    const truncatedKeys = graph.nodes
+      .filter((node) => node.truncated)
+      .map((node) => keyOf(node.id));
+    if (truncatedKeys.length > 0) {
+      lines.push('  classDef truncated stroke-dasharray: 5 5');
+      lines.push(`  class ${truncatedKeys.join(',')} truncated`);
+    }
+
     // Add circular dependency comments if any
     if (graph.circularDependencies.length > 0) {
       lines.push('');
       lines.push('  %% Circular Dependencies Detected:');
       for (const cycle of graph.circularDependencies) {
-        lines.push(`  %% ${cycle.join(' -> ')} -> ${cycle[0]}`);
+        lines.push(`  %% ${toCyclePath(cycle).map(nameOf).join(' -> ')}`);
       }
     }
 
@@ -75,6 +146,108 @@ export class MermaidFormatter {
     return result;
   }
 
+  /**
+   * Metadata lines shown under a node label
+   * @param node Graph node
+   * @returns Selector, standalone flag, export name (when it differs from the label) and location
+   */
+  private formatMetadata(node: Node): string[] {
+    const lines: string[] = [];
+    if (node.selector) {
+      lines.push(`selector: ${node.selector.replace(/"/g, '#quot;')}`);
+    }
+    if (node.standalone !== undefined) {
+      lines.push(`standalone: ${node.standalone}`);
+    }
+    if (node.exportName && node.exportName !== (node.label ?? node.id)) {
+      lines.push(`export: ${node.exportName}`);
+    }
+    if (node.location) {
+      lines.push(`${node.location.file}:${node.location.line}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Group nodes by their workspace project
+   * @param graph The dependency graph
+   * @returns Nodes per project name, sorted by project; empty outside workspace mode
+   */
+  private groupByProject(graph: Graph): Map<string, Node[]> {
+    const groups = new Map<string, Node[]>();
+    for (const node of graph.nodes) {
+      if (node.project) {
+        const projectNodes = groups.get(node.project) ?? [];
+        projectNodes.push(node);
+        groups.set(node.project, projectNodes);
+      }
+    }
+    return new Map([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  /**
+   * Resolve a distinct Mermaid key for every node and edge endpoint
+   * Keys are the sanitised ids; ids that sanitise to a key already taken get a numeric suffix
+   * @param graph The dependency graph
+   * @returns Node keys by node id
+   */
+  private resolveNodeKeys(graph: Graph): Map<string, string> {
+    const nodeKeys = new Map<string, string>();
+    const usedKeys = new Set<string>();
+    const ids = [
+      ...graph.nodes.map((node) => node.id),
+      ...graph.edges.flatMap((e) => [e.from, e.to]),
+    ];
+
+    for (const id of ids) {
+      if (nodeKeys.has(id)) {
+        continue;
+      }
+      const base = this.sanitizeNodeName(id.replace(/[/#]/g, '_')) || 'node';
+      let key = base;
+      for (let suffix = 2; usedKeys.has(key); suffix++) {
+        key = `${base}_${suffix}`;
+      }
+      nodeKeys.set(id, key);
+      usedKeys.add(key);
+    }
+
+    return nodeKeys;
+  }
+
+  /**
+   * Resolve the text shown for each node
+   * Nodes are shown by label; with disambiguate, labels shared by several nodes are
+   * followed by the node's file path
+   * @param graph The dependency graph
+   * @returns Display names by node id
+   */
+  private resolveDisplayNames(graph: Graph): Map<string, string> {
+    const displayNames = new Map<string, string>();
+
+    const labelCounts = new Map<string, number>();
+    for (const node of graph.nodes) {
+      const label = node.label ?? node.id;
+      labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1);
+    }
+
+    for (const node of graph.nodes) {
+      const label = node.label ?? node.id;
+      const collides = (labelCounts.get(label) ?? 0) > 1;
+
+      if (this._options.disambiguate && collides) {
+        const filePath = node.id.endsWith(`#${label}`)
+          ? node.id.slice(0, -(label.length + 1))
+          : node.id;
+        displayNames.set(node.id, `${label} (${filePath})`);
+      } else {
+        displayNames.set(node.id, label);
+      }
+    }
+
+    return displayNames;
+  }
+
   /**
    * Sanitize node names for Mermaid compatibility
    * Replaces special characters that break Mermaid syntax
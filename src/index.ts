@@ -0,0 +1,41 @@
+/**
+ * ng-di-graph library entry point
+ * Programmatic access to the dependency graph for Node scripts and custom tooling
+ *
+ * Usage:
+ * ```typescript
+ * import { analyze } from 'ng-di-graph';
+ *
+ * const { graph, warnings } = await analyze({ project: './tsconfig.json', hideUnknown: true });
+ * ```
+ */
+
+export { analyze } from './core/analyzer';
+export { CliError, ExitCodes } from './core/error-handler';
+export {
+  createFormatter,
+  getFormatNames,
+  registerFormatter,
+} from './formatters/formatter-registry';
+export type {
+  AnalysisResult,
+  AnalysisStats,
+  AnalyzeOptions,
+  DependencySource,
+  Edge,
+  EdgeFlags,
+  EdgeKind,
+  EdgeProvider,
+  Formatter,
+  FormatterFactory,
+  Graph,
+  InjectionTokenInfo,
+  Node,
+  NodeKind,
+  ProviderKind,
+  SourceLocation,
+  StronglyConnectedComponent,
+  StructuredWarnings,
+  Warning,
+  WarningCategory,
+} from './types';
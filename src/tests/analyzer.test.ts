@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { resolve } from 'path';
+import { analyze, CliError } from '../index';
+
+describe('analyze', () => {
+  const project = './src/tests/fixtures/tsconfig.json';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the graph, warnings and root directory without writing to stdout', async () => {
+    const stdoutWrite = vi.spyOn(process.stdout, 'write');
+    const consoleLog = vi.spyOn(console, 'log');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await analyze({ project });
+
+    expect(result.rootDir).toBe(resolve('src/tests/fixtures'));
+    expect(result.graph.nodes.some(node => node.id === 'src/components.ts#TestComponent')).toBe(true);
+    expect(result.graph.edges.length).toBeGreaterThan(0);
+    expect(result.warnings.totalCount).toBeGreaterThan(0);
+    expect(result.stats).toBeUndefined();
+    expect(stdoutWrite).not.toHaveBeenCalled();
+    expect(consoleLog).not.toHaveBeenCalled();
+  });
+
+  it('should report the same warnings on every call', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = await analyze({ project });
+    const second = await analyze({ project });
+
+    // Performance warnings depend on timing, the other categories do not
+    expect(first.warnings.categories.skippedTypes.length).toBeGreaterThan(0);
+    expect(second.warnings.categories.skippedTypes).toEqual(first.warnings.categories.skippedTypes);
+  });
+
+  it('should apply graph filters', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await analyze({ project, entry: ['TestComponent'], depth: 0 });
+
+    expect(result.graph.nodes.map(node => node.label)).toEqual(['TestComponent']);
+  });
+
+  it('should collect stats and pass log lines to onLog in verbose mode', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const consoleError = vi.spyOn(console, 'error');
+    const lines: string[] = [];
+
+    const result = await analyze({ project, verbose: true, onLog: line => lines.push(line) });
+
+    expect(result.stats?.totalTime).toBeGreaterThan(0);
+    expect(result.stats?.totalLogs).toBe(lines.length);
+    expect(lines.length).toBeGreaterThan(0);
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid options and projects with a CliError instead of exiting', async () => {
+    const exit = vi.spyOn(process, 'exit');
+
+    await expect(analyze({ project, direction: 'sideways' as 'both' })).rejects.toThrow(
+      'Invalid direction: sideways'
+    );
+    await expect(analyze({ project, projects: ['shop'] })).rejects.toThrow(
+      '--projects requires --workspace'
+    );
+    await expect(analyze({ project: './missing/tsconfig.json' })).rejects.toBeInstanceOf(CliError);
+    expect(exit).not.toHaveBeenCalled();
+  });
+});
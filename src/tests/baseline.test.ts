@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createBaseline,
+  diffBaseline,
+  normalizeCycle,
+  readBaseline,
+  serializeBaseline
+} from '../core/baseline';
+import { checkGraph, formatCheckReport } from '../core/graph-check';
+import { CliError } from '../core/error-handler';
+import { analyze } from '../index';
+import type { Graph, StructuredWarnings, Warning } from '../types';
+import { createTempProject } from './helpers/test-utils';
+
+function createWarnings(unresolvedImports: Warning[] = []): StructuredWarnings {
+  return {
+    categories: {
+      typeResolution: [],
+      skippedTypes: [],
+      unresolvedImports,
+      circularReferences: [],
+      performance: [],
+      nameCollisions: []
+    },
+    totalCount: unresolvedImports.length
+  };
+}
+
+const missingWarning: Warning = {
+  type: 'unresolved_type',
+  message: "Unresolved type 'Missing' - check imports",
+  file: '/project/src/a.ts',
+  line: 3,
+  column: 12,
+  severity: 'warning'
+};
+
+const nopeWarning: Warning = {
+  type: 'unresolved_type',
+  message: "Unresolved type 'Nope' - check imports",
+  file: '/project/src/d.ts',
+  line: 7,
+  column: 4,
+  severity: 'warning'
+};
+
+// Two cycles: A <-> B and C <-> D
+const graph: Graph = {
+  nodes: [
+    { id: 'src/a.ts#A', label: 'A', kind: 'service' },
+    { id: 'src/b.ts#B', label: 'B', kind: 'service' },
+    { id: 'src/c.ts#C', label: 'C', kind: 'service' },
+    { id: 'src/d.ts#D', label: 'D', kind: 'service' }
+  ],
+  edges: [
+    { from: 'src/a.ts#A', to: 'src/b.ts#B', isCircular: true },
+    { from: 'src/b.ts#B', to: 'src/a.ts#A', isCircular: true },
+    { from: 'src/c.ts#C', to: 'src/d.ts#D', isCircular: true },
+    { from: 'src/d.ts#D', to: 'src/c.ts#C', isCircular: true }
+  ],
+  circularDependencies: [
+    ['src/d.ts#D', 'src/c.ts#C', 'src/d.ts#D'],
+    ['src/b.ts#B', 'src/a.ts#A', 'src/b.ts#B']
+  ]
+};
+
+describe('Baseline', () => {
+  describe('createBaseline', () => {
+    it('should normalise cycles and warnings independently of detection order', () => {
+      const reordered: Graph = {
+        ...graph,
+        circularDependencies: [
+          ['src/a.ts#A', 'src/b.ts#B', 'src/a.ts#A'],
+          ['src/c.ts#C', 'src/d.ts#D', 'src/c.ts#C']
+        ]
+      };
+
+      const baseline = createBaseline(graph, createWarnings([nopeWarning, missingWarning]), '/project');
+      const reorderedBaseline = createBaseline(
+        reordered,
+        createWarnings([missingWarning, nopeWarning]),
+        '/project'
+      );
+
+      expect(baseline).toEqual(reorderedBaseline);
+      expect(baseline.cycles).toEqual([
+        ['src/a.ts#A', 'src/b.ts#B'],
+        ['src/c.ts#C', 'src/d.ts#D']
+      ]);
+      expect(baseline.warnings).toEqual([
+        {
+          category: 'unresolvedImports',
+          type: 'unresolved_type',
+          file: 'src/a.ts',
+          message: "Unresolved type 'Missing' - check imports"
+        },
+        {
+          category: 'unresolvedImports',
+          type: 'unresolved_type',
+          file: 'src/d.ts',
+          message: "Unresolved type 'Nope' - check imports"
+        }
+      ]);
+    });
+
+    it('should ignore warning line and column numbers', () => {
+      const moved = { ...missingWarning, line: 42, column: 1 };
+
+      expect(createBaseline(graph, createWarnings([moved]), '/project')).toEqual(
+        createBaseline(graph, createWarnings([missingWarning]), '/project')
+      );
+    });
+
+    it('should rotate cycles to start at the smallest node id', () => {
+      expect(normalizeCycle(['C', 'A', 'B', 'C'])).toEqual(['A', 'B', 'C']);
+      expect(normalizeCycle(['B', 'C', 'A'])).toEqual(['A', 'B', 'C']);
+      expect(normalizeCycle(['A', 'A'])).toEqual(['A']);
+    });
+  });
+
+  describe('diffBaseline', () => {
+    it('should return only cycles and warnings missing from the baseline', () => {
+      const accepted = createBaseline(
+        { ...graph, circularDependencies: [graph.circularDependencies[1]] },
+        createWarnings([missingWarning]),
+        '/project'
+      );
+      const current = createBaseline(graph, createWarnings([missingWarning, nopeWarning]), '/project');
+
+      const added = diffBaseline(current, accepted);
+
+      expect(added.cycles).toEqual([['src/c.ts#C', 'src/d.ts#D']]);
+      expect(added.warnings.map((warning) => warning.file)).toEqual(['src/d.ts']);
+    });
+
+    it('should match a baseline written for the same project in another directory', async () => {
+      const sources = {
+        'logger.ts': ["import { Injectable } from '@angular/core';", '@Injectable()', 'export class Logger {}'],
+        'legacy/logger.ts': ["import { Injectable } from '@angular/core';", '@Injectable()', 'export class Logger {}']
+      };
+      const checkouts = [createTempProject(sources), createTempProject(sources)];
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        const [accepted, current] = await Promise.all(
+          checkouts.map(async (projectDir) => {
+            const { graph, warnings, rootDir } = await analyze({ project: join(projectDir, 'tsconfig.json') });
+            return createBaseline(graph, warnings, rootDir);
+          })
+        );
+
+        expect(accepted.warnings).toContainEqual(
+          expect.objectContaining({
+            category: 'nameCollisions',
+            message: "'Logger' is declared in 2 files: src/legacy/logger.ts, src/logger.ts"
+          })
+        );
+        expect(diffBaseline(current, accepted).warnings).toEqual([]);
+      } finally {
+        vi.restoreAllMocks();
+        for (const projectDir of checkouts) {
+          rmSync(projectDir, { recursive: true, force: true });
+        }
+      }
+    });
+  });
+
+  describe('checkGraph with a baseline', () => {
+    it('should fail only on new cycles and warnings', () => {
+      const accepted = createBaseline(
+        { ...graph, circularDependencies: [graph.circularDependencies[1]] },
+        createWarnings([missingWarning]),
+        '/project'
+      );
+
+      const result = checkGraph(
+        graph,
+        { failOn: ['cycles', 'warnings'], maxCycles: 0, baseline: accepted, rootDir: '/project' },
+        createWarnings([missingWarning, nopeWarning])
+      );
+
+      expect(result.failedRules).toEqual(['cycles', 'warnings']);
+      expect(result.cycles).toHaveLength(2);
+      expect(result.newCycles?.map((cycle) => cycle.nodes)).toEqual([['src/c.ts#C', 'src/d.ts#D']]);
+      expect(formatCheckReport(result, graph)).toBe(
+        [
+          'ng-di-graph check: failed (cycles, warnings)',
+          'Cycles: 2 (1 new, max 0)',
+          '  1. C -> D -> C',
+          '     src/c.ts#C -> src/d.ts#D',
+          '     src/d.ts#D -> src/c.ts#C',
+          'Unknown nodes: 0',
+          'Warnings: 2 (1 new)',
+          "  - [unresolvedImports] src/d.ts: Unresolved type 'Nope' - check imports"
+        ].join('\n')
+      );
+    });
+
+    it('should pass when every cycle and warning is in the baseline', () => {
+      const warnings = createWarnings([missingWarning, nopeWarning]);
+      const accepted = createBaseline(graph, warnings, '/project');
+
+      const result = checkGraph(
+        graph,
+        { failOn: ['cycles', 'warnings'], maxCycles: 0, baseline: accepted, rootDir: '/project' },
+        warnings
+      );
+
+      expect(result.passed).toBe(true);
+      expect(result.newCycles).toEqual([]);
+      expect(result.newWarnings).toEqual([]);
+    });
+  });
+
+  describe('readBaseline', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-baseline-'));
+    });
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip a serialized baseline', () => {
+      const baseline = createBaseline(graph, createWarnings([missingWarning]), '/project');
+      const filePath = join(tempDir, 'baseline.json');
+      writeFileSync(filePath, serializeBaseline(baseline));
+
+      expect(readBaseline(filePath)).toEqual(baseline);
+    });
+
+    it('should normalise hand-edited cycles', () => {
+      const filePath = join(tempDir, 'edited.json');
+      writeFileSync(
+        filePath,
+        JSON.stringify({ version: 1, cycles: [['src/b.ts#B', 'src/a.ts#A', 'src/b.ts#B']], warnings: [] })
+      );
+
+      expect(readBaseline(filePath).cycles).toEqual([['src/a.ts#A', 'src/b.ts#B']]);
+    });
+
+    it('should throw FILE_NOT_FOUND for a missing file', () => {
+      try {
+        readBaseline(join(tempDir, 'missing.json'));
+        expect.unreachable('readBaseline should throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CliError);
+        expect((error as CliError).code).toBe('FILE_NOT_FOUND');
+      }
+    });
+
+    it('should throw INVALID_ARGUMENTS for malformed content', () => {
+      const invalidJson = join(tempDir, 'invalid.json');
+      const wrongShape = join(tempDir, 'wrong-shape.json');
+      writeFileSync(invalidJson, '{ not json');
+      writeFileSync(wrongShape, JSON.stringify({ cycles: [] }));
+
+      for (const filePath of [invalidJson, wrongShape]) {
+        try {
+          readBaseline(filePath);
+          expect.unreachable('readBaseline should throw');
+        } catch (error) {
+          expect(error).toBeInstanceOf(CliError);
+          expect((error as CliError).code).toBe('INVALID_ARGUMENTS');
+        }
+      }
+    });
+
+    it('should name hand-edited cycles and warnings that are not valid entries', () => {
+      const invalidCycle = join(tempDir, 'invalid-cycle.json');
+      const invalidWarning = join(tempDir, 'invalid-warning.json');
+      writeFileSync(invalidCycle, JSON.stringify({ version: 1, cycles: [['src/a.ts#A'], 'src/b.ts#B'], warnings: [] }));
+      writeFileSync(
+        invalidWarning,
+        JSON.stringify({
+          version: 1,
+          cycles: [],
+          warnings: [{ category: 'unresolvedImports', type: 'unresolved_type', file: 'src/a.ts', message: 'ok' }, null]
+        })
+      );
+
+      expect(() => readBaseline(invalidCycle)).toThrow(
+        'Invalid baseline file: cycles[1] must be an array of node ids'
+      );
+      expect(() => readBaseline(invalidWarning)).toThrow(
+        'Invalid baseline file: warnings[1] must be an object with string "category", "type", "file" and "message" properties'
+      );
+      expect(() => readBaseline(invalidWarning)).toThrow(CliError);
+    });
+  });
+});
@@ -532,6 +532,33 @@ describe('Bidirectional Filtering', () => {
         console.warn = originalWarn;
       }
     });
+
+    it('should warn about a non-existent entry point once in both directions', () => {
+      const consoleLogs: string[] = [];
+      const originalWarn = console.warn;
+      const originalLog = console.log;
+
+      console.warn = (msg: string) => consoleLogs.push(msg);
+      console.log = () => {};
+
+      try {
+        const options: CliOptions = {
+          project: './test',
+          format: 'json',
+          entry: ['NonExistentService', 'AppComponent'],
+          direction: 'both',
+          includeDecorators: false,
+          verbose: true
+        };
+
+        filterGraph(complexTestGraph, options);
+
+        expect(consoleLogs).toEqual(["Entry point 'NonExistentService' not found in graph"]);
+      } finally {
+        console.warn = originalWarn;
+        console.log = originalLog;
+      }
+    });
   });
 
   describe('Direction Validation Tests', () => {
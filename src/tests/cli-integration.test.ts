@@ -152,18 +152,15 @@ describe('CLI Integration - Core Features', () => {
       const graph = await generateGraphWithCLIOptions(options);
 
       // Assert - Should have flags from both legacy decorators and inject() calls
+      const labelOf = (id: string) => graph.nodes.find(node => node.id === id)?.label;
       const legacyDecoratorEdges = graph.edges.filter(edge =>
-        edge.from === 'ServiceWithOptionalDep' ||
-        edge.from === 'ServiceWithSelfDep' ||
-        edge.from === 'ServiceWithSkipSelfDep' ||
-        edge.from === 'ServiceWithHostDep'
+        ['ServiceWithOptionalDep', 'ServiceWithSelfDep', 'ServiceWithSkipSelfDep', 'ServiceWithHostDep']
+          .includes(labelOf(edge.from) ?? '')
       );
 
       const modernInjectEdges = graph.edges.filter(edge =>
-        edge.from === 'ServiceWithInjectOptional' ||
-        edge.from === 'ServiceWithInjectSelf' ||
-        edge.from === 'ServiceWithInjectSkipSelf' ||
-        edge.from === 'ServiceWithInjectHost'
+        ['ServiceWithInjectOptional', 'ServiceWithInjectSelf', 'ServiceWithInjectSkipSelf', 'ServiceWithInjectHost']
+          .includes(labelOf(edge.from) ?? '')
       );
 
       expect(legacyDecoratorEdges.length).toBeGreaterThan(0);
@@ -424,8 +421,8 @@ describe('CLI Integration - Core Features', () => {
       expect(graph.edges.length).toBeGreaterThan(0);
 
       // Should include entry point and its downstream dependencies
-      const nodeIds = graph.nodes.map((n: any) => n.id);
-      expect(nodeIds).toContain('ServiceWithOptionalDep');
+      const nodeLabels = graph.nodes.map((n: any) => n.label);
+      expect(nodeLabels).toContain('ServiceWithOptionalDep');
     });
 
     it('should execute upstream filtering correctly via CLI', async () => {
@@ -450,8 +447,8 @@ describe('CLI Integration - Core Features', () => {
       const graph = JSON.parse(cleanOutput);
 
       // Should include entry point and services that depend on it
-      const nodeIds = graph.nodes.map((n: any) => n.id);
-      expect(nodeIds).toContain('OptionalService');
+      const nodeLabels = graph.nodes.map((n: any) => n.label);
+      expect(nodeLabels).toContain('OptionalService');
     });
 
     it('should execute bidirectional filtering correctly via CLI', async () => {
@@ -476,8 +473,8 @@ describe('CLI Integration - Core Features', () => {
       const graph = JSON.parse(cleanOutput);
 
       // Should include entry point and both upstream and downstream dependencies
-      const nodeIds = graph.nodes.map((n: any) => n.id);
-      expect(nodeIds).toContain('ServiceWithOptionalDep');
+      const nodeLabels = graph.nodes.map((n: any) => n.label);
+      expect(nodeLabels).toContain('ServiceWithOptionalDep');
       expect(graph.nodes.length).toBeGreaterThan(0);
     });
 
@@ -503,9 +500,9 @@ describe('CLI Integration - Core Features', () => {
       const graph = JSON.parse(cleanOutput);
 
       // Should include both entry points
-      const nodeIds = graph.nodes.map((n: any) => n.id);
-      expect(nodeIds).toContain('ServiceWithOptionalDep');
-      expect(nodeIds).toContain('ServiceWithSelfDep');
+      const nodeLabels = graph.nodes.map((n: any) => n.label);
+      expect(nodeLabels).toContain('ServiceWithOptionalDep');
+      expect(nodeLabels).toContain('ServiceWithSelfDep');
     });
 
     it('should combine direction with include-decorators flag', async () => {
@@ -532,8 +529,8 @@ describe('CLI Integration - Core Features', () => {
 
       // Should have nodes and potentially edges with flags
       expect(graph.nodes.length).toBeGreaterThan(0);
-      const nodeIds = graph.nodes.map((n: any) => n.id);
-      expect(nodeIds).toContain('ServiceWithOptionalDep');
+      const nodeLabels = graph.nodes.map((n: any) => n.label);
+      expect(nodeLabels).toContain('ServiceWithOptionalDep');
     });
 
     it('should output Mermaid format with direction filtering', async () => {
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findConfigFile, loadConfig, validateConfig } from '../core/config';
+import { CliError } from '../core/error-handler';
+import { createGlobMatcher } from '../core/glob';
+
+describe('Configuration File', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const expectInvalid = (run: () => unknown, message: string) => {
+    try {
+      run();
+      expect.unreachable('should throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CliError);
+      expect((error as CliError).code).toBe('INVALID_ARGUMENTS');
+      expect((error as CliError).message).toContain(message);
+    }
+  };
+
+  describe('findConfigFile', () => {
+    it('should find the JSON config before the TypeScript config', () => {
+      expect(findConfigFile(tempDir)).toBeUndefined();
+
+      writeFileSync(join(tempDir, 'ng-di-graph.config.ts'), 'export default {};');
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'ng-di-graph.config.ts'));
+
+      writeFileSync(join(tempDir, 'ng-di-graph.config.json'), '{}');
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'ng-di-graph.config.json'));
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should load a JSON config and resolve paths against its directory', () => {
+      const configPath = join(tempDir, 'ng-di-graph.config.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          project: 'apps/web/tsconfig.json',
+          format: 'mermaid',
+          entry: ['AppComponent'],
+          direction: 'both',
+          include: ['src/**'],
+          exclude: ['*.spec.ts'],
+          cache: true,
+          cacheDir: '.cache/ng-di-graph',
+          workers: 4,
+          outputs: [{ format: 'dot', out: 'docs/graph.dot' }],
+          check: { failOn: ['cycles', 'warnings'], maxCycles: 2, baseline: 'di-baseline.json' }
+        })
+      );
+
+      expect(loadConfig(configPath)).toEqual({
+        project: join(tempDir, 'apps/web/tsconfig.json'),
+        format: 'mermaid',
+        entry: ['AppComponent'],
+        direction: 'both',
+        include: ['src/**'],
+        exclude: ['*.spec.ts'],
+        cache: true,
+        cacheDir: join(tempDir, '.cache/ng-di-graph'),
+        workers: 4,
+        outputs: [{ format: 'dot', out: join(tempDir, 'docs/graph.dot') }],
+        check: {
+          failOn: ['cycles', 'warnings'],
+          maxCycles: 2,
+          baseline: join(tempDir, 'di-baseline.json')
+        }
+      });
+    });
+
+    it('should evaluate a TypeScript config with a default export', () => {
+      const configPath = join(tempDir, 'ng-di-graph.config.ts');
+      writeFileSync(
+        configPath,
+        [
+          "const excluded: string[] = ['*.spec.ts', '*.stories.ts'];",
+          "export default { format: 'json' as const, exclude: excluded, verbose: true };"
+        ].join('\n')
+      );
+
+      expect(loadConfig(configPath)).toEqual({
+        format: 'json',
+        exclude: ['*.spec.ts', '*.stories.ts'],
+        verbose: true
+      });
+    });
+
+    it('should report malformed files as INVALID_ARGUMENTS', () => {
+      const jsonPath = join(tempDir, 'broken.json');
+      const tsPath = join(tempDir, 'broken.ts');
+      writeFileSync(jsonPath, '{ "format": ');
+      writeFileSync(tsPath, "throw new Error('boom');");
+
+      expectInvalid(() => loadConfig(jsonPath), 'Invalid config file');
+      expectInvalid(() => loadConfig(tsPath), 'boom');
+    });
+
+    it('should report a missing --config file as FILE_NOT_FOUND', () => {
+      try {
+        loadConfig(join(tempDir, 'missing.json'));
+        expect.unreachable('should throw');
+      } catch (error) {
+        expect((error as CliError).code).toBe('FILE_NOT_FOUND');
+      }
+    });
+    it('should resolve formatter module paths against its directory', () => {
+      const configPath = join(tempDir, 'ng-di-graph.config.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          format: './tools/edge-list.js',
+          outputs: [
+            { format: '@acme/ng-di-graph-formatter', out: 'graph.txt' },
+            { format: 'mermaid', out: 'graph.mmd' }
+          ]
+        })
+      );
+
+      expect(loadConfig(configPath)).toEqual({
+        format: join(tempDir, 'tools/edge-list.js'),
+        outputs: [
+          { format: '@acme/ng-di-graph-formatter', out: join(tempDir, 'graph.txt') },
+          { format: 'mermaid', out: join(tempDir, 'graph.mmd') }
+        ]
+      });
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should name the invalid property', () => {
+      expectInvalid(() => validateConfig({ format: 42 }, 'c.json'), '"format" must be one of');
+      expectInvalid(() => validateConfig({ format: '' }, 'c.json'), '"format" must be one of');
+      expectInvalid(() => validateConfig({ entry: 'AppComponent' }, 'c.json'), '"entry" must be');
+      expectInvalid(() => validateConfig({ formats: 'json' }, 'c.json'), 'unknown property "formats"');
+      expectInvalid(
+        () => validateConfig({ outputs: [{ format: 'json' }] }, 'c.json'),
+        '"outputs" must be'
+      );
+      expectInvalid(
+        () => validateConfig({ check: { failOn: ['cycle'] } }, 'c.json'),
+        '"check" must be'
+      );
+      expectInvalid(() => validateConfig({ check: { maxCycles: -1 } }, 'c.json'), '"check" must be');
+      expectInvalid(() => validateConfig({ cache: 'no' }, 'c.json'), '"cache" must be a boolean');
+      expectInvalid(() => validateConfig({ workers: 0 }, 'c.json'), '"workers" must be a positive integer');
+      expectInvalid(() => validateConfig([], 'c.json'), 'expected an object');
+    });
+  });
+});
+
+describe('createGlobMatcher', () => {
+  it('should match patterns without a slash at any depth', () => {
+    const isSpec = createGlobMatcher(['*.spec.ts']);
+
+    expect(isSpec('src/app/auth.service.spec.ts')).toBe(true);
+    expect(isSpec('auth.spec.ts')).toBe(true);
+    expect(isSpec('src/app/auth.service.ts')).toBe(false);
+  });
+
+  it('should support **, ?, braces and Windows separators', () => {
+    expect(createGlobMatcher(['src/**/*.mock.ts'])('src/a/b/auth.mock.ts')).toBe(true);
+    expect(createGlobMatcher(['src/**/*.mock.ts'])('src/auth.mock.ts')).toBe(true);
+    expect(createGlobMatcher(['src/**/*.mock.ts'])('lib/auth.mock.ts')).toBe(false);
+    expect(createGlobMatcher(['src/*.ts'])('src/app/a.ts')).toBe(false);
+    expect(createGlobMatcher(['**/generated/**'])('src\\generated\\api.ts')).toBe(true);
+    expect(createGlobMatcher(['*.{stories,spec}.ts'])('ui/button.stories.ts')).toBe(true);
+    expect(createGlobMatcher(['src/v?.ts'])('src/v1.ts')).toBe(true);
+  });
+});
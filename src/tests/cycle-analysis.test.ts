@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { findStronglyConnectedComponents, toCyclePath } from '../core/cycle-analysis';
+import { buildGraph } from '../core/graph-builder';
+import type { Edge, Node, ParsedClass } from '../types';
+
+const service = (id: string): Node => ({ id, kind: 'service' });
+const edge = (from: string, to: string): Edge => ({ from, to });
+
+/**
+ * Checks that removing the given edges leaves no cycle among the remaining edges
+ */
+function isAcyclicWithout(edges: Edge[], removed: Array<{ from: string; to: string }>): boolean {
+  const removedKeys = new Set(removed.map((e) => `${e.from}->${e.to}`));
+  const remaining = edges.filter((e) => !removedKeys.has(`${e.from}->${e.to}`));
+  const nodes = [...new Set(remaining.flatMap((e) => [e.from, e.to]))].map(service);
+  return findStronglyConnectedComponents(nodes, remaining).length === 0;
+}
+
+describe('findStronglyConnectedComponents', () => {
+  it('should return no components for an acyclic graph', () => {
+    const nodes = ['A', 'B', 'C'].map(service);
+    const edges = [edge('A', 'B'), edge('B', 'C'), edge('A', 'C')];
+
+    expect(findStronglyConnectedComponents(nodes, edges)).toEqual([]);
+  });
+
+  it('should group overlapping cycles into one component with its elementary cycles', () => {
+    const nodes = ['A', 'B', 'C', 'D'].map(service);
+    const edges = [edge('A', 'B'), edge('B', 'A'), edge('B', 'C'), edge('C', 'B'), edge('C', 'D')];
+
+    const components = findStronglyConnectedComponents(nodes, edges);
+
+    expect(components).toHaveLength(1);
+    expect(components[0].nodes).toEqual(['A', 'B', 'C']);
+    expect(components[0].cycles).toEqual([
+      ['A', 'B'],
+      ['B', 'C']
+    ]);
+    expect(components[0].cyclesTruncated).toBeUndefined();
+    expect(components[0].suggestedBreaks).toHaveLength(2);
+    expect(isAcyclicWithout(edges, components[0].suggestedBreaks)).toBe(true);
+  });
+
+  it('should report separate components sorted by their smallest node id', () => {
+    const nodes = ['X', 'Y', 'A', 'B'].map(service);
+    const edges = [edge('X', 'Y'), edge('Y', 'X'), edge('B', 'A'), edge('A', 'B'), edge('A', 'X')];
+
+    const components = findStronglyConnectedComponents(nodes, edges);
+
+    expect(components.map((component) => component.nodes)).toEqual([
+      ['A', 'B'],
+      ['X', 'Y']
+    ]);
+  });
+
+  it('should find cycles that a single DFS pass misses', () => {
+    // A -> B -> C -> A and A -> C -> A share the edge C -> A
+    const nodes = ['A', 'B', 'C'].map(service);
+    const edges = [edge('A', 'B'), edge('B', 'C'), edge('C', 'A'), edge('A', 'C')];
+
+    const [component] = findStronglyConnectedComponents(nodes, edges);
+
+    expect(component.cycles).toEqual([
+      ['A', 'B', 'C'],
+      ['A', 'C']
+    ]);
+    // Removing C -> A breaks both cycles
+    expect(component.suggestedBreaks).toEqual([{ from: 'C', to: 'A' }]);
+  });
+
+  it('should not depend on node or edge order', () => {
+    const nodes = ['A', 'B', 'C', 'D'].map(service);
+    const edges = [
+      edge('A', 'B'),
+      edge('B', 'C'),
+      edge('C', 'A'),
+      edge('C', 'D'),
+      edge('D', 'B')
+    ];
+
+    const forward = findStronglyConnectedComponents(nodes, edges);
+    const reversed = findStronglyConnectedComponents([...nodes].reverse(), [...edges].reverse());
+
+    expect(reversed).toEqual(forward);
+    expect(forward[0].cycles).toEqual([
+      ['A', 'B', 'C'],
+      ['B', 'C', 'D']
+    ]);
+  });
+
+  it('should report self-injection as a single-node component', () => {
+    const components = findStronglyConnectedComponents([service('A')], [edge('A', 'A')]);
+
+    expect(components).toEqual([
+      { nodes: ['A'], cycles: [['A']], suggestedBreaks: [{ from: 'A', to: 'A' }] }
+    ]);
+  });
+
+  it('should limit the listed elementary cycles per component', () => {
+    // Complete graph on four nodes: 6 + 8 + 6 = 20 elementary cycles
+    const ids = ['A', 'B', 'C', 'D'];
+    const nodes = ids.map(service);
+    const edges = ids.flatMap((from) => ids.filter((to) => to !== from).map((to) => edge(from, to)));
+
+    const [all] = findStronglyConnectedComponents(nodes, edges, 100);
+    const [limited] = findStronglyConnectedComponents(nodes, edges, 5);
+
+    expect(all.cycles).toHaveLength(20);
+    expect(all.cyclesTruncated).toBeUndefined();
+    expect(limited.cycles).toHaveLength(5);
+    expect(limited.cyclesTruncated).toBe(true);
+    expect(isAcyclicWithout(edges, all.suggestedBreaks)).toBe(true);
+  });
+
+  it('should ignore provided-by edges', () => {
+    const nodes = ['TOKEN', 'Impl'].map(service);
+    const edges: Edge[] = [
+      { from: 'TOKEN', to: 'Impl', kind: 'provided-by' },
+      edge('Impl', 'TOKEN')
+    ];
+
+    expect(findStronglyConnectedComponents(nodes, edges)).toEqual([]);
+  });
+
+  it('should be exposed on graphs built by buildGraph', () => {
+    const parsedClasses: ParsedClass[] = [
+      {
+        name: 'ServiceA',
+        kind: 'service',
+        filePath: '/app/a.ts',
+        dependencies: [{ token: 'ServiceB' }]
+      },
+      {
+        name: 'ServiceB',
+        kind: 'service',
+        filePath: '/app/b.ts',
+        dependencies: [{ token: 'ServiceA' }]
+      },
+      { name: 'ServiceC', kind: 'service', filePath: '/app/c.ts', dependencies: [] }
+    ];
+
+    const graph = buildGraph(parsedClasses, undefined, { rootDir: '/app' });
+
+    expect(graph.stronglyConnectedComponents).toEqual([
+      {
+        nodes: ['a.ts#ServiceA', 'b.ts#ServiceB'],
+        cycles: [['a.ts#ServiceA', 'b.ts#ServiceB']],
+        suggestedBreaks: [{ from: 'b.ts#ServiceB', to: 'a.ts#ServiceA' }]
+      }
+    ]);
+  });
+});
+
+describe('toCyclePath', () => {
+  it('should close open cycles and keep closed ones', () => {
+    expect(toCyclePath(['A', 'B'])).toEqual(['A', 'B', 'A']);
+    expect(toCyclePath(['A', 'B', 'A'])).toEqual(['A', 'B', 'A']);
+    expect(toCyclePath(['A'])).toEqual(['A', 'A']);
+    expect(toCyclePath(['A', 'A'])).toEqual(['A', 'A']);
+    expect(toCyclePath([])).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Test fixtures for inject() calls in functional guards, resolvers, interceptors and factories
+ */
+import { inject } from '@angular/core';
+import type { CanActivateFn, ResolveFn } from '@angular/router';
+import type { HttpInterceptorFn } from '@angular/common/http';
+import { BasicService, TestService } from './services';
+import { API_URL } from './tokens';
+
+export const authGuard: CanActivateFn = () => {
+  const testService = inject(TestService);
+  return !!testService;
+};
+
+export const userResolver: ResolveFn<string> = function () {
+  return inject(API_URL);
+};
+
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const basicService = inject(BasicService, { optional: true });
+  // Repeated inject() of the same token produces a single dependency
+  inject(BasicService);
+  return next(req);
+};
+
+export function provideFeature() {
+  return [{ provide: 'FEATURE', useFactory: () => inject(TestService) }];
+}
+
+// No inject() calls: not a node
+export const plainHelper = () => 'plain';
+
+// Not exported: skipped
+function internalFactory() {
+  return inject(TestService);
+}
@@ -0,0 +1,15 @@
+/**
+ * Test fixtures for duplicate class names across files
+ * LoggerService is also declared in ../providers.ts
+ */
+import { Injectable } from '@angular/core';
+
+@Injectable()
+export class LoggerService {
+  constructor() {}
+}
+
+@Injectable()
+export class LegacyConsumerService {
+  constructor(private logger: LoggerService) {}
+}
@@ -0,0 +1,17 @@
+/**
+ * Test fixtures for @NgModule decorated classes
+ */
+import { NgModule, Optional, SkipSelf } from '@angular/core';
+import { BasicService, TestService } from './services';
+
+@NgModule({})
+export class BasicModule {}
+
+// forRoot guard pattern: services injected in the module constructor
+@NgModule({})
+export class CoreModule {
+  constructor(
+    @Optional() @SkipSelf() parentService: TestService,
+    private basicService: BasicService
+  ) {}
+}
@@ -0,0 +1,41 @@
+/**
+ * Test fixtures for @Pipe decorated classes
+ */
+import { inject, Pipe, type PipeTransform } from '@angular/core';
+import { BasicService, TestService } from './services';
+
+@Pipe({
+  name: 'basic',
+})
+export class BasicPipe implements PipeTransform {
+  constructor(private basicService: BasicService) {}
+
+  transform(value: string): string {
+    return value;
+  }
+}
+
+@Pipe({
+  name: 'injected',
+  standalone: true,
+  pure: false,
+})
+export class InjectedPipe implements PipeTransform {
+  private readonly testService = inject(TestService);
+
+  transform(value: string): string {
+    return value;
+  }
+}
+
+// Different import patterns
+import { Pipe as PipeDecorator } from '@angular/core';
+
+@PipeDecorator({
+  name: 'aliased',
+})
+export class AliasedPipe implements PipeTransform {
+  transform(value: string): string {
+    return value;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Test fixtures for `providers` arrays in @NgModule and @Component metadata
+ */
+import { Component, Injectable, NgModule, Optional } from '@angular/core';
+import { API_CONFIG, BasicService, TestService } from './services';
+
+export const APP_INITIALIZER_TOKEN = 'APP_INITIALIZER_TOKEN';
+
+@Injectable()
+export class LoggerService {
+  constructor() {}
+}
+
+@Injectable()
+export class ConsoleLoggerService {
+  constructor() {}
+}
+
+export function configFactory(basicService: BasicService, testService: TestService) {
+  return { basicService, testService };
+}
+
+export const SHARED_PROVIDERS = [TestService, { provide: 'SHARED_FLAG', useValue: true }];
+
+@NgModule({
+  providers: [
+    BasicService,
+    { provide: LoggerService, useClass: ConsoleLoggerService },
+    { provide: 'LEGACY_LOGGER', useExisting: LoggerService },
+    { provide: API_CONFIG, useValue: { baseUrl: '/api' } },
+    {
+      provide: 'APP_CONFIG',
+      useFactory: configFactory,
+      deps: [BasicService, [new Optional(), TestService]],
+    },
+    { provide: APP_INITIALIZER_TOKEN, useFactory: () => () => true, multi: true },
+    ...SHARED_PROVIDERS,
+  ],
+})
+export class ProvidersModule {}
+
+@Component({
+  selector: 'app-with-providers',
+  template: '<div>Providers</div>',
+  providers: [{ provide: LoggerService, useClass: ConsoleLoggerService }],
+})
+export class ComponentWithProviders {
+  constructor(private logger: LoggerService) {}
+}
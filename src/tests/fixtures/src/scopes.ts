@@ -0,0 +1,21 @@
+/**
+ * Test fixtures for @Injectable providedIn scopes
+ */
+import { Injectable } from '@angular/core';
+import { CoreModule } from './modules';
+import { RootProvidedService } from './services';
+
+@Injectable({ providedIn: 'platform' })
+export class PlatformScopedService {
+  constructor() {}
+}
+
+@Injectable({ providedIn: 'any' })
+export class AnyScopedService {
+  constructor(private rootProvided: RootProvidedService) {}
+}
+
+@Injectable({ providedIn: CoreModule })
+export class ModuleScopedService {
+  constructor() {}
+}
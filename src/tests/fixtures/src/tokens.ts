@@ -0,0 +1,24 @@
+/**
+ * Test fixtures for InjectionToken declarations
+ */
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { BasicService } from './services';
+
+export const API_URL = new InjectionToken<string>('API base url');
+
+export const FEATURE_FLAGS = new InjectionToken<Record<string, boolean>>('feature flags', {
+  providedIn: 'root',
+  factory: () => {
+    const basicService = inject(BasicService);
+    return { enabled: !!basicService };
+  },
+});
+
+// Plain string constant - not an InjectionToken
+export const PLAIN_TOKEN = 'PLAIN_TOKEN';
+
+@Injectable()
+export class ServiceWithInjectionTokens {
+  private flags = inject(FEATURE_FLAGS);
+  constructor(@Inject(API_URL) private apiUrl: string) {}
+}
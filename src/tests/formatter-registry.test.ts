@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CliError } from '../core/error-handler';
+import {
+  createFormatter,
+  getFormatNames,
+  registerFormatter
+} from '../formatters/formatter-registry';
+import { JsonFormatter } from '../formatters/json-formatter';
+import { MermaidFormatter } from '../formatters/mermaid-formatter';
+import type { CliOptions, Graph } from '../types';
+
+describe('Formatter Registry', () => {
+  let tempDir: string;
+
+  const options: CliOptions = {
+    project: './tsconfig.json',
+    format: 'json',
+    direction: 'downstream',
+    includeDecorators: false,
+    verbose: false
+  };
+
+  const graph: Graph = {
+    nodes: [
+      { id: 'AppComponent', kind: 'component' },
+      { id: 'UserService', kind: 'service' }
+    ],
+    edges: [{ from: 'AppComponent', to: 'UserService' }],
+    circularDependencies: []
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-formatter-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should register the built-in formats', async () => {
+    expect(getFormatNames().slice(0, 4)).toEqual(['json', 'mermaid', 'dot', 'html']);
+    expect(await createFormatter('json', options)).toBeInstanceOf(JsonFormatter);
+    expect(await createFormatter('mermaid', options)).toBeInstanceOf(MermaidFormatter);
+  });
+
+  it('should pass the CLI options to built-in formatters', async () => {
+    const result = (await createFormatter('mermaid', { ...options, showProvenance: true })).format({
+      ...graph,
+      edges: [{ from: 'AppComponent', to: 'UserService', parameterName: 'users' }]
+    });
+
+    expect(result).toContain('AppComponent -->|users| UserService');
+  });
+
+  it('should create formatters registered at runtime', async () => {
+    registerFormatter('edge-count', () => ({ format: g => `${g.edges.length} edges` }));
+
+    expect(getFormatNames()).toContain('edge-count');
+    expect((await createFormatter('edge-count', options)).format(graph)).toBe('1 edges');
+  });
+
+  it('should load a formatter factory from a module path relative to the base directory', async () => {
+    writeFileSync(
+      join(tempDir, 'edge-list.js'),
+      [
+        'module.exports = (options) => ({',
+        "  format: (graph) => graph.edges.map((e) => e.from + ' -> ' + e.to + (options.verbose ? ' (verbose)' : '')).join('\\n')",
+        '});'
+      ].join('\n')
+    );
+
+    const formatter = await createFormatter('./edge-list.js', { ...options, verbose: true }, undefined, tempDir);
+
+    expect(formatter.format(graph)).toBe('AppComponent -> UserService (verbose)');
+  });
+
+  it('should load a formatter object from a default export', async () => {
+    const modulePath = join(tempDir, 'node-list.js');
+    writeFileSync(
+      modulePath,
+      [
+        'exports.default = {',
+        "  format: (graph) => graph.nodes.map((node) => node.id).join(',')",
+        '};'
+      ].join('\n')
+    );
+
+    expect((await createFormatter(modulePath, options)).format(graph)).toBe('AppComponent,UserService');
+  });
+
+  it('should load a formatter factory from an ES module', async () => {
+    writeFileSync(
+      join(tempDir, 'edge-count.mjs'),
+      'export default (options) => ({ format: (graph) => `${graph.edges.length} edges (${options.format})` });'
+    );
+
+    const formatter = await createFormatter('./edge-count.mjs', options, undefined, tempDir);
+
+    expect(formatter.format(graph)).toBe('1 edges (json)');
+  });
+
+  it('should load ES-module-only packages that only export an import condition', async () => {
+    const packageDir = join(tempDir, 'node_modules', '@acme', 'graph-formatter');
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(
+      join(packageDir, 'package.json'),
+      JSON.stringify({
+        name: '@acme/graph-formatter',
+        exports: {
+          '.': { import: './index.mjs' },
+          './nodes': { types: './nodes.d.ts', import: './nodes.mjs' }
+        }
+      })
+    );
+    writeFileSync(
+      join(packageDir, 'index.mjs'),
+      'export default () => ({ format: (graph) => `${graph.edges.length} edges` });'
+    );
+    writeFileSync(
+      join(packageDir, 'nodes.mjs'),
+      'export default () => ({ format: (graph) => `${graph.nodes.length} nodes` });'
+    );
+
+    const formatter = await createFormatter('@acme/graph-formatter', options, undefined, tempDir);
+    const nodesFormatter = await createFormatter('@acme/graph-formatter/nodes', options, undefined, tempDir);
+
+    expect(formatter.format(graph)).toBe('1 edges');
+    expect(nodesFormatter.format(graph)).toBe('2 nodes');
+  });
+
+  it('should construct formatter classes with the options and logger', async () => {
+    writeFileSync(
+      join(tempDir, 'node-count.js'),
+      [
+        'module.exports = class NodeCountFormatter {',
+        '  constructor(options) { this.suffix = options.verbose ? \' (verbose)\' : \'\'; }',
+        '  format(graph) { return graph.nodes.length + \' nodes\' + this.suffix; }',
+        '};'
+      ].join('\n')
+    );
+
+    const formatter = await createFormatter('./node-count.js', { ...options, verbose: true }, undefined, tempDir);
+
+    expect(formatter.format(graph)).toBe('2 nodes (verbose)');
+  });
+
+  it('should reject unknown formats and modules that are not formatters', async () => {
+    await expect(createFormatter('svg', options, undefined, tempDir)).rejects.toThrow(CliError);
+    await expect(createFormatter('svg', options, undefined, tempDir)).rejects.toThrow(
+      'Unknown format: svg. Must be one of json, mermaid, dot, html'
+    );
+
+    writeFileSync(join(tempDir, 'invalid.js'), 'module.exports = { name: "not a formatter" };');
+    await expect(createFormatter('./invalid.js', options, undefined, tempDir)).rejects.toThrow(
+      'must export a formatter factory, a formatter class or an object with a format(graph) method'
+    );
+
+    writeFileSync(join(tempDir, 'broken.js'), 'throw new Error("boom");');
+    await expect(createFormatter('./broken.js', options, undefined, tempDir)).rejects.toThrow(
+      'Cannot load formatter module ./broken.js: boom'
+    );
+  });
+});
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, beforeAll, afterAll, vi } from 'vitest';
 import { existsSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { Script, runInNewContext } from 'vm';
 import type { Graph } from '../types';
 import { JsonFormatter } from '../formatters/json-formatter';
 import { MermaidFormatter } from '../formatters/mermaid-formatter';
+import { DotFormatter } from '../formatters/dot-formatter';
+import { HtmlFormatter } from '../formatters/html-formatter';
 import { OutputHandler } from '../core/output-handler';
 import { createLogger, type Logger } from '../core/logger';
 
@@ -51,6 +54,24 @@ describe('Output Formatting', () => {
       expect(parsed).toEqual(emptyGraph);
     });
 
+    it('should preserve pipe and module node kinds', () => {
+      const kindsGraph: Graph = {
+        nodes: [
+          { id: 'src/core.module.ts#CoreModule', label: 'CoreModule', kind: 'module' },
+          { id: 'src/date.pipe.ts#DatePipe', label: 'DatePipe', kind: 'pipe' }
+        ],
+        edges: [{ from: 'src/core.module.ts#CoreModule', to: 'src/date.pipe.ts#DatePipe' }],
+        circularDependencies: []
+      };
+
+      const parsed = JSON.parse(formatter.format(kindsGraph));
+
+      expect(parsed.nodes.map((n: { kind: string }) => n.kind)).toEqual(['module', 'pipe']);
+      expect(new MermaidFormatter().format(kindsGraph)).toContain(
+        'src_core_module_ts_CoreModule --> src_date_pipe_ts_DatePipe'
+      );
+    });
+
     it('should preserve all graph properties', () => {
       const complexGraph: Graph = {
         nodes: [
@@ -112,6 +133,190 @@ describe('Output Formatting', () => {
       expect(result).toContain('Component_With_Dots --> My_Service');
     });
 
+    it('should label provided-by edges', () => {
+      const providerGraph: Graph = {
+        nodes: [
+          { id: 'AppModule', kind: 'unknown' },
+          { id: 'API_URL', kind: 'unknown', providerKinds: ['value'] }
+        ],
+        edges: [
+          { from: 'API_URL', to: 'AppModule', kind: 'provided-by', provider: { kind: 'value' } }
+        ],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(providerGraph);
+
+      expect(result).toContain('API_URL -->|provided-by| AppModule');
+    });
+
+    describe('disambiguate option', () => {
+      const collidingGraph: Graph = {
+        nodes: [
+          { id: 'src/app.component.ts#AppComponent', label: 'AppComponent', kind: 'component' },
+          { id: 'src/a/logger.service.ts#LoggerService', label: 'LoggerService', kind: 'service' },
+          { id: 'src/b/logger.service.ts#LoggerService', label: 'LoggerService', kind: 'service' }
+        ],
+        edges: [
+          { from: 'src/app.component.ts#AppComponent', to: 'src/a/logger.service.ts#LoggerService' },
+          { from: 'src/app.component.ts#AppComponent', to: 'src/b/logger.service.ts#LoggerService' }
+        ],
+        circularDependencies: []
+      };
+
+      it('should show node labels and keep nodes sharing a label apart by default', () => {
+        const result = formatter.format(collidingGraph);
+
+        expect(result).toContain('src_a_logger_service_ts_LoggerService["LoggerService"]');
+        expect(result).toContain('src_b_logger_service_ts_LoggerService["LoggerService"]');
+        expect(result).toContain('src_app_component_ts_AppComponent --> src_a_logger_service_ts_LoggerService');
+        expect(result).toContain('src_app_component_ts_AppComponent --> src_b_logger_service_ts_LoggerService');
+        expect(result).not.toContain('(src/a/logger.service.ts)');
+      });
+
+      it('should qualify only colliding labels with their file path', () => {
+        const result = new MermaidFormatter(undefined, { disambiguate: true }).format(collidingGraph);
+
+        expect(result).toContain(
+          'src_a_logger_service_ts_LoggerService["LoggerService (src/a/logger.service.ts)"]'
+        );
+        expect(result).toContain(
+          'src_b_logger_service_ts_LoggerService["LoggerService (src/b/logger.service.ts)"]'
+        );
+        expect(result).toContain('src_app_component_ts_AppComponent["AppComponent"]');
+        expect(result).toContain('src_app_component_ts_AppComponent --> src_a_logger_service_ts_LoggerService');
+        expect(result).toContain('src_app_component_ts_AppComponent --> src_b_logger_service_ts_LoggerService');
+      });
+    });
+
+    describe('showScope option', () => {
+      const scopedGraph: Graph = {
+        nodes: [
+          { id: 'AppComponent', kind: 'component' },
+          { id: 'UserService', kind: 'service', providedIn: 'root' }
+        ],
+        edges: [{ from: 'AppComponent', to: 'UserService' }],
+        circularDependencies: []
+      };
+
+      it('should not show providedIn by default', () => {
+        const result = formatter.format(scopedGraph);
+
+        expect(result).not.toContain('providedIn');
+        expect(result).toContain('AppComponent --> UserService');
+      });
+
+      it('should show providedIn under the node label when enabled', () => {
+        const result = new MermaidFormatter(undefined, { showScope: true }).format(scopedGraph);
+
+        expect(result).toContain('UserService["UserService<br/>providedIn: root"]');
+        expect(result).not.toContain('AppComponent[');
+        expect(result).toContain('AppComponent --> UserService');
+      });
+    });
+
+    describe('showProvenance option', () => {
+      const provenanceGraph: Graph = {
+        nodes: [
+          { id: 'AppComponent', kind: 'component' },
+          { id: 'UserService', kind: 'service' }
+        ],
+        edges: [
+          {
+            from: 'AppComponent',
+            to: 'UserService',
+            parameterName: 'users',
+            source: 'inject-field',
+            location: { file: 'src/app.component.ts', line: 8, column: 3 }
+          }
+        ],
+        circularDependencies: []
+      };
+
+      it('should not label edges by default', () => {
+        const result = formatter.format(provenanceGraph);
+
+        expect(result).toContain('AppComponent --> UserService');
+        expect(result).not.toContain('users');
+      });
+
+      it('should label edges with their parameter and comment where they are injected', () => {
+        const result = new MermaidFormatter(undefined, { showProvenance: true }).format(
+          provenanceGraph
+        );
+
+        expect(result).toContain(
+          '  %% users (inject-field) at src/app.component.ts:8:3\n  AppComponent -->|users| UserService'
+        );
+      });
+    });
+
+    describe('showMetadata option', () => {
+      const metadataGraph: Graph = {
+        nodes: [
+          {
+            id: 'src/widget.ts#WidgetComponent',
+            label: 'WidgetComponent',
+            kind: 'component',
+            location: { file: 'src/widget.ts', line: 7, column: 14 },
+            exportName: 'default',
+            selector: 'input[type="text"]',
+            standalone: true
+          }
+        ],
+        edges: [],
+        circularDependencies: []
+      };
+
+      it('should not show metadata by default', () => {
+        expect(formatter.format(metadataGraph)).not.toContain('src/widget.ts:7');
+      });
+
+      it('should list selector, standalone flag, export name and location under the label', () => {
+        const result = new MermaidFormatter(undefined, { showMetadata: true }).format(metadataGraph);
+
+        expect(result).toContain(
+          '  src_widget_ts_WidgetComponent["WidgetComponent<br/>selector: input[type=#quot;text#quot;]<br/>standalone: true<br/>export: default<br/>src/widget.ts:7"]'
+        );
+      });
+    });
+
+    it('should group workspace project nodes into subgraphs', () => {
+      const workspaceGraph: Graph = {
+        nodes: [
+          { id: 'apps/shop/app.ts#AppComponent', label: 'AppComponent', kind: 'component', project: 'shop' },
+          { id: 'libs/ui/theme.ts#ThemeService', label: 'ThemeService', kind: 'service', project: 'ui' },
+          { id: 'Router', kind: 'unknown' }
+        ],
+        edges: [
+          { from: 'apps/shop/app.ts#AppComponent', to: 'libs/ui/theme.ts#ThemeService' },
+          { from: 'apps/shop/app.ts#AppComponent', to: 'Router' }
+        ],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(workspaceGraph);
+
+      expect(result).toContain('  subgraph project_shop["shop"]\n    apps_shop_app_ts_AppComponent\n  end');
+      expect(result).toContain('  subgraph project_ui["ui"]\n    libs_ui_theme_ts_ThemeService\n  end');
+      expect(result).not.toContain('    Router');
+      expect(result).toContain('apps_shop_app_ts_AppComponent --> libs_ui_theme_ts_ThemeService');
+    });
+
+    it('should draw nodes truncated by --depth with a dashed border', () => {
+      const result = formatter.format({
+        nodes: [
+          { id: 'AppComponent', kind: 'component' },
+          { id: 'UserService', kind: 'service', truncated: true }
+        ],
+        edges: [{ from: 'AppComponent', to: 'UserService' }],
+        circularDependencies: []
+      });
+
+      expect(result).toContain('  classDef truncated stroke-dasharray: 5 5\n  class UserService truncated');
+      expect(formatter.format(sampleGraph)).not.toContain('classDef truncated');
+    });
+
     it('should include circular dependency annotations', () => {
       const circularGraph: Graph = {
         nodes: [
@@ -160,6 +365,40 @@ describe('Output Formatting', () => {
       expect(result).toContain('%% ServiceA -> ServiceB -> ServiceC -> ServiceA');
     });
 
+    it('should give distinct keys to ids that sanitize to the same key', () => {
+      const result = formatter.format({
+        nodes: [
+          { id: 'src/a_b.ts#Logger', label: 'Logger', kind: 'service' },
+          { id: 'src/a/b.ts#Logger', label: 'Logger', kind: 'service' },
+          { id: 'Token@1', kind: 'unknown' },
+          { id: 'Token$1', kind: 'unknown' }
+        ],
+        edges: [
+          { from: 'src/a_b.ts#Logger', to: 'Token@1' },
+          { from: 'src/a/b.ts#Logger', to: 'Token$1' }
+        ],
+        circularDependencies: []
+      });
+
+      expect(result).toContain('  src_a_b_ts_Logger["Logger"]\n  src_a_b_ts_Logger_2["Logger"]');
+      expect(result).toContain('  Token1["Token@1"]\n  Token1_2["Token$1"]');
+      expect(result).toContain('  src_a_b_ts_Logger --> Token1\n  src_a_b_ts_Logger_2 --> Token1_2');
+    });
+
+    it('should not repeat the first node of closed cycles in comments', () => {
+      const result = formatter.format({
+        nodes: [
+          { id: 'ServiceA', kind: 'service' },
+          { id: 'ServiceB', kind: 'service' }
+        ],
+        edges: [],
+        circularDependencies: [['ServiceA', 'ServiceB', 'ServiceA']]
+      });
+
+      expect(result).toContain('  %% Circular Dependencies Detected:\n  %% ServiceA -> ServiceB -> ServiceA');
+      expect(result).not.toContain('ServiceA -> ServiceA');
+    });
+
     it('should sanitize complex special characters', () => {
       const complexGraph: Graph = {
         nodes: [
@@ -174,12 +413,10 @@ describe('Output Formatting', () => {
 
       const result = formatter.format(complexGraph);
 
-      // Should remove all special characters except alphanumeric and underscore
-      expect(result).toContain('ComponentSpecial');
-      expect(result).toContain('Service123');
-      expect(result).not.toContain('@');
-      expect(result).not.toContain('#');
-      expect(result).not.toContain('$');
+      // Node keys keep only alphanumeric characters and underscores; labels are shown as is
+      expect(result).toContain('Component_Special --> Service123');
+      expect(result).toContain('Component_Special["Component#Special$"]');
+      expect(result).toContain('Service123["Service@123"]');
     });
 
     describe('Logger Integration (Phase 2.3)', () => {
@@ -411,6 +648,344 @@ describe('Output Formatting', () => {
       });
     });
   });
+
+  describe('DotFormatter', () => {
+    let formatter: DotFormatter;
+
+    beforeEach(() => {
+      formatter = new DotFormatter();
+    });
+
+    it('should output a valid digraph', () => {
+      const result = formatter.format(sampleGraph);
+
+      expect(result.startsWith('digraph DependencyGraph {')).toBe(true);
+      expect(result.endsWith('}')).toBe(true);
+      expect(result).toContain('rankdir=LR;');
+      expect(result).toContain('"TestComponent" -> "TestService";');
+      expect(result).toContain('"TestComponent" -> "AnotherService";');
+    });
+
+    it('should use node shapes and colours per kind', () => {
+      const result = formatter.format(sampleGraph);
+
+      expect(result).toContain(
+        '"TestService" [label="TestService", shape=box, fillcolor="#cfe2ff"];'
+      );
+      expect(result).toContain(
+        '"TestComponent" [label="TestComponent", shape=component, fillcolor="#d1e7dd"];'
+      );
+    });
+
+    it('should use labels for display and quote file-qualified ids', () => {
+      const graph: Graph = {
+        nodes: [
+          { id: 'src/app.component.ts#AppComponent', label: 'AppComponent', kind: 'component' },
+          { id: 'API "v2"', kind: 'unknown' }
+        ],
+        edges: [{ from: 'src/app.component.ts#AppComponent', to: 'API "v2"' }],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(graph);
+
+      expect(result).toContain('"src/app.component.ts#AppComponent" [label="AppComponent"');
+      expect(result).toContain(
+        '"API \\"v2\\"" [label="API \\"v2\\"", shape=box, fillcolor="#e9ecef", style="filled,dashed"];'
+      );
+      expect(result).toContain('"src/app.component.ts#AppComponent" -> "API \\"v2\\"";');
+    });
+
+    it('should give nodes truncated by --depth a double border', () => {
+      const result = formatter.format({
+        nodes: [{ id: 'UserService', kind: 'service', truncated: true }],
+        edges: [],
+        circularDependencies: []
+      });
+
+      expect(result).toContain(
+        '"UserService" [label="UserService", shape=box, fillcolor="#cfe2ff", peripheries=2];'
+      );
+    });
+
+    it('should cluster workspace project nodes', () => {
+      const graph: Graph = {
+        nodes: [
+          { id: 'apps/shop/app.ts#AppComponent', label: 'AppComponent', kind: 'component', project: 'shop' },
+          { id: 'Router', kind: 'unknown' }
+        ],
+        edges: [{ from: 'apps/shop/app.ts#AppComponent', to: 'Router' }],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(graph);
+
+      expect(result).toContain(
+        [
+          '  subgraph "cluster_shop" {',
+          '    label="shop";',
+          '    "apps/shop/app.ts#AppComponent" [label="AppComponent", shape=component, fillcolor="#d1e7dd"];',
+          '  }'
+        ].join('\n')
+      );
+      expect(result).toContain('\n  "Router" [label="Router"');
+    });
+
+    it('should draw circular edges dashed and list cycles as comments', () => {
+      const circularGraph: Graph = {
+        nodes: [
+          { id: 'ServiceA', kind: 'service' },
+          { id: 'ServiceB', kind: 'service' }
+        ],
+        edges: [
+          { from: 'ServiceA', to: 'ServiceB', flags: {}, isCircular: true },
+          { from: 'ServiceB', to: 'ServiceA', flags: {}, isCircular: true }
+        ],
+        circularDependencies: [['ServiceA', 'ServiceB']]
+      };
+
+      const result = formatter.format(circularGraph);
+
+      expect(result).toContain(
+        '"ServiceA" -> "ServiceB" [style=dashed, color="#d62728", label="circular"];'
+      );
+      expect(result).toContain('// ServiceA -> ServiceB -> ServiceA');
+    });
+
+    it('should not repeat the first node of closed cycles in comments', () => {
+      const result = formatter.format({
+        nodes: [
+          { id: 'ServiceA', kind: 'service' },
+          { id: 'ServiceB', kind: 'service' },
+          { id: 'ServiceC', kind: 'service' }
+        ],
+        edges: [],
+        circularDependencies: [
+          ['ServiceA', 'ServiceB', 'ServiceA'],
+          ['ServiceC', 'ServiceC']
+        ]
+      });
+
+      expect(result).toContain(
+        '  // Circular Dependencies Detected:\n  // ServiceA -> ServiceB -> ServiceA\n  // ServiceC -> ServiceC\n}'
+      );
+    });
+
+    it('should label edges with flags only when includeDecorators is set', () => {
+      const flaggedGraph: Graph = {
+        nodes: [
+          { id: 'ServiceA', kind: 'service' },
+          { id: 'ServiceB', kind: 'service' }
+        ],
+        edges: [{ from: 'ServiceA', to: 'ServiceB', flags: { skipSelf: true, optional: true } }],
+        circularDependencies: []
+      };
+
+      expect(formatter.format(flaggedGraph)).toContain('"ServiceA" -> "ServiceB";');
+      expect(
+        new DotFormatter(undefined, { includeDecorators: true }).format(flaggedGraph)
+      ).toContain('"ServiceA" -> "ServiceB" [label="optional, skipSelf"];');
+    });
+
+    it('should show node metadata as extra label lines with showMetadata', () => {
+      const metadataGraph: Graph = {
+        nodes: [
+          {
+            id: 'TestComponent',
+            kind: 'component',
+            location: { file: 'src/components.ts', line: 58, column: 14 },
+            exportName: 'TestComponent',
+            selector: 'app-test'
+          }
+        ],
+        edges: [],
+        circularDependencies: []
+      };
+
+      expect(formatter.format(metadataGraph)).not.toContain('app-test');
+      expect(new DotFormatter(undefined, { showMetadata: true }).format(metadataGraph)).toContain(
+        'label="TestComponent\\nselector: app-test\\nsrc/components.ts:58"'
+      );
+    });
+
+    it('should draw provided-by edges dotted', () => {
+      const providerGraph: Graph = {
+        nodes: [
+          { id: 'AppModule', kind: 'module' },
+          { id: 'API_URL', kind: 'token', providerKinds: ['value'] }
+        ],
+        edges: [
+          { from: 'API_URL', to: 'AppModule', kind: 'provided-by', provider: { kind: 'value' } }
+        ],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(providerGraph);
+
+      expect(result).toContain('"API_URL" -> "AppModule" [style=dotted, label="provided-by"];');
+      expect(result).toContain('shape=folder');
+      expect(result).toContain('shape=note');
+    });
+
+    it('should handle empty graph gracefully', () => {
+      const result = formatter.format({ nodes: [], edges: [], circularDependencies: [] });
+
+      expect(result).toContain('digraph DependencyGraph {');
+      expect(result).toContain('// Empty graph - no nodes to display');
+      expect(result.endsWith('}')).toBe(true);
+    });
+  });
+
+  describe('HtmlFormatter', () => {
+    let formatter: HtmlFormatter;
+
+    const extractGraphData = (html: string) => {
+      const match = html.match(/<script type="application\/json" id="graph-data">([\s\S]*?)<\/script>/);
+      expect(match).not.toBeNull();
+      return JSON.parse(match?.[1] ?? '');
+    };
+
+    beforeEach(() => {
+      formatter = new HtmlFormatter();
+    });
+
+    it('should output a self-contained HTML document', () => {
+      const result = formatter.format(sampleGraph);
+
+      expect(result.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(result).toContain('<svg id="canvas"');
+      expect(result).toContain('id="search"');
+      expect(result).toContain('id="direction"');
+      expect(result).not.toMatch(/<script[^>]*\ssrc=/);
+      expect(result).not.toMatch(/<link[^>]*href=/);
+      expect(result).not.toContain('https://');
+    });
+
+    it('should embed the graph and a layout for every node', () => {
+      const data = extractGraphData(formatter.format(sampleGraph));
+
+      expect(data.graph).toEqual(sampleGraph);
+      expect(Object.keys(data.layout.nodes).sort()).toEqual([
+        'AnotherService',
+        'TestComponent',
+        'TestService'
+      ]);
+    });
+
+    it('should place dependencies to the right of their consumers', () => {
+      const data = extractGraphData(formatter.format(sampleGraph));
+      const { nodes } = data.layout;
+
+      expect(nodes.TestService.x).toBeGreaterThan(nodes.TestComponent.x);
+      expect(nodes.AnotherService.x).toBe(nodes.TestService.x);
+      expect(nodes.AnotherService.y).not.toBe(nodes.TestService.y);
+    });
+
+    it('should lay out circular graphs', () => {
+      const circularGraph: Graph = {
+        nodes: [
+          { id: 'ServiceA', kind: 'service' },
+          { id: 'ServiceB', kind: 'service' }
+        ],
+        edges: [
+          { from: 'ServiceA', to: 'ServiceB', flags: {} },
+          { from: 'ServiceB', to: 'ServiceA', flags: {} }
+        ],
+        circularDependencies: [['ServiceA', 'ServiceB']]
+      };
+
+      const data = extractGraphData(formatter.format(circularGraph));
+
+      expect(Object.keys(data.layout.nodes)).toHaveLength(2);
+      expect(data.graph.circularDependencies).toEqual([['ServiceA', 'ServiceB']]);
+    });
+
+    it('should escape embedded data so it cannot close the script element', () => {
+      const graph: Graph = {
+        nodes: [{ id: '</script><script>alert(1)</script>', kind: 'unknown' }],
+        edges: [],
+        circularDependencies: []
+      };
+
+      const result = formatter.format(graph);
+
+      expect(result.match(/<\/script>/g)).toHaveLength(2);
+      expect(extractGraphData(result).graph).toEqual(graph);
+    });
+
+    it('should list closed cycles without repeating their first node', () => {
+      // Minimal DOM: elements record children and text, anything else is a no-op
+      type StubElement = { children: StubElement[]; textContent: string; [key: string]: unknown };
+      const createElement = (): StubElement => {
+        const element: StubElement = {
+          children: [],
+          textContent: '',
+          value: '',
+          style: {},
+          classList: { add: () => {}, remove: () => {}, toggle: () => {}, contains: () => false },
+          appendChild: (child: StubElement) => {
+            element.children.push(child);
+            return child;
+          },
+          getBoundingClientRect: () => ({ left: 0, top: 0, width: 800, height: 600 })
+        };
+        return new Proxy(element, {
+          get: (target, property) => (property in target ? target[property as string] : () => {})
+        });
+      };
+      const html = formatter.format({
+        nodes: [
+          { id: 'src/a.ts#ServiceA', label: 'ServiceA', kind: 'service' },
+          { id: 'src/b.ts#ServiceB', label: 'ServiceB', kind: 'service' }
+        ],
+        edges: [
+          { from: 'src/a.ts#ServiceA', to: 'src/b.ts#ServiceB', isCircular: true },
+          { from: 'src/b.ts#ServiceB', to: 'src/a.ts#ServiceA', isCircular: true }
+        ],
+        circularDependencies: [['src/a.ts#ServiceA', 'src/b.ts#ServiceB', 'src/a.ts#ServiceA']]
+      });
+      const elements = new Map<string, StubElement>();
+      const document = {
+        getElementById: (id: string) => {
+          if (!elements.has(id)) {
+            elements.set(id, createElement());
+          }
+          return elements.get(id);
+        },
+        createElement,
+        createElementNS: createElement,
+        createTextNode: (text: string) => ({ textContent: text })
+      };
+      const graphData = html.match(/<script type="application\/json" id="graph-data">([\s\S]*?)<\/script>/)?.[1];
+      document.getElementById('graph-data').textContent = graphData ?? '';
+
+      runInNewContext(html.match(/<script>([\s\S]*?)<\/script>/)?.[1] ?? '', {
+        document,
+        window: { addEventListener: () => {} },
+        setTimeout
+      });
+
+      expect(elements.get('cycles')?.children.map(item => item.textContent)).toEqual([
+        'ServiceA -> ServiceB -> ServiceA'
+      ]);
+    });
+
+    it('should embed a viewer script that is valid JavaScript', () => {
+      const result = formatter.format(sampleGraph);
+      const script = result.match(/<script>([\s\S]*?)<\/script>/)?.[1] ?? '';
+
+      expect(script).toContain('circularDependencies');
+      expect(() => new Script(script)).not.toThrow();
+    });
+
+    it('should handle empty graph gracefully', () => {
+      const data = extractGraphData(
+        formatter.format({ nodes: [], edges: [], circularDependencies: [] })
+      );
+
+      expect(data.layout).toEqual({ nodeHeight: 32, width: 0, height: 0, nodes: {} });
+    });
+  });
 });
 
 describe('File Output Handling', () => {
@@ -24,7 +24,7 @@ describe('GraphBuilder', () => {
       ];
       const result: Graph = buildGraph(parsedClasses);
       expect(result.nodes).toEqual([
-        { id: 'UserService', kind: 'service' }
+        { id: '/src/user.service.ts#UserService', label: 'UserService', kind: 'service' }
       ]);
       expect(result.edges).toEqual([]);
       expect(result.circularDependencies).toEqual([]);
@@ -52,11 +52,15 @@ describe('GraphBuilder', () => {
       ];
       const result: Graph = buildGraph(parsedClasses);
       expect(result.nodes).toEqual([
-        { id: 'UserComponent', kind: 'component' },
-        { id: 'UserService', kind: 'service' }
+        { id: '/src/user.component.ts#UserComponent', label: 'UserComponent', kind: 'component' },
+        { id: '/src/user.service.ts#UserService', label: 'UserService', kind: 'service' }
       ]);
       expect(result.edges).toEqual([
-        { from: 'UserComponent', to: 'UserService' }
+        {
+          from: '/src/user.component.ts#UserComponent',
+          to: '/src/user.service.ts#UserService',
+          parameterName: 'userService'
+        }
       ]);
       expect(result.circularDependencies).toEqual([]);
     });
@@ -77,11 +81,15 @@ describe('GraphBuilder', () => {
       ];
       const result: Graph = buildGraph(parsedClasses);
       expect(result.nodes).toEqual([
-        { id: 'MissingService', kind: 'unknown' },
-        { id: 'UserComponent', kind: 'component' }
+        { id: '/src/user.component.ts#UserComponent', label: 'UserComponent', kind: 'component' },
+        { id: 'MissingService', label: 'MissingService', kind: 'unknown' }
       ]);
       expect(result.edges).toEqual([
-        { from: 'UserComponent', to: 'MissingService' }
+        {
+          from: '/src/user.component.ts#UserComponent',
+          to: 'MissingService',
+          parameterName: 'missingService'
+        }
       ]);
       expect(result.circularDependencies).toEqual([]);
     });
@@ -113,12 +121,13 @@ describe('GraphBuilder', () => {
       const result: Graph = buildGraph(parsedClasses);
       expect(result.edges).toEqual([
         {
-          from: 'UserComponent',
-          to: 'UserService',
+          from: '/src/user.component.ts#UserComponent',
+          to: '/src/user.service.ts#UserService',
           flags: {
             optional: true,
             self: true
-          }
+          },
+          parameterName: 'userService'
         }
       ]);
     });
@@ -156,8 +165,9 @@ describe('GraphBuilder', () => {
       ];
       const result: Graph = buildGraph(parsedClasses);
       expect(result.nodes).toHaveLength(3);
-      expect(result.nodes.find(n => n.id === 'SharedService')).toEqual({
-        id: 'SharedService',
+      expect(result.nodes.find(n => n.label === 'SharedService')).toEqual({
+        id: '/src/shared.service.ts#SharedService',
+        label: 'SharedService',
         kind: 'service'
       });
       expect(result.edges).toHaveLength(2);
@@ -185,13 +195,14 @@ describe('GraphBuilder', () => {
       ];
       const result: Graph = buildGraph(parsedClasses);
       // Nodes should be sorted alphabetically by id
-      expect(result.nodes[0].id).toBe('AComponent');
-      expect(result.nodes[1].id).toBe('ZService');
+      expect(result.nodes[0].id).toBe('/src/a.component.ts#AComponent');
+      expect(result.nodes[1].id).toBe('/src/z.service.ts#ZService');
       
       // Edges should be sorted by from, then by to
       expect(result.edges[0]).toEqual({
-        from: 'AComponent',
-        to: 'ZService'
+        from: '/src/a.component.ts#AComponent',
+        to: '/src/z.service.ts#ZService',
+        parameterName: 'zService'
       });
     });
 
@@ -223,11 +234,11 @@ describe('GraphBuilder', () => {
         ];
         const result: Graph = buildGraph(parsedClasses);
         expect(result.circularDependencies).toHaveLength(1);
-        expect(result.circularDependencies[0]).toEqual(['ServiceA', 'ServiceB', 'ServiceA']);
+        expect(result.circularDependencies[0]).toEqual(['/src/service-a.ts#ServiceA', '/src/service-b.ts#ServiceB', '/src/service-a.ts#ServiceA']);
         
         // Check that edges are marked as circular
-        const edgeAtoB = result.edges.find(e => e.from === 'ServiceA' && e.to === 'ServiceB');
-        const edgeBtoA = result.edges.find(e => e.from === 'ServiceB' && e.to === 'ServiceA');
+        const edgeAtoB = result.edges.find(e => e.from === '/src/service-a.ts#ServiceA' && e.to === '/src/service-b.ts#ServiceB');
+        const edgeBtoA = result.edges.find(e => e.from === '/src/service-b.ts#ServiceB' && e.to === '/src/service-a.ts#ServiceA');
         expect(edgeAtoB?.isCircular).toBe(true);
         expect(edgeBtoA?.isCircular).toBe(true);
       });
@@ -270,13 +281,13 @@ describe('GraphBuilder', () => {
         ];
         const result: Graph = buildGraph(parsedClasses);
         expect(result.circularDependencies).toHaveLength(1);
-        expect(result.circularDependencies[0]).toEqual(['ServiceA', 'ServiceB', 'ServiceC', 'ServiceA']);
+        expect(result.circularDependencies[0]).toEqual(['/src/service-a.ts#ServiceA', '/src/service-b.ts#ServiceB', '/src/service-c.ts#ServiceC', '/src/service-a.ts#ServiceA']);
         
         // Check that all edges in the cycle are marked as circular
         const edges = result.edges;
-        expect(edges.find(e => e.from === 'ServiceA' && e.to === 'ServiceB')?.isCircular).toBe(true);
-        expect(edges.find(e => e.from === 'ServiceB' && e.to === 'ServiceC')?.isCircular).toBe(true);
-        expect(edges.find(e => e.from === 'ServiceC' && e.to === 'ServiceA')?.isCircular).toBe(true);
+        expect(edges.find(e => e.from === '/src/service-a.ts#ServiceA' && e.to === '/src/service-b.ts#ServiceB')?.isCircular).toBe(true);
+        expect(edges.find(e => e.from === '/src/service-b.ts#ServiceB' && e.to === '/src/service-c.ts#ServiceC')?.isCircular).toBe(true);
+        expect(edges.find(e => e.from === '/src/service-c.ts#ServiceC' && e.to === '/src/service-a.ts#ServiceA')?.isCircular).toBe(true);
       });
 
       it('should detect multiple separate circular dependencies', () => {
@@ -333,8 +344,8 @@ describe('GraphBuilder', () => {
         
         // Check both cycles are detected
         const cycles = result.circularDependencies.sort((a, b) => a[0].localeCompare(b[0]));
-        expect(cycles[0]).toEqual(['ServiceA', 'ServiceB', 'ServiceA']);
-        expect(cycles[1]).toEqual(['ServiceC', 'ServiceD', 'ServiceC']);
+        expect(cycles[0]).toEqual(['/src/service-a.ts#ServiceA', '/src/service-b.ts#ServiceB', '/src/service-a.ts#ServiceA']);
+        expect(cycles[1]).toEqual(['/src/service-c.ts#ServiceC', '/src/service-d.ts#ServiceD', '/src/service-c.ts#ServiceC']);
       });
 
       it('should handle self-referencing dependencies', () => {
@@ -353,13 +364,40 @@ describe('GraphBuilder', () => {
         ];
         const result: Graph = buildGraph(parsedClasses);
         expect(result.circularDependencies).toHaveLength(1);
-        expect(result.circularDependencies[0]).toEqual(['SelfService', 'SelfService']);
+        expect(result.circularDependencies[0]).toEqual(['/src/self-service.ts#SelfService', '/src/self-service.ts#SelfService']);
         
         // Check that the self-edge is marked as circular
-        const selfEdge = result.edges.find(e => e.from === 'SelfService' && e.to === 'SelfService');
+        const selfEdge = result.edges.find(e => e.from === '/src/self-service.ts#SelfService' && e.to === '/src/self-service.ts#SelfService');
         expect(selfEdge?.isCircular).toBe(true);
       });
 
+      it('should list overlapping cycles regardless of class order', () => {
+        const service = (name: string, tokens: string[]): ParsedClass => ({
+          name,
+          kind: 'service' as NodeKind,
+          filePath: `/src/${name.toLowerCase()}.ts`,
+          dependencies: tokens.map(token => ({ token, parameterName: token.toLowerCase() }))
+        });
+        // A -> B -> D -> A and A -> C -> D -> A share the D -> A edge
+        const parsedClasses: ParsedClass[] = [
+          service('ServiceA', ['ServiceB', 'ServiceC']),
+          service('ServiceB', ['ServiceD']),
+          service('ServiceC', ['ServiceD']),
+          service('ServiceD', ['ServiceA'])
+        ];
+
+        const result: Graph = buildGraph(parsedClasses);
+        const reversed: Graph = buildGraph([...parsedClasses].reverse());
+
+        expect(result.circularDependencies).toEqual([
+          ['/src/servicea.ts#ServiceA', '/src/serviceb.ts#ServiceB', '/src/serviced.ts#ServiceD', '/src/servicea.ts#ServiceA'],
+          ['/src/servicea.ts#ServiceA', '/src/servicec.ts#ServiceC', '/src/serviced.ts#ServiceD', '/src/servicea.ts#ServiceA']
+        ]);
+        expect(result.edges.every(edge => edge.isCircular)).toBe(true);
+        expect(reversed.circularDependencies).toEqual(result.circularDependencies);
+        expect(reversed.edges).toEqual(result.edges);
+      });
+
       it('should not mark non-circular edges as circular', () => {
         const parsedClasses: ParsedClass[] = [
           {
@@ -573,6 +611,298 @@ describe('GraphBuilder', () => {
     });
   });
 
+  describe('provider registrations', () => {
+    it('should create provided-by edges and provider kinds on token nodes', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          name: 'AppModule',
+          kind: 'unknown',
+          filePath: '/src/app.module.ts',
+          dependencies: [],
+          providers: [
+            { token: 'LoggerService', kind: 'class', target: 'ConsoleLogger' },
+            { token: 'API_URL', kind: 'value' },
+            { token: 'HTTP_INTERCEPTORS', kind: 'class', target: 'AuthInterceptor', multi: true }
+          ]
+        },
+        {
+          name: 'LoggerService',
+          kind: 'service',
+          filePath: '/src/logger.service.ts',
+          dependencies: []
+        }
+      ];
+
+      const result = buildGraph(parsedClasses);
+
+      expect(result.nodes.find(n => n.label === 'LoggerService')).toEqual({
+        id: '/src/logger.service.ts#LoggerService',
+        label: 'LoggerService',
+        kind: 'service',
+        providerKinds: ['class']
+      });
+      expect(result.nodes.find(n => n.id === 'API_URL')).toEqual({
+        id: 'API_URL',
+        label: 'API_URL',
+        kind: 'unknown',
+        providerKinds: ['value']
+      });
+      expect(result.edges).toContainEqual({
+        from: 'API_URL',
+        to: '/src/app.module.ts#AppModule',
+        kind: 'provided-by',
+        provider: { kind: 'value' }
+      });
+      expect(result.edges).toContainEqual({
+        from: 'HTTP_INTERCEPTORS',
+        to: '/src/app.module.ts#AppModule',
+        kind: 'provided-by',
+        provider: { kind: 'class', multi: true }
+      });
+      expect(result.edges).toContainEqual({
+        from: '/src/logger.service.ts#LoggerService',
+        to: 'ConsoleLogger'
+      });
+    });
+
+    it('should add resolution edges for factory deps without duplicates', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          name: 'ModuleA',
+          kind: 'unknown',
+          filePath: '/src/a.module.ts',
+          dependencies: [],
+          providers: [{ token: 'CONFIG', kind: 'factory', deps: ['HttpClient', 'Env'] }]
+        },
+        {
+          name: 'ModuleB',
+          kind: 'unknown',
+          filePath: '/src/b.module.ts',
+          dependencies: [],
+          providers: [{ token: 'CONFIG', kind: 'factory', deps: ['HttpClient'] }]
+        }
+      ];
+
+      const result = buildGraph(parsedClasses);
+
+      expect(result.edges.filter(e => e.from === 'CONFIG' && e.to === 'HttpClient')).toHaveLength(1);
+      expect(result.edges.filter(e => e.kind === 'provided-by')).toHaveLength(2);
+      expect(result.nodes.find(n => n.id === 'CONFIG')?.providerKinds).toEqual(['factory']);
+    });
+
+    it('should not report provided-by edges as circular dependencies', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          name: 'UserComponent',
+          kind: 'component',
+          filePath: '/src/user.component.ts',
+          dependencies: [{ token: 'UserService', parameterName: 'userService' }],
+          providers: [{ token: 'UserService', kind: 'class' }]
+        },
+        {
+          name: 'UserService',
+          kind: 'service',
+          filePath: '/src/user.service.ts',
+          dependencies: []
+        }
+      ];
+
+      const result = buildGraph(parsedClasses);
+
+      expect(result.circularDependencies).toEqual([]);
+      expect(result.edges.every(e => !e.isCircular)).toBe(true);
+    });
+
+    it('should only mark injection edges of a cycle as circular', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          name: 'UserComponent',
+          kind: 'component',
+          filePath: '/src/user.component.ts',
+          dependencies: [{ token: 'UserService', parameterName: 'userService' }],
+          providers: [{ token: 'UserService', kind: 'class' }]
+        },
+        {
+          name: 'UserService',
+          kind: 'service',
+          filePath: '/src/user.service.ts',
+          dependencies: [{ token: 'UserComponent', parameterName: 'component' }]
+        }
+      ];
+
+      const result = buildGraph(parsedClasses);
+      const serviceEdges = result.edges.filter(e => e.from === '/src/user.service.ts#UserService');
+
+      expect(serviceEdges.map(e => [e.kind, e.isCircular])).toEqual([
+        [undefined, true],
+        ['provided-by', undefined]
+      ]);
+    });
+
+    it('should reject providers without a valid token', () => {
+      const parsedClasses = [
+        {
+          name: 'AppModule',
+          kind: 'unknown',
+          filePath: '/src/app.module.ts',
+          dependencies: [],
+          providers: [{ token: '', kind: 'class' }]
+        }
+      ] as ParsedClass[];
+
+      expect(() => buildGraph(parsedClasses)).toThrow('ParsedProvider must have a valid token property');
+    });
+  });
+
+  describe('node identity', () => {
+    const duplicateClasses: ParsedClass[] = [
+      {
+        name: 'LoggerService',
+        kind: 'service',
+        filePath: '/app/src/feature-a/logger.service.ts',
+        dependencies: []
+      },
+      {
+        name: 'LoggerService',
+        kind: 'service',
+        filePath: '/app/src/feature-b/logger.service.ts',
+        dependencies: []
+      },
+      {
+        name: 'FeatureBComponent',
+        kind: 'component',
+        filePath: '/app/src/feature-b/feature-b.component.ts',
+        dependencies: [
+          {
+            token: 'LoggerService',
+            parameterName: 'logger',
+            tokenFilePath: '/app/src/feature-b/logger.service.ts'
+          }
+        ]
+      }
+    ];
+
+    it('should keep same-named classes from different files as separate nodes', () => {
+      const result = buildGraph(duplicateClasses);
+
+      expect(result.nodes.filter(n => n.label === 'LoggerService').map(n => n.id)).toEqual([
+        '/app/src/feature-a/logger.service.ts#LoggerService',
+        '/app/src/feature-b/logger.service.ts#LoggerService'
+      ]);
+      expect(result.edges).toEqual([
+        {
+          from: '/app/src/feature-b/feature-b.component.ts#FeatureBComponent',
+          to: '/app/src/feature-b/logger.service.ts#LoggerService',
+          parameterName: 'logger'
+        }
+      ]);
+    });
+
+    it('should make node ids relative to rootDir', () => {
+      const result = buildGraph(duplicateClasses, undefined, { rootDir: '/app' });
+
+      expect(result.nodes.map(n => n.id)).toEqual([
+        'src/feature-a/logger.service.ts#LoggerService',
+        'src/feature-b/feature-b.component.ts#FeatureBComponent',
+        'src/feature-b/logger.service.ts#LoggerService'
+      ]);
+    });
+
+    it('should tag nodes with their workspace project', () => {
+      const parsedClasses: ParsedClass[] = [
+        { ...duplicateClasses[0], project: 'feature-a' },
+        { ...duplicateClasses[2], dependencies: [{ token: 'Router', parameterName: 'router' }] }
+      ];
+
+      const result = buildGraph(parsedClasses, undefined, { rootDir: '/app' });
+
+      expect(result.nodes.map(n => [n.id, n.project])).toEqual([
+        ['Router', undefined],
+        ['src/feature-a/logger.service.ts#LoggerService', 'feature-a'],
+        ['src/feature-b/feature-b.component.ts#FeatureBComponent', undefined]
+      ]);
+    });
+
+    it('should keep the injection source and a rootDir-relative location on edges', () => {
+      const parsedClasses: ParsedClass[] = [
+        duplicateClasses[1],
+        {
+          ...duplicateClasses[2],
+          dependencies: [
+            {
+              ...duplicateClasses[2].dependencies[0],
+              source: '@Inject',
+              location: { file: '/app/src/feature-b/feature-b.component.ts', line: 12, column: 15 }
+            }
+          ]
+        }
+      ];
+
+      expect(buildGraph(parsedClasses, undefined, { rootDir: '/app' }).edges).toEqual([
+        {
+          from: 'src/feature-b/feature-b.component.ts#FeatureBComponent',
+          to: 'src/feature-b/logger.service.ts#LoggerService',
+          parameterName: 'logger',
+          source: '@Inject',
+          location: { file: 'src/feature-b/feature-b.component.ts', line: 12, column: 15 }
+        }
+      ]);
+    });
+
+    it('should keep declaration metadata and a rootDir-relative location on nodes', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          ...duplicateClasses[2],
+          dependencies: [],
+          location: { file: '/app/src/feature-b/feature-b.component.ts', line: 9, column: 14 },
+          exportName: 'FeatureBComponent',
+          selector: 'app-feature-b',
+          standalone: true
+        }
+      ];
+
+      expect(buildGraph(parsedClasses, undefined, { rootDir: '/app' }).nodes).toEqual([
+        {
+          id: 'src/feature-b/feature-b.component.ts#FeatureBComponent',
+          label: 'FeatureBComponent',
+          kind: 'component',
+          location: { file: 'src/feature-b/feature-b.component.ts', line: 9, column: 14 },
+          exportName: 'FeatureBComponent',
+          selector: 'app-feature-b',
+          standalone: true
+        }
+      ]);
+    });
+
+    it('should prefer the referencing file when a token without declaration file is ambiguous', () => {
+      const parsedClasses: ParsedClass[] = [
+        ...duplicateClasses.slice(0, 2),
+        {
+          name: 'LoggerService',
+          kind: 'service',
+          filePath: '/app/src/feature-c/feature-c.ts',
+          dependencies: []
+        },
+        {
+          name: 'FeatureCComponent',
+          kind: 'component',
+          filePath: '/app/src/feature-c/feature-c.ts',
+          dependencies: [{ token: 'LoggerService', parameterName: 'logger' }]
+        }
+      ];
+
+      const result = buildGraph(parsedClasses);
+
+      expect(result.edges).toEqual([
+        {
+          from: '/app/src/feature-c/feature-c.ts#FeatureCComponent',
+          to: '/app/src/feature-c/feature-c.ts#LoggerService',
+          parameterName: 'logger'
+        }
+      ]);
+    });
+  });
+
   describe('EdgeFlags enhancement', () => {
     it('should handle multiple decorators on same parameter', () => {
       const parsedClasses: ParsedClass[] = [
@@ -751,11 +1081,11 @@ describe('GraphBuilder', () => {
       expect(result.circularDependencies).toHaveLength(1);
       expect(result.edges).toHaveLength(2);
       
-      const edgeAtoB = result.edges.find(e => e.from === 'CircularServiceA');
+      const edgeAtoB = result.edges.find(e => e.from === '/src/circular-a.service.ts#CircularServiceA');
       expect(edgeAtoB?.flags).toEqual({ optional: true });
       expect(edgeAtoB?.isCircular).toBe(true);
       
-      const edgeBtoA = result.edges.find(e => e.from === 'CircularServiceB');
+      const edgeBtoA = result.edges.find(e => e.from === '/src/circular-b.service.ts#CircularServiceB');
       expect(edgeBtoA?.flags).toEqual({ self: true });
       expect(edgeBtoA?.isCircular).toBe(true);
     });
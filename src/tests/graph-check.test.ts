@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { buildGraph } from '../core/graph-builder';
+import { checkGraph, formatCheckReport } from '../core/graph-check';
+import type { Graph, StructuredWarnings } from '../types';
+
+describe('checkGraph', () => {
+  // Graph with one cycle (A <-> B) and one unknown dependency
+  const graph: Graph = {
+    nodes: [
+      { id: 'src/a.ts#ServiceA', label: 'ServiceA', kind: 'service' },
+      { id: 'src/b.ts#ServiceB', label: 'ServiceB', kind: 'service' },
+      { id: 'MissingToken', label: 'MissingToken', kind: 'unknown' }
+    ],
+    edges: [
+      { from: 'src/a.ts#ServiceA', to: 'src/b.ts#ServiceB', isCircular: true },
+      { from: 'src/b.ts#ServiceB', to: 'src/a.ts#ServiceA', isCircular: true },
+      { from: 'src/b.ts#ServiceB', to: 'MissingToken' }
+    ],
+    circularDependencies: [['src/a.ts#ServiceA', 'src/b.ts#ServiceB', 'src/a.ts#ServiceA']]
+  };
+
+  const cleanGraph: Graph = {
+    nodes: [
+      { id: 'src/a.ts#ServiceA', label: 'ServiceA', kind: 'service' },
+      { id: 'src/b.ts#ServiceB', label: 'ServiceB', kind: 'service' }
+    ],
+    edges: [{ from: 'src/a.ts#ServiceA', to: 'src/b.ts#ServiceB' }],
+    circularDependencies: []
+  };
+
+  const warnings: StructuredWarnings = {
+    categories: {
+      typeResolution: [],
+      skippedTypes: [],
+      unresolvedImports: [],
+      circularReferences: [],
+      performance: [],
+      nameCollisions: []
+    },
+    totalCount: 2
+  };
+
+  it('should fail the cycles rule when cycles exceed the maximum', () => {
+    const result = checkGraph(graph, { failOn: ['cycles'], maxCycles: 0 });
+
+    expect(result.passed).toBe(false);
+    expect(result.failedRules).toEqual(['cycles']);
+    expect(result.cycles).toEqual([
+      {
+        nodes: ['src/a.ts#ServiceA', 'src/b.ts#ServiceB'],
+        edges: [
+          { from: 'src/a.ts#ServiceA', to: 'src/b.ts#ServiceB' },
+          { from: 'src/b.ts#ServiceB', to: 'src/a.ts#ServiceA' }
+        ]
+      }
+    ]);
+  });
+
+  it('should tolerate cycles up to maxCycles', () => {
+    const result = checkGraph(graph, { failOn: ['cycles'], maxCycles: 1 });
+
+    expect(result.passed).toBe(true);
+    expect(result.failedRules).toEqual([]);
+    expect(result.cycles).toHaveLength(1);
+  });
+
+  it('should treat truncated cycle lists as lower bounds', () => {
+    // Every service injects the two others: 5 elementary cycles, 2 of them listed
+    const ids = ['A', 'B', 'C'];
+    const truncatedGraph = buildGraph(
+      ids.map(name => ({
+        name,
+        kind: 'service' as const,
+        filePath: `/src/${name}.ts`,
+        dependencies: ids.filter(other => other !== name).map(token => ({ token, parameterName: token.toLowerCase() }))
+      })),
+      undefined,
+      { maxCyclesPerComponent: 2 }
+    );
+
+    const result = checkGraph(truncatedGraph, { failOn: ['cycles'], maxCycles: 2 });
+
+    expect(result.cycles).toHaveLength(2);
+    expect(result.cyclesTruncated).toBe(true);
+    expect(result.failedRules).toEqual(['cycles']);
+    expect(formatCheckReport(result, truncatedGraph)).toContain(
+      'Cycles: 2 (max 2)\n  Some strongly connected components have more elementary cycles than listed; the count is a lower bound'
+    );
+  });
+
+  it('should only evaluate the rules listed in failOn', () => {
+    expect(checkGraph(graph, { failOn: ['unknown-nodes'], maxCycles: 5 }).failedRules).toEqual([
+      'unknown-nodes'
+    ]);
+    expect(checkGraph(graph, { failOn: ['warnings'], maxCycles: 0 }).passed).toBe(true);
+    expect(checkGraph(graph, { failOn: ['warnings'], maxCycles: 0 }, warnings).failedRules).toEqual([
+      'warnings'
+    ]);
+    expect(checkGraph(graph, { failOn: [], maxCycles: 0 }, warnings).passed).toBe(true);
+  });
+
+  it('should report every failed rule', () => {
+    const result = checkGraph(
+      graph,
+      { failOn: ['unknown-nodes', 'cycles', 'warnings'], maxCycles: 0 },
+      warnings
+    );
+
+    expect(result.failedRules).toEqual(['cycles', 'unknown-nodes', 'warnings']);
+    expect(result.unknownNodes).toEqual(['MissingToken']);
+    expect(result.warningCount).toBe(2);
+  });
+
+  it('should pass a clean graph with all rules enabled', () => {
+    const result = checkGraph(cleanGraph, {
+      failOn: ['unknown-nodes', 'cycles', 'warnings'],
+      maxCycles: 0
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.cycles).toEqual([]);
+    expect(result.unknownNodes).toEqual([]);
+  });
+
+  describe('formatCheckReport', () => {
+    it('should list cycles by label with their edges as node ids', () => {
+      const result = checkGraph(graph, { failOn: ['cycles', 'unknown-nodes'], maxCycles: 0 });
+
+      expect(formatCheckReport(result, graph)).toBe(
+        [
+          'ng-di-graph check: failed (cycles, unknown-nodes)',
+          'Cycles: 1 (max 0)',
+          '  1. ServiceA -> ServiceB -> ServiceA',
+          '     src/a.ts#ServiceA -> src/b.ts#ServiceB',
+          '     src/b.ts#ServiceB -> src/a.ts#ServiceA',
+          'Unknown nodes: 1',
+          '  - MissingToken',
+          'Warnings: 0'
+        ].join('\n')
+      );
+    });
+
+    it('should report a passing check', () => {
+      const result = checkGraph(cleanGraph, { failOn: ['cycles'], maxCycles: 0 });
+
+      expect(formatCheckReport(result, cleanGraph)).toBe(
+        ['ng-di-graph check: passed', 'Cycles: 0 (max 0)', 'Unknown nodes: 0', 'Warnings: 0'].join(
+          '\n'
+        )
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffGraphs, formatGraphDiff } from '../core/graph-diff';
+import { isGraphFile, readGraphFile, withGitRevision } from '../core/graph-source';
+import { CliError } from '../core/error-handler';
+import type { Graph } from '../types';
+
+// Base: A -> B, B -> C, D unused; cycle C <-> E
+const base: Graph = {
+  nodes: [
+    { id: 'src/a.ts#A', label: 'A', kind: 'component' },
+    { id: 'src/b.ts#B', label: 'B', kind: 'service' },
+    { id: 'src/c.ts#C', label: 'C', kind: 'service' },
+    { id: 'src/d.ts#D', label: 'D', kind: 'service' },
+    { id: 'src/e.ts#E', label: 'E', kind: 'service' }
+  ],
+  edges: [
+    { from: 'src/a.ts#A', to: 'src/b.ts#B', flags: { optional: false } },
+    { from: 'src/b.ts#B', to: 'src/c.ts#C', flags: {} },
+    { from: 'src/c.ts#C', to: 'src/e.ts#E', isCircular: true },
+    { from: 'src/e.ts#E', to: 'src/c.ts#C', isCircular: true }
+  ],
+  circularDependencies: [['src/e.ts#E', 'src/c.ts#C', 'src/e.ts#E']]
+};
+
+// Head: D removed, F added, B -> C becomes optional, C -> E removed, A <-> F cycle added
+const head: Graph = {
+  nodes: [
+    { id: 'src/a.ts#A', label: 'A', kind: 'component' },
+    { id: 'src/b.ts#B', label: 'B', kind: 'service' },
+    { id: 'src/c.ts#C', label: 'C', kind: 'service' },
+    { id: 'src/e.ts#E', label: 'E', kind: 'service' },
+    { id: 'src/f.ts#F', label: 'F', kind: 'service' }
+  ],
+  edges: [
+    { from: 'src/a.ts#A', to: 'src/b.ts#B', flags: {} },
+    { from: 'src/a.ts#A', to: 'src/f.ts#F', isCircular: true },
+    { from: 'src/b.ts#B', to: 'src/c.ts#C', flags: { optional: true } },
+    { from: 'src/e.ts#E', to: 'src/c.ts#C' },
+    { from: 'src/f.ts#F', to: 'src/a.ts#A', isCircular: true, flags: { self: true } }
+  ],
+  circularDependencies: [['src/f.ts#F', 'src/a.ts#A', 'src/f.ts#F']]
+};
+
+describe('Graph Diff', () => {
+  describe('diffGraphs', () => {
+    it('should report added and removed nodes and edges', () => {
+      const diff = diffGraphs(base, head);
+
+      expect(diff.addedNodes.map((node) => node.id)).toEqual(['src/f.ts#F']);
+      expect(diff.removedNodes.map((node) => node.id)).toEqual(['src/d.ts#D']);
+      expect(diff.addedEdges.map((edge) => `${edge.from}->${edge.to}`)).toEqual([
+        'src/a.ts#A->src/f.ts#F',
+        'src/f.ts#F->src/a.ts#A'
+      ]);
+      expect(diff.removedEdges.map((edge) => `${edge.from}->${edge.to}`)).toEqual([
+        'src/c.ts#C->src/e.ts#E'
+      ]);
+    });
+
+    it('should report changed flags, ignoring flags that are not set', () => {
+      const diff = diffGraphs(base, head);
+
+      expect(diff.changedFlags).toEqual([
+        { from: 'src/b.ts#B', to: 'src/c.ts#C', base: {}, head: { optional: true } }
+      ]);
+    });
+
+    it('should report new and resolved cycles independently of rotation', () => {
+      const diff = diffGraphs(base, head);
+
+      expect(diff.newCycles).toEqual([['src/a.ts#A', 'src/f.ts#F']]);
+      expect(diff.resolvedCycles).toEqual([['src/c.ts#C', 'src/e.ts#E']]);
+
+      const rotated: Graph = {
+        ...head,
+        circularDependencies: [['src/a.ts#A', 'src/f.ts#F', 'src/a.ts#A']]
+      };
+      expect(diffGraphs(head, rotated).newCycles).toEqual([]);
+    });
+
+    it('should treat provided-by and injection edges between the same nodes as different edges', () => {
+      const provided: Graph = {
+        ...base,
+        edges: [...base.edges, { from: 'src/a.ts#A', to: 'src/b.ts#B', kind: 'provided-by' }]
+      };
+
+      const diff = diffGraphs(base, provided);
+
+      expect(diff.addedEdges).toEqual([
+        { from: 'src/a.ts#A', to: 'src/b.ts#B', kind: 'provided-by' }
+      ]);
+    });
+
+    it('should report no changes for identical graphs', () => {
+      const diff = diffGraphs(base, base);
+
+      expect(formatGraphDiff(diff, 'text')).toBe('ng-di-graph diff: no changes');
+    });
+  });
+
+  describe('formatGraphDiff', () => {
+    it('should format a text report', () => {
+      expect(formatGraphDiff(diffGraphs(base, head), 'text')).toBe(
+        [
+          'ng-di-graph diff: +1/-1 nodes, +2/-1 edges, 1 flag changes, 1 new cycles, 1 resolved cycles',
+          'Added nodes:',
+          '  + src/f.ts#F (service)',
+          'Removed nodes:',
+          '  - src/d.ts#D (service)',
+          'Added edges:',
+          '  + src/a.ts#A -> src/f.ts#F',
+          '  + src/f.ts#F -> src/a.ts#A [self]',
+          'Removed edges:',
+          '  - src/c.ts#C -> src/e.ts#E',
+          'Changed flags:',
+          '  ~ src/b.ts#B -> src/c.ts#C: none => optional',
+          'New cycles:',
+          '  + src/a.ts#A -> src/f.ts#F -> src/a.ts#A',
+          'Resolved cycles:',
+          '  - src/c.ts#C -> src/e.ts#E -> src/c.ts#C'
+        ].join('\n')
+      );
+    });
+
+    it('should format a Markdown report', () => {
+      const markdown = formatGraphDiff(diffGraphs(base, head), 'markdown');
+
+      expect(markdown.startsWith('## DI graph diff\n\n+1/-1 nodes')).toBe(true);
+      expect(markdown).toContain('### Changed flags\n\n- `src/b.ts#B -> src/c.ts#C: none => optional`');
+      expect(markdown).toContain('### New cycles\n\n- `src/a.ts#A -> src/f.ts#F -> src/a.ts#A`');
+    });
+
+    it('should format JSON that parses back to the diff', () => {
+      const diff = diffGraphs(base, head);
+
+      expect(JSON.parse(formatGraphDiff(diff, 'json'))).toEqual(diff);
+    });
+  });
+
+  describe('graph sources', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-diff-'));
+    });
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read graph JSON files', () => {
+      const filePath = join(tempDir, 'graph.json');
+      writeFileSync(filePath, JSON.stringify(base, null, 2));
+
+      expect(isGraphFile(filePath)).toBe(true);
+      expect(isGraphFile('HEAD~1')).toBe(false);
+      expect(readGraphFile(filePath)).toEqual(base);
+    });
+
+    it('should reject files that are not graphs', () => {
+      const filePath = join(tempDir, 'not-a-graph.json');
+      writeFileSync(filePath, JSON.stringify({ nodes: [] }));
+
+      expect(() => readGraphFile(filePath)).toThrow(CliError);
+    });
+
+    it('should run against a temporary worktree of a git revision and remove it', async () => {
+      const repoDir = join(tempDir, 'repo');
+      mkdirSync(join(repoDir, 'app'), { recursive: true });
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+          cwd: repoDir,
+          stdio: 'ignore'
+        });
+
+      git('init', '--quiet');
+      writeFileSync(join(repoDir, 'app', 'tsconfig.json'), '{"revision": 1}');
+      git('add', '-A');
+      git('commit', '--quiet', '-m', 'first');
+      writeFileSync(join(repoDir, 'app', 'tsconfig.json'), '{"revision": 2}');
+      git('commit', '--quiet', '-am', 'second');
+
+      let worktreeProject = '';
+      const content = await withGitRevision(
+        'HEAD~1',
+        join(repoDir, 'app', 'tsconfig.json'),
+        async (project) => {
+          worktreeProject = project;
+          return readFileSync(project, 'utf-8');
+        }
+      );
+
+      expect(content).toBe('{"revision": 1}');
+      expect(existsSync(worktreeProject)).toBe(false);
+    });
+
+    it('should reject unknown revisions', async () => {
+      await expect(
+        withGitRevision('no-such-revision', join(tempDir, 'repo', 'app', 'tsconfig.json'), async () => 1)
+      ).rejects.toThrow("'no-such-revision' is neither a graph file nor a git revision");
+    });
+  });
+});
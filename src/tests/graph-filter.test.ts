@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { buildGraph } from '../core/graph-builder';
-import { filterGraph } from '../core/graph-filter';
+import {
+  filterGraph,
+  filterGraphByNodes,
+  filterGraphByProject,
+  filterGraphByScope
+} from '../core/graph-filter';
 import type { Graph, CliOptions, ParsedClass } from '../types';
 
 describe('Entry Point Filtering', () => {
@@ -133,6 +138,52 @@ describe('Entry Point Filtering', () => {
     expect(filteredGraph.edges.filter(e => e.isCircular)).toHaveLength(2);
   });
 
+  it('should keep only strongly connected components whose nodes are all kept', () => {
+    const componentGraph: Graph = {
+      nodes: [
+        { id: 'ServiceA', kind: 'service' },
+        { id: 'ServiceB', kind: 'service' },
+        { id: 'ServiceX', kind: 'service' },
+        { id: 'ServiceY', kind: 'service' }
+      ],
+      edges: [
+        { from: 'ServiceA', to: 'ServiceB', isCircular: true },
+        { from: 'ServiceB', to: 'ServiceA', isCircular: true },
+        { from: 'ServiceX', to: 'ServiceY', isCircular: true },
+        { from: 'ServiceY', to: 'ServiceX', isCircular: true }
+      ],
+      circularDependencies: [
+        ['ServiceA', 'ServiceB', 'ServiceA'],
+        ['ServiceX', 'ServiceY', 'ServiceX']
+      ],
+      stronglyConnectedComponents: [
+        {
+          nodes: ['ServiceA', 'ServiceB'],
+          cycles: [['ServiceA', 'ServiceB']],
+          suggestedBreaks: [{ from: 'ServiceB', to: 'ServiceA' }]
+        },
+        {
+          nodes: ['ServiceX', 'ServiceY'],
+          cycles: [['ServiceX', 'ServiceY']],
+          suggestedBreaks: [{ from: 'ServiceY', to: 'ServiceX' }]
+        }
+      ]
+    };
+
+    const filteredGraph = filterGraph(componentGraph, {
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false,
+      entry: ['ServiceA']
+    });
+
+    expect(filteredGraph.stronglyConnectedComponents?.map(c => c.nodes)).toEqual([
+      ['ServiceA', 'ServiceB']
+    ]);
+  });
+
   it('should work with single entry point', () => {
     const options: CliOptions = {
       project: './tsconfig.json',
@@ -316,6 +367,344 @@ describe('Entry Point Filtering', () => {
     });
   });
 
+  describe('entry matching by label', () => {
+    it('should traverse from every node whose label matches the entry', () => {
+      const graph: Graph = {
+        nodes: [
+          { id: 'a/logger.ts#LoggerService', label: 'LoggerService', kind: 'service' },
+          { id: 'b/logger.ts#LoggerService', label: 'LoggerService', kind: 'service' },
+          { id: 'a/http.ts#HttpService', label: 'HttpService', kind: 'service' },
+          { id: 'b/store.ts#StoreService', label: 'StoreService', kind: 'service' },
+          { id: 'c/other.ts#OtherService', label: 'OtherService', kind: 'service' }
+        ],
+        edges: [
+          { from: 'a/logger.ts#LoggerService', to: 'a/http.ts#HttpService' },
+          { from: 'b/logger.ts#LoggerService', to: 'b/store.ts#StoreService' }
+        ],
+        circularDependencies: []
+      };
+      const baseOptions: CliOptions = {
+        project: './tsconfig.json',
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: false,
+        verbose: false
+      };
+
+      const byLabel = filterGraph(graph, { ...baseOptions, entry: ['LoggerService'] });
+      expect(byLabel.nodes.map(n => n.id).sort()).toEqual([
+        'a/http.ts#HttpService',
+        'a/logger.ts#LoggerService',
+        'b/logger.ts#LoggerService',
+        'b/store.ts#StoreService'
+      ]);
+
+      const byId = filterGraph(graph, { ...baseOptions, entry: ['b/logger.ts#LoggerService'] });
+      expect(byId.nodes.map(n => n.id).sort()).toEqual([
+        'b/logger.ts#LoggerService',
+        'b/store.ts#StoreService'
+      ]);
+    });
+  });
+
+  describe('pipe and module kinds', () => {
+    it('should traverse from module and pipe entry points', () => {
+      const parsedClasses: ParsedClass[] = [
+        {
+          name: 'CoreModule',
+          kind: 'module',
+          filePath: '/src/core.module.ts',
+          dependencies: [{ token: 'ConfigService', parameterName: 'config' }]
+        },
+        {
+          name: 'CurrencyPipe',
+          kind: 'pipe',
+          filePath: '/src/currency.pipe.ts',
+          dependencies: [{ token: 'ConfigService', parameterName: 'config' }]
+        },
+        {
+          name: 'ConfigService',
+          kind: 'service',
+          filePath: '/src/config.service.ts',
+          dependencies: []
+        }
+      ];
+      const graph = buildGraph(parsedClasses);
+      const options: CliOptions = {
+        project: './tsconfig.json',
+        format: 'json',
+        direction: 'upstream',
+        includeDecorators: false,
+        verbose: false,
+        entry: ['ConfigService']
+      };
+
+      const filteredGraph = filterGraph(graph, options);
+
+      expect(filteredGraph.nodes.map(n => `${n.label}:${n.kind}`).sort()).toEqual([
+        'ConfigService:service',
+        'CoreModule:module',
+        'CurrencyPipe:pipe'
+      ]);
+    });
+  });
+
+  describe('depth limit', () => {
+    // Chain: AppComponent -> ServiceA -> ServiceB -> ServiceC, plus AppComponent -> ServiceC
+    const chainGraph: Graph = {
+      nodes: [
+        { id: 'AppComponent', kind: 'component' },
+        { id: 'ServiceA', kind: 'service' },
+        { id: 'ServiceB', kind: 'service' },
+        { id: 'ServiceC', kind: 'service' },
+        { id: 'ServiceD', kind: 'service' }
+      ],
+      edges: [
+        { from: 'AppComponent', to: 'ServiceA' },
+        { from: 'AppComponent', to: 'ServiceC' },
+        { from: 'ServiceA', to: 'ServiceB' },
+        { from: 'ServiceB', to: 'ServiceC' },
+        { from: 'ServiceC', to: 'ServiceD' }
+      ],
+      circularDependencies: []
+    };
+    const options = (overrides: Partial<CliOptions>): CliOptions => ({
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false,
+      entry: ['AppComponent'],
+      ...overrides
+    });
+    const truncated = (graph: Graph) => graph.nodes.filter(n => n.truncated).map(n => n.id);
+
+    it('should follow at most N edges and mark the frontier nodes with more behind them', () => {
+      const result = filterGraph(chainGraph, options({ depth: 1 }));
+
+      expect(result.nodes.map(n => n.id)).toEqual(['AppComponent', 'ServiceA', 'ServiceC']);
+      expect(result.edges).toEqual([
+        { from: 'AppComponent', to: 'ServiceA' },
+        { from: 'AppComponent', to: 'ServiceC' }
+      ]);
+      expect(truncated(result)).toEqual(['ServiceA', 'ServiceC']);
+      expect(chainGraph.nodes.some(n => n.truncated)).toBe(false);
+    });
+
+    it('should use the shortest distance and not mark frontier nodes whose neighbors are kept', () => {
+      const result = filterGraph(chainGraph, options({ depth: 2 }));
+
+      expect(result.nodes.map(n => n.id)).toEqual([
+        'AppComponent',
+        'ServiceA',
+        'ServiceB',
+        'ServiceC',
+        'ServiceD'
+      ]);
+      // ServiceB is at the limit, but its dependency ServiceC is reachable directly
+      expect(truncated(result)).toEqual([]);
+    });
+
+    it('should limit upstream and bidirectional traversal', () => {
+      const upstream = filterGraph(
+        chainGraph,
+        options({ entry: ['ServiceC'], direction: 'upstream', depth: 1 })
+      );
+      expect(upstream.nodes.map(n => n.id)).toEqual(['AppComponent', 'ServiceB', 'ServiceC']);
+      expect(truncated(upstream)).toEqual(['ServiceB']);
+
+      const both = filterGraph(chainGraph, options({ entry: ['ServiceB'], direction: 'both', depth: 1 }));
+      expect(both.nodes.map(n => n.id)).toEqual(['ServiceA', 'ServiceB', 'ServiceC']);
+      expect(truncated(both)).toEqual(['ServiceA', 'ServiceC']);
+    });
+
+    it('should keep only the entry nodes at depth 0', () => {
+      const result = filterGraph(chainGraph, options({ depth: 0 }));
+
+      expect(result.nodes).toEqual([{ id: 'AppComponent', kind: 'component', truncated: true }]);
+      expect(result.edges).toEqual([]);
+    });
+  });
+
+  describe('filterGraphByScope', () => {
+    const scopedGraph: Graph = {
+      nodes: [
+        { id: 'AppComponent', kind: 'component' },
+        { id: 'RootService', kind: 'service', providedIn: 'root' },
+        { id: 'RootHelper', kind: 'service', providedIn: 'root' },
+        { id: 'PlatformService', kind: 'service', providedIn: 'platform' },
+        { id: 'LocalService', kind: 'service' }
+      ],
+      edges: [
+        { from: 'AppComponent', to: 'RootService' },
+        { from: 'RootService', to: 'RootHelper' },
+        { from: 'RootService', to: 'LocalService' },
+        { from: 'RootHelper', to: 'PlatformService' }
+      ],
+      circularDependencies: []
+    };
+    const baseOptions: CliOptions = {
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+
+    it('should return the original graph when no scope is given', () => {
+      expect(filterGraphByScope(scopedGraph, baseOptions)).toBe(scopedGraph);
+    });
+
+    it('should keep only nodes in the requested scopes and the edges between them', () => {
+      const rootOnly = filterGraphByScope(scopedGraph, { ...baseOptions, scope: ['root'] });
+      expect(rootOnly.nodes.map(n => n.id)).toEqual(['RootService', 'RootHelper']);
+      expect(rootOnly.edges).toEqual([{ from: 'RootService', to: 'RootHelper' }]);
+
+      const rootAndPlatform = filterGraphByScope(scopedGraph, {
+        ...baseOptions,
+        scope: ['root', 'platform']
+      });
+      expect(rootAndPlatform.nodes.map(n => n.id)).toEqual([
+        'RootService',
+        'RootHelper',
+        'PlatformService'
+      ]);
+      expect(rootAndPlatform.edges).toHaveLength(2);
+    });
+  });
+
+  describe('filterGraphByProject', () => {
+    const workspaceGraph: Graph = {
+      nodes: [
+        { id: 'apps/shop/app.ts#AppComponent', kind: 'component', project: 'shop' },
+        { id: 'apps/shop/cart.ts#CartService', kind: 'service', project: 'shop' },
+        { id: 'libs/ui/theme.ts#ThemeService', kind: 'service', project: 'ui' },
+        { id: 'Router', kind: 'unknown' }
+      ],
+      edges: [
+        { from: 'apps/shop/app.ts#AppComponent', to: 'apps/shop/cart.ts#CartService' },
+        { from: 'apps/shop/app.ts#AppComponent', to: 'Router' },
+        { from: 'apps/shop/cart.ts#CartService', to: 'libs/ui/theme.ts#ThemeService' }
+      ],
+      circularDependencies: []
+    };
+    const baseOptions: CliOptions = {
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+
+    it('should return the original graph when no project is given', () => {
+      expect(filterGraphByProject(workspaceGraph, baseOptions)).toBe(workspaceGraph);
+    });
+
+    it('should keep only nodes owned by the requested projects and the edges between them', () => {
+      const shop = filterGraphByProject(workspaceGraph, { ...baseOptions, projects: ['shop'] });
+      expect(shop.nodes.map(n => n.id)).toEqual([
+        'apps/shop/app.ts#AppComponent',
+        'apps/shop/cart.ts#CartService'
+      ]);
+      expect(shop.edges).toEqual([
+        { from: 'apps/shop/app.ts#AppComponent', to: 'apps/shop/cart.ts#CartService' }
+      ]);
+
+      const both = filterGraphByProject(workspaceGraph, {
+        ...baseOptions,
+        projects: ['shop', 'ui']
+      });
+      expect(both.nodes).toHaveLength(3);
+      expect(both.edges).toHaveLength(2);
+    });
+  });
+
+  describe('filterGraphByNodes', () => {
+    const appGraph: Graph = {
+      nodes: [
+        { id: 'src/app/app.component.ts#AppComponent', label: 'AppComponent', kind: 'component' },
+        { id: 'src/app/auth/auth.service.ts#AuthService', label: 'AuthService', kind: 'service' },
+        { id: 'src/app/auth/session.service.ts#SessionService', label: 'SessionService', kind: 'service' },
+        { id: 'src/testing/mock-auth.service.ts#MockAuthService', label: 'MockAuthService', kind: 'service' },
+        { id: 'HttpClient', label: 'HttpClient', kind: 'unknown' },
+        { id: 'Router', label: 'Router', kind: 'unknown' }
+      ],
+      edges: [
+        { from: 'src/app/app.component.ts#AppComponent', to: 'Router' },
+        { from: 'src/app/app.component.ts#AppComponent', to: 'src/app/auth/auth.service.ts#AuthService' },
+        { from: 'src/app/auth/auth.service.ts#AuthService', to: 'HttpClient' },
+        {
+          from: 'src/app/auth/auth.service.ts#AuthService',
+          to: 'src/app/auth/session.service.ts#SessionService',
+          isCircular: true
+        },
+        {
+          from: 'src/app/auth/session.service.ts#SessionService',
+          to: 'src/app/auth/auth.service.ts#AuthService',
+          isCircular: true
+        },
+        { from: 'src/testing/mock-auth.service.ts#MockAuthService', to: 'HttpClient' }
+      ],
+      circularDependencies: [
+        [
+          'src/app/auth/auth.service.ts#AuthService',
+          'src/app/auth/session.service.ts#SessionService',
+          'src/app/auth/auth.service.ts#AuthService'
+        ]
+      ]
+    };
+    const baseOptions: CliOptions = {
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+    const labels = (graph: Graph) => graph.nodes.map(n => n.label);
+
+    it('should return the original graph without node filters', () => {
+      expect(filterGraphByNodes(appGraph, baseOptions)).toBe(appGraph);
+    });
+
+    it('should hide nodes matching globs or regular expressions by label or id', () => {
+      const result = filterGraphByNodes(appGraph, {
+        ...baseOptions,
+        hide: ['Http*', '/^mock/i', 'src/app/auth/session*']
+      });
+
+      expect(labels(result)).toEqual(['AppComponent', 'AuthService', 'Router']);
+      expect(result.edges).toEqual([
+        { from: 'src/app/app.component.ts#AppComponent', to: 'Router' },
+        { from: 'src/app/app.component.ts#AppComponent', to: 'src/app/auth/auth.service.ts#AuthService' }
+      ]);
+      expect(result.circularDependencies).toEqual([]);
+    });
+
+    it('should keep only the requested kinds and drop unknown nodes', () => {
+      expect(labels(filterGraphByNodes(appGraph, { ...baseOptions, onlyKind: ['component'] }))).toEqual([
+        'AppComponent'
+      ]);
+
+      const known = filterGraphByNodes(appGraph, { ...baseOptions, hideUnknown: true });
+      expect(labels(known)).toEqual(['AppComponent', 'AuthService', 'SessionService', 'MockAuthService']);
+      expect(known.circularDependencies).toEqual(appGraph.circularDependencies);
+    });
+
+    it('should keep only nodes declared below a path prefix', () => {
+      const result = filterGraphByNodes(appGraph, { ...baseOptions, pathPrefix: ['./src/app/auth/'] });
+
+      expect(labels(result)).toEqual(['AuthService', 'SessionService']);
+      expect(result.edges).toHaveLength(2);
+      expect(result.circularDependencies).toEqual(appGraph.circularDependencies);
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => filterGraphByNodes(appGraph, { ...baseOptions, hide: ['/(/'] })).toThrow(
+        'Invalid --hide pattern'
+      );
+    });
+  });
+
   describe('Integration with Graph Builder', () => {
     it('should integrate graph building and filtering correctly', () => {
       const sampleParsedClasses: ParsedClass[] = [
@@ -381,8 +770,12 @@ describe('Entry Point Filtering', () => {
       expect(filteredGraph.nodes).toHaveLength(4);
       expect(filteredGraph.edges).toHaveLength(3);
 
-      const nodeIds = filteredGraph.nodes.map(n => n.id).sort();
-      expect(nodeIds).toEqual(['AppComponent', 'HttpClient', 'LogService', 'UserService']);
+      // Entry points match node labels; ids are file-qualified
+      const nodeLabels = filteredGraph.nodes.map(n => n.label).sort();
+      expect(nodeLabels).toEqual(['AppComponent', 'HttpClient', 'LogService', 'UserService']);
+      expect(filteredGraph.nodes.find(n => n.label === 'AppComponent')?.id).toBe(
+        '/src/app.component.ts#AppComponent'
+      );
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { CliError } from '../core/error-handler';
+import { findPaths, formatPathReport, pathsToGraph } from '../core/graph-path';
+import type { Graph } from '../types';
+
+describe('Graph Paths', () => {
+  // App -> Cart -> Api -> Http, App -> Api, Cart -> Logger, plus a Cart <-> Store cycle
+  const graph: Graph = {
+    nodes: [
+      { id: 'src/api.ts#ApiService', label: 'ApiService', kind: 'service' },
+      { id: 'src/app.ts#AppComponent', label: 'AppComponent', kind: 'component' },
+      { id: 'src/cart.ts#CartService', label: 'CartService', kind: 'service' },
+      { id: 'src/http.ts#HttpClient', label: 'HttpClient', kind: 'service' },
+      { id: 'src/logger.ts#Logger', label: 'Logger', kind: 'service' },
+      { id: 'src/store.ts#Store', label: 'Store', kind: 'service' }
+    ],
+    edges: [
+      { from: 'src/api.ts#ApiService', to: 'src/http.ts#HttpClient', parameterName: 'http' },
+      { from: 'src/app.ts#AppComponent', to: 'src/api.ts#ApiService', parameterName: 'api' },
+      { from: 'src/app.ts#AppComponent', to: 'src/cart.ts#CartService', parameterName: 'cart' },
+      {
+        from: 'src/cart.ts#CartService',
+        to: 'src/api.ts#ApiService',
+        parameterName: 'api',
+        flags: { optional: true, skipSelf: true }
+      },
+      { from: 'src/cart.ts#CartService', to: 'src/logger.ts#Logger', parameterName: 'logger' },
+      {
+        from: 'src/cart.ts#CartService',
+        to: 'src/store.ts#Store',
+        parameterName: 'store',
+        isCircular: true
+      },
+      {
+        from: 'src/store.ts#Store',
+        to: 'src/cart.ts#CartService',
+        parameterName: 'cart',
+        isCircular: true
+      },
+      { from: 'src/store.ts#Store', to: 'src/http.ts#HttpClient', parameterName: 'http' }
+    ],
+    circularDependencies: [['src/cart.ts#CartService', 'src/store.ts#Store', 'src/cart.ts#CartService']]
+  };
+
+  describe('findPaths', () => {
+    it('should find the shortest path by label or id', () => {
+      const result = findPaths(graph, 'AppComponent', 'src/http.ts#HttpClient');
+
+      expect(result.from).toEqual(['src/app.ts#AppComponent']);
+      expect(result.to).toEqual(['src/http.ts#HttpClient']);
+      expect(result.paths).toHaveLength(1);
+      expect(result.paths[0].nodes).toEqual([
+        'src/app.ts#AppComponent',
+        'src/api.ts#ApiService',
+        'src/http.ts#HttpClient'
+      ]);
+      expect(result.paths[0].edges.map(edge => edge.parameterName)).toEqual(['api', 'http']);
+      expect(result.truncated).toBeUndefined();
+    });
+
+    it('should list every simple path shortest first with all', () => {
+      const result = findPaths(graph, 'AppComponent', 'HttpClient', { all: true });
+
+      expect(result.paths.map(path => path.nodes.map(id => id.split('#')[1]))).toEqual([
+        ['AppComponent', 'ApiService', 'HttpClient'],
+        ['AppComponent', 'CartService', 'ApiService', 'HttpClient'],
+        ['AppComponent', 'CartService', 'Store', 'HttpClient']
+      ]);
+    });
+
+    it('should stop at the limit and mark the result as truncated', () => {
+      const result = findPaths(graph, 'AppComponent', 'HttpClient', { all: true, limit: 2 });
+
+      expect(result.paths).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should return no paths when the target is not reachable', () => {
+      expect(findPaths(graph, 'HttpClient', 'AppComponent').paths).toEqual([]);
+    });
+
+    it('should not follow provided-by edges', () => {
+      const providedGraph: Graph = {
+        nodes: [
+          { id: 'API_URL', label: 'API_URL', kind: 'token' },
+          { id: 'src/app.module.ts#AppModule', label: 'AppModule', kind: 'module' },
+          { id: 'src/api.ts#ApiService', label: 'ApiService', kind: 'service' }
+        ],
+        edges: [
+          { from: 'API_URL', to: 'src/app.module.ts#AppModule', kind: 'provided-by' },
+          { from: 'src/api.ts#ApiService', to: 'API_URL' }
+        ],
+        circularDependencies: []
+      };
+
+      expect(findPaths(providedGraph, 'ApiService', 'AppModule').paths).toEqual([]);
+    });
+
+    it('should reject unknown nodes and invalid limits', () => {
+      expect(() => findPaths(graph, 'Missing', 'HttpClient')).toThrow(CliError);
+      expect(() => findPaths(graph, 'AppComponent', 'Missing')).toThrow('Node not found in graph: Missing');
+      expect(() => findPaths(graph, 'AppComponent', 'HttpClient', { all: true, limit: 0 })).toThrow(
+        'Invalid limit'
+      );
+    });
+  });
+
+  describe('pathsToGraph', () => {
+    it('should keep only the nodes, edges and cycles on the paths', () => {
+      const result = findPaths(graph, 'AppComponent', 'HttpClient', { all: true });
+      const subGraph = pathsToGraph(graph, result);
+
+      expect(subGraph.nodes.map(node => node.label)).toEqual([
+        'ApiService',
+        'AppComponent',
+        'CartService',
+        'HttpClient',
+        'Store'
+      ]);
+      expect(subGraph.edges).toHaveLength(6);
+      expect(subGraph.edges.some(edge => edge.to === 'src/logger.ts#Logger')).toBe(false);
+      // Store -> CartService is not on a path, so the cycle is not complete
+      expect(subGraph.circularDependencies).toEqual([]);
+    });
+  });
+
+  describe('formatPathReport', () => {
+    it('should list each hop with its parameter name and flags', () => {
+      const result = findPaths(graph, 'CartService', 'HttpClient');
+
+      expect(formatPathReport(result, graph, 'CartService', 'HttpClient')).toBe(
+        [
+          'Path from CartService to HttpClient (2 hops):',
+          '  CartService',
+          '    -> ApiService (api, optional, skipSelf)',
+          '    -> HttpClient (http)'
+        ].join('\n')
+      );
+    });
+
+    it('should number paths and note truncation with all', () => {
+      const result = findPaths(graph, 'AppComponent', 'HttpClient', { all: true, limit: 2 });
+      const report = formatPathReport(result, graph, 'AppComponent', 'HttpClient');
+
+      expect(report).toContain('2 paths from AppComponent to HttpClient:');
+      expect(report).toContain('1. (2 hops)');
+      expect(report).toContain('2. (3 hops)');
+      expect(report).toContain('More paths exist; raise --limit to list them');
+    });
+
+    it('should report a missing path', () => {
+      const result = findPaths(graph, 'HttpClient', 'AppComponent');
+
+      expect(formatPathReport(result, graph, 'HttpClient', 'AppComponent')).toBe(
+        'No path from HttpClient to AppComponent'
+      );
+    });
+  });
+});
@@ -3,6 +3,9 @@
  * Provides reusable helper functions for test setup and mocking
  */
 
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
 import type { LogCategory, LogContext, Logger, LoggingStats } from '../../core/logger';
 import { createLogger } from '../../core/logger';
 import { AngularParser } from '../../core/parser';
@@ -238,3 +241,56 @@ export async function wait(ms = 0): Promise<void> {
 export function resetParserState(): void {
   AngularParser.resetWarningState();
 }
+
+/**
+ * Sources of the default temporary project: a Logger injected into a UserService
+ */
+export const TEMP_PROJECT_SOURCES: Record<string, string[]> = {
+  'logger.ts': [
+    "import { Injectable } from '@angular/core';",
+    '@Injectable()',
+    'export class Logger {}',
+  ],
+  'user.service.ts': [
+    "import { Injectable } from '@angular/core';",
+    "import { Logger } from './logger';",
+    '@Injectable()',
+    'export class UserService {',
+    '  constructor(private logger: Logger) {}',
+    '}',
+  ],
+};
+
+/**
+ * Write a source file below the src directory of a temporary project
+ * @param projectDir - Project directory returned by createTempProject
+ * @param name - File path relative to src
+ * @param lines - Source lines
+ */
+export function writeTempSource(projectDir: string, name: string, lines: string[]): void {
+  const filePath = join(projectDir, 'src', name);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, lines.join('\n'));
+}
+
+/**
+ * Create a temporary project whose tsconfig includes src/**\/*.ts
+ * @param sources - Source lines by file path relative to src (default: TEMP_PROJECT_SOURCES)
+ * @returns Project directory; remove it with rmSync(projectDir, { recursive: true, force: true })
+ */
+export function createTempProject(
+  sources: Record<string, string[]> = TEMP_PROJECT_SOURCES
+): string {
+  const projectDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-project-'));
+  writeFileSync(
+    join(projectDir, 'tsconfig.json'),
+    JSON.stringify({
+      compilerOptions: { experimentalDecorators: true, strict: true },
+      include: ['src/**/*.ts'],
+    })
+  );
+  for (const [name, lines] of Object.entries(sources)) {
+    writeTempSource(projectDir, name, lines);
+  }
+  return projectDir;
+}
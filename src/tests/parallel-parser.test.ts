@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rmSync } from 'fs';
+import { join, resolve } from 'path';
+import { analyze } from '../index';
+import { AngularParser } from '../core/parser';
+import { createTempProject } from './helpers/test-utils';
+
+describe('Parallel Parsing', () => {
+  const project = './src/tests/fixtures/tsconfig.json';
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build exactly the same graph as the serial path', async () => {
+    const serial = await analyze({ project, includeDecorators: true });
+    const parallel = await analyze({ project, includeDecorators: true, workers: 2 });
+
+    expect(parallel.graph.nodes.length).toBeGreaterThan(0);
+    expect(parallel.graph).toEqual(serial.graph);
+  }, 60000);
+
+  it('should return the classes and warnings of every file without reporting them', () => {
+    AngularParser.resetWarningState();
+    const parser = new AngularParser({
+      project,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    });
+    parser.loadProject();
+    const services = resolve('src/tests/fixtures/src/services.ts');
+    const missing = resolve('src/tests/fixtures/src/missing.ts');
+
+    const results = parser.parseFiles([services, missing]);
+
+    expect(results.map(result => result.filePath)).toEqual([services, missing]);
+    expect(results[0].classes.length).toBeGreaterThan(0);
+    expect(results[0].warnings.length).toBeGreaterThan(0);
+    expect(results[1]).toEqual(
+      expect.objectContaining({ classes: [], error: expect.objectContaining({ message: expect.any(String) }) })
+    );
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(parser.getStructuredWarnings().totalCount).toBe(0);
+  });
+
+  it('should reject worker counts that are not positive integers', async () => {
+    await expect(analyze({ project, workers: 0 })).rejects.toThrow('Invalid workers: 0');
+    await expect(analyze({ project, workers: 1.5 })).rejects.toThrow('Invalid workers: 1.5');
+  });
+
+  describe('with the parse cache', () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+      projectDir = createTempProject();
+    });
+
+    afterEach(() => {
+      rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it('should only send files missing from the cache to the workers', async () => {
+      const options = {
+        project: join(projectDir, 'tsconfig.json'),
+        cache: true,
+        cacheDir: join(projectDir, '.cache'),
+        workers: 2
+      };
+
+      const first = await analyze(options);
+      const second = await analyze(options);
+
+      expect(first.cache).toEqual({ hits: 0, misses: 2 });
+      expect(second.cache).toEqual({ hits: 2, misses: 0 });
+      expect(second.graph).toEqual(first.graph);
+      expect(first.graph.edges).toEqual([
+        expect.objectContaining({ from: 'src/user.service.ts#UserService', to: 'src/logger.ts#Logger' })
+      ]);
+    }, 60000);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, readdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { analyze } from '../index';
+import { AngularParser } from '../core/parser';
+import { TOOL_VERSION } from '../core/version';
+import type { CliOptions } from '../types';
+import { createTempProject, TEMP_PROJECT_SOURCES, writeTempSource } from './helpers/test-utils';
+
+describe('Parse Cache', () => {
+  let projectDir: string;
+  let cacheDir: string;
+
+  const writeSource = (name: string, lines: string[]) => writeTempSource(projectDir, name, lines);
+
+  const parse = async (overrides: Partial<CliOptions> = {}) => {
+    AngularParser.resetWarningState();
+    const parser = new AngularParser({
+      project: join(projectDir, 'tsconfig.json'),
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false,
+      cache: true,
+      cacheDir,
+      ...overrides
+    });
+    parser.loadProject();
+    const parsedClasses = await parser.parseClasses();
+    return {
+      parsedClasses,
+      warnings: parser.getStructuredWarnings(),
+      cache: parser.getCacheStats(),
+      runStats: parser.getRunStats()
+    };
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    projectDir = createTempProject({
+      ...TEMP_PROJECT_SOURCES,
+      'user.service.ts': [
+        "import { Injectable } from '@angular/core';",
+        "import { Logger } from './logger';",
+        '@Injectable()',
+        'export class UserService {',
+        '  constructor(private logger: Logger, private extra: any) {}',
+        '}'
+      ],
+      'clock.ts': [
+        "import { Injectable } from '@angular/core';",
+        '@Injectable()',
+        'export class Clock {}'
+      ]
+    });
+    cacheDir = join(projectDir, '.cache');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should reuse the classes and warnings of unchanged files', async () => {
+    const first = await parse();
+    const second = await parse();
+
+    expect(first.cache).toEqual({ hits: 0, misses: 3 });
+    expect(second.cache).toEqual({ hits: 3, misses: 0 });
+    expect(second.parsedClasses).toEqual(first.parsedClasses);
+    expect(first.warnings.categories.skippedTypes.length).toBeGreaterThan(0);
+    expect(second.warnings).toEqual(first.warnings);
+  });
+
+  it('should re-parse changed files and the files importing them', async () => {
+    await parse();
+
+    writeSource('logger.ts', [
+      "import { Injectable } from '@angular/core';",
+      "import { Clock } from './clock';",
+      '@Injectable()',
+      'export class Logger {',
+      '  constructor(private clock: Clock) {}',
+      '}'
+    ]);
+    const changed = await parse();
+
+    // logger.ts changed and user.service.ts imports it; clock.ts is unchanged
+    expect(changed.cache).toEqual({ hits: 1, misses: 2 });
+    expect(changed.parsedClasses.find(c => c.name === 'Logger')?.dependencies).toEqual([
+      expect.objectContaining({ token: 'Clock' })
+    ]);
+  });
+
+  it('should not reuse entries parsed with other options', async () => {
+    await parse();
+
+    expect((await parse({ includeDecorators: true })).cache).toEqual({ hits: 0, misses: 3 });
+  });
+
+  it('should drop the entries of deleted files and ignore unreadable cache files', async () => {
+    await parse();
+    const [cacheFile] = readdirSync(cacheDir);
+
+    unlinkSync(join(projectDir, 'src', 'clock.ts'));
+    await parse();
+    expect(Object.keys(JSON.parse(readFileSync(join(cacheDir, cacheFile), 'utf-8')).entries)).toHaveLength(2);
+
+    writeFileSync(join(cacheDir, cacheFile), '{ not json');
+    expect((await parse()).cache).toEqual({ hits: 0, misses: 2 });
+  });
+
+  it('should report hits and misses in the verbose run stats', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await parse();
+    const second = await parse({ verbose: true });
+
+    expect(second.runStats).toEqual({ excludedFiles: 0, cacheHits: 3, cacheMisses: 0 });
+    expect(log).toHaveBeenCalledWith('💾 Parse cache: 3 hits, 0 misses');
+  });
+
+  it('should default to a cache directory next to the tsconfig', async () => {
+    await parse({ cacheDir: undefined });
+
+    expect(readdirSync(join(projectDir, 'node_modules', '.cache', 'ng-di-graph'))).toHaveLength(1);
+  });
+
+  it('should key entries by the version in package.json', () => {
+    const manifest = JSON.parse(readFileSync(join(__dirname, '..', '..', 'package.json'), 'utf-8'));
+
+    expect(TOOL_VERSION).toBe(manifest.version);
+  });
+
+  it('should be disabled unless requested', async () => {
+    const result = await parse({ cache: undefined });
+
+    expect(result.cache).toBeUndefined();
+    expect(existsSync(cacheDir)).toBe(false);
+  });
+
+  it('should report cache statistics from analyze()', async () => {
+    const project = join(projectDir, 'tsconfig.json');
+
+    expect((await analyze({ project })).cache).toBeUndefined();
+    expect((await analyze({ project, cache: true, cacheDir })).cache).toEqual({ hits: 0, misses: 3 });
+    expect((await analyze({ project, cache: true, cacheDir })).cache).toEqual({ hits: 3, misses: 0 });
+  });
+});
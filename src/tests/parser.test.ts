@@ -1,7 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { existsSync, writeFileSync, unlinkSync, mkdirSync, rmSync } from 'fs';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, writeFileSync, unlinkSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import { AngularParser } from '../core/parser';
+import { buildGraph } from '../core/graph-builder';
 import { CliOptions, ParserError } from '../types';
 import { createLogger, LogCategory, type Logger } from '../core/logger';
 import { createStubLogger, mockConsole } from './helpers/test-utils';
@@ -273,7 +275,7 @@ describe('AngularParser - Decorated Class Collection', () => {
 
       // Should find all @Injectable services from all fixture files
       const services = classes.filter(c => c.kind === 'service');
-      expect(services).toHaveLength(37); // 24 original + 4 from edge-cases.ts + 9 new inject() services
+      expect(services).toHaveLength(45); // 24 original + 4 from edge-cases.ts + 9 new inject() services + 2 from providers.ts + 1 from tokens.ts + 2 from legacy/logger.service.ts + 3 from scopes.ts
 
       const serviceNames = services.map(s => s.name);
       // From services.ts
@@ -293,7 +295,7 @@ describe('AngularParser - Decorated Class Collection', () => {
 
       // Should find all @Component classes from all fixture files
       const components = classes.filter(c => c.kind === 'component');
-      expect(components).toHaveLength(10); // 8 from components.ts + 2 from edge-cases.ts
+      expect(components).toHaveLength(11); // 8 from components.ts + 2 from edge-cases.ts + 1 from providers.ts
 
       const componentNames = components.map(c => c.name);
       // From components.ts
@@ -320,6 +322,35 @@ describe('AngularParser - Decorated Class Collection', () => {
       expect(directiveNames).toContain('MultiLineDirective');
     });
 
+    it('should detect @Pipe decorated classes', async () => {
+      const classes = await parser.findDecoratedClasses();
+
+      // Should find all @Pipe classes from pipes.ts
+      const pipes = classes.filter(c => c.kind === 'pipe');
+      expect(pipes.map(p => p.name).sort()).toEqual(['AliasedPipe', 'BasicPipe', 'InjectedPipe']);
+
+      const basicPipe = pipes.find(p => p.name === 'BasicPipe');
+      expect(basicPipe?.dependencies).toEqual([
+        expect.objectContaining({ token: 'BasicService', parameterName: 'basicService' })
+      ]);
+
+      const injectedPipe = pipes.find(p => p.name === 'InjectedPipe');
+      expect(injectedPipe?.dependencies).toEqual([
+        expect.objectContaining({ token: 'TestService', parameterName: 'testService' })
+      ]);
+    });
+
+    it('should detect @NgModule decorated classes', async () => {
+      const classes = await parser.findDecoratedClasses();
+
+      // modules.ts plus the providers.ts module
+      const modules = classes.filter(c => c.kind === 'module');
+      expect(modules.map(m => m.name).sort()).toEqual(['BasicModule', 'CoreModule', 'ProvidersModule']);
+
+      const coreModule = modules.find(m => m.name === 'CoreModule');
+      expect(coreModule?.dependencies.map(d => d.token)).toEqual(['TestService', 'BasicService']);
+    });
+
     it('should correctly map decorator types to NodeKind', async () => {
       const classes = await parser.findDecoratedClasses();
 
@@ -332,6 +363,12 @@ describe('AngularParser - Decorated Class Collection', () => {
 
       const basicDirective = classes.find(c => c.name === 'BasicDirective');
       expect(basicDirective?.kind).toBe('directive');
+
+      const basicPipe = classes.find(c => c.name === 'BasicPipe');
+      expect(basicPipe?.kind).toBe('pipe');
+
+      const basicModule = classes.find(c => c.name === 'BasicModule');
+      expect(basicModule?.kind).toBe('module');
     });
 
     it('should include correct file paths for each class', async () => {
@@ -356,7 +393,10 @@ describe('AngularParser - Decorated Class Collection', () => {
       expect(testComponent?.dependencies[0]).toEqual({
         token: 'TestService',
         flags: {},
-        parameterName: 'testService'
+        parameterName: 'testService',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: 'constructor',
+        location: { file: expect.stringContaining('components.ts'), line: 59, column: 15 }
       });
 
       // Classes without constructors should have empty dependencies
@@ -508,7 +548,10 @@ describe('AngularParser - Constructor Token Resolution (FR-03)', () => {
       expect(testComponent?.dependencies).toContainEqual({
         token: 'TestService',
         flags: {},
-        parameterName: 'testService'
+        parameterName: 'testService',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: 'constructor',
+        location: { file: expect.stringContaining('components.ts'), line: expect.any(Number), column: expect.any(Number) }
       });
     });
 
@@ -519,7 +562,10 @@ describe('AngularParser - Constructor Token Resolution (FR-03)', () => {
       expect(testService?.dependencies).toContainEqual({
         token: 'BasicService',
         flags: {},
-        parameterName: 'basicService'
+        parameterName: 'basicService',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: 'constructor',
+        location: { file: expect.stringContaining('services.ts'), line: expect.any(Number), column: expect.any(Number) }
       });
     });
 
@@ -540,7 +586,10 @@ describe('AngularParser - Constructor Token Resolution (FR-03)', () => {
       expect(injectComponent?.dependencies).toContainEqual({
         token: 'API_CONFIG',
         flags: {},
-        parameterName: 'config'
+        parameterName: 'config',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: '@Inject',
+        location: { file: expect.stringContaining('components.ts'), line: expect.any(Number), column: expect.any(Number) }
       });
     });
 
@@ -551,7 +600,10 @@ describe('AngularParser - Constructor Token Resolution (FR-03)', () => {
       expect(injectService?.dependencies).toContainEqual({
         token: 'API_CONFIG',
         flags: {},
-        parameterName: 'config'
+        parameterName: 'config',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: '@Inject',
+        location: { file: expect.stringContaining('services.ts'), line: expect.any(Number), column: expect.any(Number) }
       });
     });
 
@@ -1142,15 +1194,15 @@ describe('AngularParser - inject() Function Detection', () => {
       // Act
       const parsedClasses = await parser.parseClasses();
       const { buildGraph } = await import('../core/graph-builder');
-      const graph = buildGraph(parsedClasses);
+      const graph = buildGraph(parsedClasses, undefined, { rootDir: testFixturesDir });
 
       // Assert - Should have nodes for all services and components
       expect(graph.nodes.length).toBeGreaterThan(0);
 
-      // Verify specific nodes exist from test fixtures
+      // Verify specific nodes exist from test fixtures (ids are relative to the tsconfig directory)
       const nodeIds = graph.nodes.map(n => n.id);
-      expect(nodeIds).toContain('TestService');
-      expect(nodeIds).toContain('TestComponent');
+      expect(nodeIds).toContain('src/services.ts#TestService');
+      expect(nodeIds).toContain('src/components.ts#TestComponent');
 
       // Should have edges representing dependencies
       expect(graph.edges.length).toBeGreaterThan(0);
@@ -1174,14 +1226,14 @@ describe('AngularParser - inject() Function Detection', () => {
       // Act
       const parsedClasses = await parser.parseClasses();
       const { buildGraph } = await import('../core/graph-builder');
-      const graph = buildGraph(parsedClasses);
+      const graph = buildGraph(parsedClasses, undefined, { rootDir: testFixturesDir });
 
       // Assert - Look for specific dependency relationships
-      const testComponentEdges = graph.edges.filter(e => e.from === 'TestComponent');
+      const testComponentEdges = graph.edges.filter(e => e.from === 'src/components.ts#TestComponent');
       expect(testComponentEdges.length).toBeGreaterThan(0);
 
       // Should have edge from TestComponent to TestService
-      const testServiceEdge = testComponentEdges.find(e => e.to === 'TestService');
+      const testServiceEdge = testComponentEdges.find(e => e.to === 'src/services.ts#TestService');
       expect(testServiceEdge).toBeDefined();
     });
 
@@ -1475,3 +1527,447 @@ describe('AngularParser - inject() Function Detection', () => {
     });
   });
 });
+
+describe('AngularParser - Providers Parsing', () => {
+  const testFixturesDir = './src/tests/fixtures';
+  const testTsConfig = join(testFixturesDir, 'tsconfig.json');
+  let parser: AngularParser;
+
+  beforeEach(() => {
+    const options: CliOptions = {
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+    parser = new AngularParser(options);
+    parser.loadProject();
+  });
+
+  it('should collect providers from @NgModule metadata', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const module = classes.find(c => c.name === 'ProvidersModule');
+
+    expect(module).toBeDefined();
+    expect(module?.providers).toEqual([
+      { token: 'BasicService', kind: 'class' },
+      { token: 'LoggerService', kind: 'class', target: 'ConsoleLoggerService' },
+      { token: 'LEGACY_LOGGER', kind: 'existing', target: 'LoggerService' },
+      { token: 'API_CONFIG', kind: 'value' },
+      { token: 'APP_CONFIG', kind: 'factory', deps: ['BasicService', 'TestService'] },
+      { token: 'APP_INITIALIZER_TOKEN', kind: 'factory', multi: true },
+      { token: 'TestService', kind: 'class' },
+      { token: 'SHARED_FLAG', kind: 'value' }
+    ]);
+  });
+
+  it('should collect providers from @Component metadata alongside constructor dependencies', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const component = classes.find(c => c.name === 'ComponentWithProviders');
+
+    expect(component?.kind).toBe('component');
+    expect(component?.dependencies.map(d => d.token)).toEqual(['LoggerService']);
+    expect(component?.providers).toEqual([
+      { token: 'LoggerService', kind: 'class', target: 'ConsoleLoggerService' }
+    ]);
+  });
+
+  it('should omit providers for classes without a providers array', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const basicComponent = classes.find(c => c.name === 'BasicComponent');
+
+    expect(basicComponent).toBeDefined();
+    expect(basicComponent?.providers).toBeUndefined();
+  });
+});
+
+describe('AngularParser - InjectionToken Resolution', () => {
+  const testFixturesDir = './src/tests/fixtures';
+  const testTsConfig = join(testFixturesDir, 'tsconfig.json');
+  let parser: AngularParser;
+
+  beforeEach(() => {
+    const options: CliOptions = {
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+    parser = new AngularParser(options);
+    parser.loadProject();
+  });
+
+  it('should collect InjectionToken declarations as token entries', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const apiUrl = classes.find(c => c.name === 'API_URL');
+
+    expect(apiUrl?.kind).toBe('token');
+    expect(apiUrl?.dependencies).toEqual([]);
+    expect(apiUrl?.token).toEqual({
+      description: 'API base url',
+      type: 'string',
+      filePath: expect.stringContaining('tokens.ts')
+    });
+  });
+
+  it('should record providedIn and turn factory inject() calls into dependencies', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const featureFlags = classes.find(c => c.name === 'FEATURE_FLAGS');
+
+    expect(featureFlags?.token).toMatchObject({
+      description: 'feature flags',
+      type: 'Record<string, boolean>',
+      providedIn: 'root',
+      factory: true
+    });
+    expect(featureFlags?.dependencies.map(d => d.token)).toEqual(['BasicService']);
+  });
+
+  it('should ignore constants that are not InjectionTokens', async () => {
+    const classes = await parser.findDecoratedClasses();
+
+    expect(classes.find(c => c.name === 'PLAIN_TOKEN')).toBeUndefined();
+    expect(classes.filter(c => c.kind === 'token').map(c => c.name).sort()).toEqual([
+      'API_URL',
+      'FEATURE_FLAGS'
+    ]);
+  });
+
+  it('should link @Inject() and inject() usages to the token declaration', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const graph = buildGraph(classes, undefined, { rootDir: testFixturesDir });
+
+    const consumerEdges = graph.edges.filter(e => e.from === 'src/tokens.ts#ServiceWithInjectionTokens');
+    expect(consumerEdges.map(e => e.to).sort()).toEqual([
+      'src/tokens.ts#API_URL',
+      'src/tokens.ts#FEATURE_FLAGS'
+    ]);
+    expect(graph.nodes.find(n => n.id === 'src/tokens.ts#API_URL')?.kind).toBe('token');
+    expect(graph.edges).toContainEqual(
+      expect.objectContaining({ from: 'src/tokens.ts#FEATURE_FLAGS', to: 'src/services.ts#BasicService' })
+    );
+  });
+});
+
+describe('AngularParser - Duplicate Class Names', () => {
+  const testFixturesDir = './src/tests/fixtures';
+  const testTsConfig = join(testFixturesDir, 'tsconfig.json');
+  let parser: AngularParser;
+
+  beforeEach(() => {
+    AngularParser.resetWarningState();
+    const options: CliOptions = {
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+    parser = new AngularParser(options);
+    parser.loadProject();
+  });
+
+  it('should report name collisions in structured warnings', async () => {
+    const consoleMock = mockConsole();
+    try {
+      await parser.findDecoratedClasses();
+    } finally {
+      consoleMock.restore();
+    }
+
+    const collisions = parser.getStructuredWarnings().categories.nameCollisions;
+    const loggerCollision = collisions.find(w => w.message.includes("'LoggerService'"));
+    expect(loggerCollision).toBeDefined();
+    expect(loggerCollision?.type).toBe('duplicate_node_name');
+    expect(loggerCollision?.message).toContain('legacy/logger.service.ts');
+    expect(loggerCollision?.message).toContain('providers.ts');
+  });
+
+  it('should keep same-named classes as separate nodes linked to their own consumers', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const graph = buildGraph(classes, undefined, { rootDir: testFixturesDir });
+
+    const loggerNodes = graph.nodes.filter(n => n.label === 'LoggerService');
+    expect(loggerNodes.map(n => n.id).sort()).toEqual([
+      'src/legacy/logger.service.ts#LoggerService',
+      'src/providers.ts#LoggerService'
+    ]);
+    expect(graph.edges).toContainEqual({
+      from: 'src/legacy/logger.service.ts#LegacyConsumerService',
+      to: 'src/legacy/logger.service.ts#LoggerService',
+      flags: {},
+      parameterName: 'logger',
+      source: 'constructor',
+      location: { file: 'src/legacy/logger.service.ts', line: 14, column: 15 }
+    });
+    expect(graph.edges).toContainEqual({
+      from: 'src/providers.ts#ComponentWithProviders',
+      to: 'src/providers.ts#LoggerService',
+      flags: {},
+      parameterName: 'logger',
+      source: 'constructor',
+      location: { file: 'src/providers.ts', line: 48, column: 15 }
+    });
+  });
+});
+
+describe('AngularParser - Functional inject()', () => {
+  const testFixturesDir = './src/tests/fixtures';
+  const testTsConfig = join(testFixturesDir, 'tsconfig.json');
+
+  const createParser = (includeDecorators: boolean): AngularParser => {
+    const options: CliOptions = {
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators,
+      verbose: false
+    };
+    const parser = new AngularParser(options);
+    parser.loadProject();
+    return parser;
+  };
+
+  it('should emit exported functions and const arrow functions that call inject()', async () => {
+    const classes = await createParser(false).findDecoratedClasses();
+    const functions = classes.filter(c => c.kind === 'function');
+
+    expect(functions.map(f => f.name).sort()).toEqual([
+      'authGuard',
+      'authInterceptor',
+      'provideFeature',
+      'userResolver'
+    ]);
+    expect(functions.every(f => f.filePath.endsWith('functions.ts'))).toBe(true);
+  });
+
+  it('should turn inject() calls into dependencies named after their variables', async () => {
+    const classes = await createParser(false).findDecoratedClasses();
+
+    expect(classes.find(c => c.name === 'authGuard')?.dependencies).toEqual([
+      {
+        token: 'TestService',
+        flags: {},
+        parameterName: 'testService',
+        tokenFilePath: expect.stringContaining('services.ts'),
+        source: 'inject',
+        location: { file: expect.stringContaining('functions.ts'), line: 11, column: 23 }
+      }
+    ]);
+    expect(classes.find(c => c.name === 'userResolver')?.dependencies).toEqual([
+      expect.objectContaining({ token: 'API_URL', parameterName: 'inject' })
+    ]);
+    expect(classes.find(c => c.name === 'provideFeature')?.dependencies).toEqual([
+      expect.objectContaining({ token: 'TestService', parameterName: 'inject' })
+    ]);
+  });
+
+  it('should record inject() fields with their source and location', async () => {
+    const classes = await createParser(false).findDecoratedClasses();
+    const injectedPipe = classes.find(c => c.name === 'InjectedPipe');
+
+    expect(injectedPipe?.dependencies[0]).toMatchObject({
+      parameterName: 'testService',
+      source: 'inject-field',
+      location: { file: expect.stringContaining('pipes.ts'), line: 24, column: 3 }
+    });
+  });
+
+  it('should parse inject() options into flags and ignore repeated tokens', async () => {
+    const classes = await createParser(true).findDecoratedClasses();
+    const interceptor = classes.find(c => c.name === 'authInterceptor');
+
+    expect(interceptor?.dependencies).toEqual([
+      expect.objectContaining({
+        token: 'BasicService',
+        flags: { optional: true },
+        parameterName: 'basicService'
+      })
+    ]);
+  });
+});
+
+describe('AngularParser - providedIn Scope', () => {
+  const testFixturesDir = './src/tests/fixtures';
+  const testTsConfig = join(testFixturesDir, 'tsconfig.json');
+  let parser: AngularParser;
+
+  beforeEach(() => {
+    const options: CliOptions = {
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+    parser = new AngularParser(options);
+    parser.loadProject();
+  });
+
+  it('should record providedIn string scopes and module references', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const scopeOf = (name: string) => classes.find(c => c.name === name)?.providedIn;
+
+    expect(scopeOf('RootProvidedService')).toBe('root');
+    expect(scopeOf('MultiLineDecoratorService')).toBe('root');
+    expect(scopeOf('PlatformScopedService')).toBe('platform');
+    expect(scopeOf('AnyScopedService')).toBe('any');
+    expect(scopeOf('ModuleScopedService')).toBe('CoreModule');
+  });
+
+  it('should leave providedIn unset for services without a scope', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const basicService = classes.find(c => c.name === 'BasicService');
+
+    expect(basicService).toBeDefined();
+    expect(basicService).not.toHaveProperty('providedIn');
+  });
+
+  it('should carry providedIn onto service and token graph nodes', async () => {
+    const classes = await parser.findDecoratedClasses();
+    const graph = buildGraph(classes, undefined, { rootDir: testFixturesDir });
+
+    expect(graph.nodes.find(n => n.id === 'src/scopes.ts#AnyScopedService')?.providedIn).toBe('any');
+    expect(graph.nodes.find(n => n.id === 'src/tokens.ts#FEATURE_FLAGS')?.providedIn).toBe('root');
+  });
+});
+
+describe('AngularParser - Excluded Files', () => {
+  const testTsConfig = join('./src/tests/fixtures', 'tsconfig.json');
+
+  it('should skip source files matching exclude globs', async () => {
+    const parser = new AngularParser({
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false,
+      exclude: ['src/pipes.ts', '**/modules.*']
+    });
+    parser.loadProject();
+
+    const classes = await parser.findDecoratedClasses();
+
+    expect(classes.some(c => c.filePath.endsWith('pipes.ts'))).toBe(false);
+    expect(classes.some(c => c.filePath.endsWith('modules.ts'))).toBe(false);
+    expect(classes.some(c => c.name === 'BasicService')).toBe(true);
+  });
+
+  it('should only parse source files matching include globs, minus excluded ones', async () => {
+    const parser = new AngularParser({
+      project: testTsConfig,
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false,
+      include: ['src/{pipes,modules}.ts'],
+      exclude: ['modules.ts']
+    });
+    parser.loadProject();
+
+    const classes = await parser.findDecoratedClasses();
+
+    expect(classes.length).toBeGreaterThan(0);
+    expect(classes.every(c => c.filePath.endsWith('pipes.ts'))).toBe(true);
+  });
+
+  it('should report the number of excluded files in verbose mode', async () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const parser = new AngularParser({
+        project: testTsConfig,
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: false,
+        verbose: true,
+        exclude: ['src/pipes.ts', 'src/modules.ts']
+      });
+      parser.loadProject();
+      await parser.findDecoratedClasses();
+
+      expect(parser.getRunStats()).toEqual({ excludedFiles: 2 });
+      expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/, excluded 2 files$/));
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+});
+
+describe('AngularParser - Declaration Metadata', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'ng-di-graph-metadata-'));
+    writeFileSync(
+      join(projectDir, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { experimentalDecorators: true, strict: true } })
+    );
+    writeFileSync(
+      join(projectDir, 'widgets.ts'),
+      [
+        "import { Component, Directive, Injectable } from '@angular/core';",
+        '',
+        "@Injectable({ providedIn: 'root' })",
+        'class WidgetService {}',
+        'export { WidgetService as PublicWidgetService };',
+        '',
+        "@Component({ selector: 'app-widget', standalone: true, template: '' })",
+        'export default class WidgetComponent {}',
+        '',
+        "@Directive({ selector: '[appLegacy]', standalone: false })",
+        'export class LegacyDirective {}',
+        '',
+        '@Injectable()',
+        'class InternalService {}'
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should record location, export name, selector and standalone flag of declarations', async () => {
+    const parser = new AngularParser({
+      project: join(projectDir, 'tsconfig.json'),
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    });
+    parser.loadProject();
+
+    const classes = await parser.findDecoratedClasses();
+    const metadataOf = (name: string) => {
+      const parsedClass = classes.find(c => c.name === name);
+      return {
+        line: parsedClass?.location?.line,
+        exportName: parsedClass?.exportName,
+        selector: parsedClass?.selector,
+        standalone: parsedClass?.standalone
+      };
+    };
+
+    expect(metadataOf('WidgetService')).toEqual({ line: 4, exportName: 'PublicWidgetService' });
+    expect(metadataOf('WidgetComponent')).toEqual({
+      line: 8,
+      exportName: 'default',
+      selector: 'app-widget',
+      standalone: true
+    });
+    expect(metadataOf('LegacyDirective')).toEqual({
+      line: 11,
+      exportName: 'LegacyDirective',
+      selector: '[appLegacy]',
+      standalone: false
+    });
+    expect(metadataOf('InternalService')).toEqual({ line: 14 });
+    expect(classes.find(c => c.name === 'LegacyDirective')?.location).toEqual({
+      file: expect.stringContaining('widgets.ts'),
+      line: 11,
+      column: 14
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rmSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { analyze } from '../index';
+import { AngularParser } from '../core/parser';
+import { formatWatchSummary, patchParsedClasses, watchProject } from '../core/watch';
+import type { CliOptions, ParsedClass, ProjectWatcher, WatchUpdate } from '../types';
+import { createTempProject, writeTempSource } from './helpers/test-utils';
+
+describe('Watch Mode', () => {
+  describe('patchParsedClasses', () => {
+    it('should replace the declarations of re-parsed files only', () => {
+      const parsedClasses: ParsedClass[] = [
+        { name: 'A', kind: 'service', filePath: '/app/a.ts', dependencies: [] },
+        { name: 'B', kind: 'service', filePath: '/app/b.ts', dependencies: [] },
+        { name: 'B2', kind: 'service', filePath: '/app/b.ts', dependencies: [] }
+      ];
+      const reparsed = new Map<string, ParsedClass[]>([
+        ['/app/b.ts', [{ name: 'B3', kind: 'service', filePath: '/app/b.ts', dependencies: [] }]],
+        ['/app/c.ts', []]
+      ]);
+
+      expect(patchParsedClasses(parsedClasses, reparsed).map(c => c.name)).toEqual(['A', 'B3']);
+    });
+  });
+
+  describe('formatWatchSummary', () => {
+    it('should list added and removed edges by label', () => {
+      const update: WatchUpdate = {
+        previousGraph: {
+          nodes: [
+            { id: 'src/a.ts#A', label: 'A', kind: 'service' },
+            { id: 'src/old.ts#Old', label: 'Old', kind: 'service' }
+          ],
+          edges: [{ from: 'src/a.ts#A', to: 'src/old.ts#Old' }],
+          circularDependencies: []
+        },
+        graph: {
+          nodes: [
+            { id: 'src/a.ts#A', label: 'A', kind: 'service' },
+            { id: 'src/new.ts#New', label: 'New', kind: 'service' }
+          ],
+          edges: [{ from: 'src/a.ts#A', to: 'src/new.ts#New' }],
+          circularDependencies: []
+        },
+        changedFiles: ['src/a.ts', 'src/new.ts'],
+        reparsedFiles: 3
+      };
+      update.diff = {
+        addedNodes: [],
+        removedNodes: [],
+        addedEdges: [{ from: 'src/a.ts#A', to: 'src/new.ts#New' }],
+        removedEdges: [{ from: 'src/a.ts#A', to: 'src/old.ts#Old' }],
+        changedFlags: [],
+        newCycles: [],
+        resolvedCycles: []
+      };
+
+      expect(formatWatchSummary(update)).toBe(
+        [
+          '🔄 2 files changed (3 files re-parsed): +1 edge, -1 edge',
+          '  + A -> New',
+          '  - A -> Old'
+        ].join('\n')
+      );
+    });
+
+    it('should note when no edge changed', () => {
+      expect(
+        formatWatchSummary({
+          graph: { nodes: [], edges: [], circularDependencies: [] },
+          changedFiles: ['src/a.ts'],
+          reparsedFiles: 1
+        })
+      ).toBe('🔄 src/a.ts changed (1 file re-parsed): no edge changes');
+    });
+  });
+
+  describe('watchProject', () => {
+    let projectDir: string;
+    let watcher: ProjectWatcher | undefined;
+
+    const writeSource = (name: string, lines: string[]) => writeTempSource(projectDir, name, lines);
+
+    beforeEach(() => {
+      AngularParser.resetWarningState();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      projectDir = createTempProject();
+    });
+
+    afterEach(() => {
+      watcher?.close();
+      watcher = undefined;
+      vi.restoreAllMocks();
+      rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    const startWatching = async () => {
+      const updates: WatchUpdate[] = [];
+      const waiters: Array<() => void> = [];
+      const options: CliOptions = {
+        project: join(projectDir, 'tsconfig.json'),
+        format: 'json',
+        direction: 'downstream',
+        includeDecorators: false,
+        verbose: false
+      };
+
+      watcher = await watchProject(
+        options,
+        {
+          onUpdate: update => {
+            updates.push(update);
+            waiters.shift()?.();
+          },
+          onError: error => {
+            throw error;
+          }
+        }
+      );
+
+      const nextUpdate = () =>
+        new Promise<WatchUpdate>(resolve => {
+          waiters.push(() => resolve(updates[updates.length - 1]));
+        });
+      return { updates, nextUpdate };
+    };
+
+    it('should report the initial graph', async () => {
+      const { updates } = await startWatching();
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0].diff).toBeUndefined();
+      expect(updates[0].graph.edges).toEqual([
+        expect.objectContaining({ from: 'src/user.service.ts#UserService', to: 'src/logger.ts#Logger' })
+      ]);
+    });
+
+    it('should re-parse changed, new and deleted files with their importers', async () => {
+      const { nextUpdate } = await startWatching();
+
+      let update = nextUpdate();
+      writeSource('config.ts', [
+        "import { Injectable } from '@angular/core';",
+        '@Injectable()',
+        'export class Config {}'
+      ]);
+      writeSource('logger.ts', [
+        "import { Injectable } from '@angular/core';",
+        "import { Config } from './config';",
+        '@Injectable()',
+        'export class Logger {',
+        '  constructor(private config: Config) {}',
+        '}'
+      ]);
+      const added = await update;
+
+      expect(added.changedFiles).toEqual(['src/config.ts', 'src/logger.ts']);
+      // logger.ts is imported by user.service.ts, which is re-parsed as well
+      expect(added.reparsedFiles).toBe(3);
+      expect(added.diff?.addedEdges).toEqual([
+        expect.objectContaining({ from: 'src/logger.ts#Logger', to: 'src/config.ts#Config' })
+      ]);
+      expect(added.diff?.removedEdges).toEqual([]);
+
+      update = nextUpdate();
+      unlinkSync(join(projectDir, 'src', 'user.service.ts'));
+      const removed = await update;
+
+      expect(removed.graph.nodes.map(node => node.label)).toEqual(['Config', 'Logger']);
+      expect(removed.diff?.removedEdges).toEqual([
+        expect.objectContaining({ from: 'src/user.service.ts#UserService', to: 'src/logger.ts#Logger' })
+      ]);
+    });
+
+    it('should keep the export names of classes in changed files', async () => {
+      const { nextUpdate } = await startWatching();
+
+      const update = nextUpdate();
+      writeSource('logger.ts', [
+        "import { Injectable } from '@angular/core';",
+        '@Injectable()',
+        'export class Logger {',
+        '  log(message: string) {}',
+        '}'
+      ]);
+      const changed = await update;
+
+      expect(changed.graph.nodes.find(node => node.id === 'src/logger.ts#Logger')?.exportName).toBe('Logger');
+      expect(changed.graph.nodes.find(node => node.id === 'src/user.service.ts#UserService')?.exportName).toBe(
+        'UserService'
+      );
+    });
+
+    it('should re-parse files importing a changed file through a barrel', async () => {
+      writeSource('index.ts', ["export * from './logger';"]);
+      writeSource('user.service.ts', [
+        "import { Injectable } from '@angular/core';",
+        "import { Logger } from './index';",
+        '@Injectable()',
+        'export class UserService {',
+        '  constructor(private logger: Logger) {}',
+        '}'
+      ]);
+      const { nextUpdate } = await startWatching();
+
+      // Logger moves to another file; logger.ts only re-exports it
+      const update = nextUpdate();
+      writeSource('logging/logger.ts', [
+        "import { Injectable } from '@angular/core';",
+        '@Injectable()',
+        'export class Logger {}'
+      ]);
+      writeSource('logger.ts', ["export { Logger } from './logging/logger';"]);
+      const moved = await update;
+
+      // index.ts and user.service.ts import the moved class through logger.ts
+      expect(moved.reparsedFiles).toBe(4);
+      expect(moved.graph).toEqual((await analyze({ project: join(projectDir, 'tsconfig.json') })).graph);
+      expect(moved.graph.edges).toEqual([
+        expect.objectContaining({ from: 'src/user.service.ts#UserService', to: 'src/logging/logger.ts#Logger' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { CliError } from '../core/error-handler';
+import { discoverWorkspace, parseWorkspace } from '../core/workspace';
+import type { CliOptions } from '../types';
+
+describe('Workspace Discovery', () => {
+  let workspaceDir: string;
+
+  const write = (path: string, content: unknown) => {
+    const filePath = join(workspaceDir, path);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    workspaceDir = realpathSync(mkdtempSync(join(tmpdir(), 'ng-di-graph-workspace-')));
+    write('tsconfig.json', {
+      compilerOptions: {
+        target: 'ES2020',
+        module: 'ES2020',
+        moduleResolution: 'node',
+        experimentalDecorators: true,
+        strict: true,
+        baseUrl: '.',
+        paths: { ui: ['projects/ui/src/index.ts'] }
+      }
+    });
+    write('projects/shop/tsconfig.app.json', { extends: '../../tsconfig.json', include: ['src/**/*.ts'] });
+    write('projects/ui/tsconfig.lib.json', { extends: '../../tsconfig.json', include: ['src/**/*.ts'] });
+    write(
+      'projects/ui/src/index.ts',
+      [
+        "import { Injectable } from '@angular/core';",
+        "@Injectable({ providedIn: 'root' })",
+        'export class ThemeService {}'
+      ].join('\n')
+    );
+    write(
+      'projects/shop/src/cart.ts',
+      [
+        "import { Component, Injectable } from '@angular/core';",
+        "import { ThemeService } from 'ui';",
+        "@Injectable({ providedIn: 'root' })",
+        'export class CartService { constructor(private theme: ThemeService) {} }',
+        "@Component({ selector: 'app-root', template: '' })",
+        'export class AppComponent { constructor(private cart: CartService) {} }'
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  describe('discoverWorkspace', () => {
+    it('should read angular.json projects and their build tsconfig', () => {
+      write('angular.json', {
+        version: 1,
+        projects: {
+          ui: { root: 'projects/ui', projectType: 'library' },
+          shop: {
+            root: 'projects/shop',
+            projectType: 'application',
+            architect: { build: { options: { tsConfig: 'projects/shop/tsconfig.app.json' } } }
+          },
+          docs: { root: 'projects/docs', projectType: 'application' }
+        }
+      });
+
+      expect(discoverWorkspace(workspaceDir)).toEqual({
+        root: workspaceDir,
+        projects: [
+          {
+            name: 'shop',
+            root: join(workspaceDir, 'projects/shop'),
+            tsConfig: join(workspaceDir, 'projects/shop/tsconfig.app.json'),
+            projectType: 'application'
+          },
+          {
+            name: 'ui',
+            root: join(workspaceDir, 'projects/ui'),
+            tsConfig: join(workspaceDir, 'projects/ui/tsconfig.lib.json'),
+            projectType: 'library'
+          }
+        ],
+        skippedProjects: ['docs']
+      });
+    });
+
+    it('should follow project.json paths listed in workspace.json', () => {
+      write('workspace.json', { version: 2, projects: { shop: 'projects/shop' } });
+      write('projects/shop/project.json', {
+        projectType: 'application',
+        targets: { build: { options: { tsConfig: 'projects/shop/tsconfig.app.json' } } }
+      });
+
+      const workspace = discoverWorkspace(join(workspaceDir, 'workspace.json'));
+
+      expect(workspace.projects.map(p => [p.name, p.tsConfig])).toEqual([
+        ['shop', join(workspaceDir, 'projects/shop/tsconfig.app.json')]
+      ]);
+    });
+
+    it('should search project.json files below an Nx workspace', () => {
+      write('nx.json', {});
+      write('projects/shop/project.json', { name: 'shop-app', projectType: 'application' });
+      write('projects/ui/project.json', { projectType: 'library' });
+      write('node_modules/some-package/project.json', { name: 'ignored' });
+
+      const workspace = discoverWorkspace(workspaceDir);
+
+      expect(workspace.projects.map(p => [p.name, p.root])).toEqual([
+        ['shop-app', join(workspaceDir, 'projects/shop')],
+        ['ui', join(workspaceDir, 'projects/ui')]
+      ]);
+    });
+
+    it('should fail when there is no workspace file or no project with a tsconfig', () => {
+      expect(() => discoverWorkspace(workspaceDir)).toThrow(CliError);
+
+      write('angular.json', { version: 1, projects: { docs: { root: 'projects/docs' } } });
+      try {
+        discoverWorkspace(workspaceDir);
+        expect.unreachable('should throw');
+      } catch (error) {
+        expect((error as CliError).code).toBe('INVALID_ARGUMENTS');
+        expect((error as CliError).message).toContain('No projects with a tsconfig');
+      }
+    });
+  });
+
+  describe('parseWorkspace', () => {
+    const options: CliOptions = {
+      project: './tsconfig.json',
+      format: 'json',
+      direction: 'downstream',
+      includeDecorators: false,
+      verbose: false
+    };
+
+    it('should list every class once, tagged with the project containing its file', async () => {
+      write('nx.json', {});
+      write('projects/shop/project.json', { name: 'shop' });
+      write('projects/ui/project.json', { name: 'ui' });
+
+      const { parsedClasses } = await parseWorkspace(discoverWorkspace(workspaceDir), options);
+
+      // ThemeService is reached through the shop's imports first, but belongs to ui
+      expect(parsedClasses.map(c => [c.name, c.project])).toEqual([
+        ['CartService', 'shop'],
+        ['AppComponent', 'shop'],
+        ['ThemeService', 'ui']
+      ]);
+    });
+  });
+});
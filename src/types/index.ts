@@ -3,11 +3,65 @@
  * Based on PRD requirements in @docs/prd/mvp-requirements.md
  */
 
-export type NodeKind = 'service' | 'component' | 'directive' | 'unknown';
+import type { ErrorCode } from '../core/error-handler';
+import type { Logger, LoggingStats } from '../core/logger';
+
+/**
+ * Every node kind, in the order used by validation messages
+ */
+export const NODE_KINDS = [
+  'service',
+  'component',
+  'directive',
+  'pipe',
+  'module',
+  'function',
+  'token',
+  'unknown',
+] as const;
+
+export type NodeKind = (typeof NODE_KINDS)[number];
+
+/**
+ * Every filtering direction accepted by --direction
+ */
+export const DIRECTIONS = ['upstream', 'downstream', 'both'] as const;
+
+export type Direction = (typeof DIRECTIONS)[number];
+
+/**
+ * How a token is registered in a `providers` array
+ * - class: bare class entry or `useClass`
+ * - existing: `useExisting` alias
+ * - value: `useValue`
+ * - factory: `useFactory` (with optional `deps`)
+ */
+export type ProviderKind = 'class' | 'existing' | 'value' | 'factory';
+
+/**
+ * Metadata of a `new InjectionToken<T>('description', { providedIn, factory })` declaration
+ */
+export interface InjectionTokenInfo {
+  description?: string; // First constructor argument
+  type?: string; // Generic type argument text (e.g., 'string')
+  filePath: string; // File declaring the token
+  providedIn?: string; // providedIn option of the token
+  factory?: boolean; // True when the token declares an inline factory
+}
 
 export interface Node {
-  id: string;
+  id: string; // Stable identity: '<file relative to project>#<Name>', or the bare token for unresolved nodes
+  label?: string; // Display name (symbol name)
   kind: NodeKind;
+  providerKinds?: ProviderKind[]; // Provider kinds registered for this token (sorted, unique)
+  providedIn?: string; // Injector scope: 'root', 'platform', 'any' or a module name
+  token?: InjectionTokenInfo; // Present on 'token' nodes
+  project?: string; // Owning workspace project (workspace mode)
+  truncated?: boolean; // Has dependencies or dependents cut off by --depth
+  location?: SourceLocation; // Name of the declaration (absent on unknown nodes)
+  exportName?: string; // Name the declaration is exported under ('default' for default exports)
+  selector?: string; // Component and directive selector
+  standalone?: boolean; // Explicit `standalone` flag of components and directives
 }
 
 export interface EdgeFlags {
@@ -17,27 +71,318 @@ export interface EdgeFlags {
   host?: boolean;
 }
 
+/**
+ * Edge kind - omitted for regular injection edges
+ * 'provided-by' edges point from a token to the class whose `providers` array registers it
+ */
+export type EdgeKind = 'injection' | 'provided-by';
+
+export interface EdgeProvider {
+  kind: ProviderKind;
+  multi?: boolean;
+}
+
+/**
+ * How a dependency is injected
+ * - 'constructor': constructor parameter resolved from its type
+ * - '@Inject': constructor parameter with an @Inject() token
+ * - 'inject-field': inject() call initializing a class field
+ * - 'inject': other inject() calls (functions, token factories, parameter defaults)
+ */
+export type DependencySource = 'constructor' | '@Inject' | 'inject-field' | 'inject';
+
+export interface SourceLocation {
+  file: string; // Relative to the tsconfig directory on edges
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
 export interface Edge {
   from: string;
   to: string;
   flags?: EdgeFlags;
+  parameterName?: string; // Injected constructor parameter, field or variable
+  source?: DependencySource;
+  location?: SourceLocation; // Where the dependency is injected
   isCircular?: boolean;
+  kind?: EdgeKind;
+  provider?: EdgeProvider; // Present on 'provided-by' edges
+}
+
+export interface StronglyConnectedComponent {
+  nodes: string[]; // Sorted node ids
+  cycles: string[][]; // Elementary cycles, starting at their smallest node id, first node not repeated
+  cyclesTruncated?: boolean; // More elementary cycles exist than were listed
+  suggestedBreaks: Array<{ from: string; to: string }>; // Edges whose removal makes the component acyclic
 }
 
 export interface Graph {
   nodes: Node[];
   edges: Edge[];
   circularDependencies: string[][];
+  stronglyConnectedComponents?: StronglyConnectedComponent[]; // Components that contain cycles
+}
+
+/**
+ * Renders a graph in an output format; built-in and plugin formatters implement it
+ */
+export interface Formatter {
+  format(graph: Graph): string;
 }
 
+/**
+ * Creates a formatter from the resolved CLI options (default export of formatter modules)
+ */
+export type FormatterFactory = (options: CliOptions, logger?: Logger) => Formatter;
+
 export interface CliOptions {
   project: string;
-  format: 'json' | 'mermaid';
+  format: string; // Built-in format (json, mermaid, dot, html), formatter module path or package name
   entry?: string[];
-  direction: 'upstream' | 'downstream' | 'both';
+  direction: Direction;
+  depth?: number; // Edges followed from the entry points (unlimited when omitted)
   includeDecorators: boolean;
   out?: string;
   verbose: boolean;
+  disambiguate?: boolean;
+  scope?: string[];
+  showScope?: boolean;
+  showProvenance?: boolean;
+  showMetadata?: boolean;
+  include?: string[]; // Glob patterns of the only source files to parse, relative to the tsconfig directory
+  exclude?: string[]; // Glob patterns of source files to skip, relative to the tsconfig directory
+  workspace?: string; // angular.json, workspace.json, nx.json or their directory; replaces project
+  projects?: string[]; // Only keep nodes owned by these workspace projects
+  hide?: string[]; // Globs or /regex/ matched against node labels and ids
+  onlyKind?: NodeKind[]; // Only keep nodes of these kinds
+  hideUnknown?: boolean; // Remove unknown nodes
+  pathPrefix?: string[]; // Only keep nodes declared below these folders (relative to the tsconfig directory)
+  cache?: boolean; // Reuse the parse results of unchanged files from the on-disk parse cache
+  cacheDir?: string; // Parse cache directory (default: node_modules/.cache/ng-di-graph)
+  workers?: number; // Worker threads parsing source files in parallel (serial when omitted or 1)
+}
+
+/**
+ * Output target of a configuration file
+ */
+export interface ConfigOutput {
+  format: CliOptions['format'];
+  out: string;
+}
+
+/**
+ * Contents of ng-di-graph.config.json / ng-di-graph.config.ts
+ * Relative paths are resolved against the directory of the configuration file
+ */
+export interface NgDiGraphConfig {
+  project?: string;
+  format?: CliOptions['format'];
+  entry?: string[];
+  direction?: CliOptions['direction'];
+  depth?: number;
+  includeDecorators?: boolean;
+  out?: string;
+  verbose?: boolean;
+  disambiguate?: boolean;
+  scope?: string[];
+  showScope?: boolean;
+  showProvenance?: boolean;
+  showMetadata?: boolean;
+  include?: string[];
+  exclude?: string[];
+  workspace?: string;
+  projects?: string[];
+  hide?: string[];
+  onlyKind?: NodeKind[];
+  hideUnknown?: boolean;
+  pathPrefix?: string[];
+  cache?: boolean;
+  cacheDir?: string;
+  workers?: number;
+  outputs?: ConfigOutput[]; // Written in one run when --format and --out are not given
+  check?: {
+    failOn?: CheckRule[];
+    maxCycles?: number;
+    baseline?: string;
+  };
+}
+
+/**
+ * Rules the `check` command can fail on
+ */
+export type CheckRule = 'unknown-nodes' | 'cycles' | 'warnings';
+
+export interface CheckOptions {
+  failOn: CheckRule[];
+  maxCycles: number; // Cycles tolerated by the 'cycles' rule
+  baseline?: Baseline; // Accepted cycles and warnings; only entries missing from it are checked
+  rootDir?: string; // Directory warning file paths are made relative to (tsconfig directory)
+}
+
+export interface CheckCycle {
+  nodes: string[]; // Node ids of the cycle, without repeating the first node
+  edges: Array<{ from: string; to: string }>; // Edges closing the cycle, in order
+}
+
+export interface CheckResult {
+  passed: boolean;
+  failedRules: CheckRule[];
+  cycles: CheckCycle[];
+  unknownNodes: string[]; // Ids of nodes with kind 'unknown'
+  warningCount: number;
+  maxCycles: number;
+  cyclesTruncated?: boolean; // A component listed only some of its elementary cycles, so counts are lower bounds
+  newCycles?: CheckCycle[]; // Cycles missing from the baseline (only with a baseline)
+  newWarnings?: BaselineWarning[]; // Warnings missing from the baseline (only with a baseline)
+}
+
+export type WarningCategory = keyof StructuredWarnings['categories'];
+
+export interface BaselineWarning {
+  category: WarningCategory;
+  type: string;
+  file: string; // Relative to the tsconfig directory
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  cycles: string[][]; // Node ids, rotated to start at the smallest id, first node not repeated
+  warnings: BaselineWarning[];
+}
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+export interface EdgeFlagChange {
+  from: string;
+  to: string;
+  kind?: EdgeKind;
+  base: EdgeFlags; // Only flags that are set
+  head: EdgeFlags; // Only flags that are set
+}
+
+export interface GraphDiff {
+  addedNodes: Node[];
+  removedNodes: Node[];
+  addedEdges: Edge[];
+  removedEdges: Edge[];
+  changedFlags: EdgeFlagChange[];
+  newCycles: string[][]; // Normalised like baseline cycles
+  resolvedCycles: string[][];
+}
+
+export interface BuildGraphOptions {
+  rootDir?: string; // Node ids use file paths relative to this directory (tsconfig directory)
+  maxCyclesPerComponent?: number; // Elementary cycles listed per strongly connected component
+}
+
+export interface PathOptions {
+  all?: boolean; // List every simple path instead of one shortest path
+  limit?: number; // Maximum number of paths listed with `all`
+}
+
+export interface DependencyPath {
+  nodes: string[]; // Node ids from source to target
+  edges: Edge[]; // One edge per hop: edges[i] goes from nodes[i] to nodes[i + 1]
+}
+
+export interface PathResult {
+  from: string[]; // Node ids matching the source name
+  to: string[]; // Node ids matching the target name
+  paths: DependencyPath[]; // Shortest first
+  truncated?: boolean; // More paths exist than the limit allowed to list
+}
+
+/**
+ * Options of the programmatic `analyze()` API; omitted filters are not applied
+ */
+export interface AnalyzeOptions
+  extends Partial<
+    Pick<
+      CliOptions,
+      | 'project'
+      | 'workspace'
+      | 'entry'
+      | 'direction'
+      | 'depth'
+      | 'includeDecorators'
+      | 'include'
+      | 'exclude'
+      | 'scope'
+      | 'projects'
+      | 'hide'
+      | 'onlyKind'
+      | 'hideUnknown'
+      | 'pathPrefix'
+      | 'cache'
+      | 'cacheDir'
+      | 'workers'
+    >
+  > {
+  verbose?: boolean; // Collect timing and logging statistics
+  onLog?: (line: string) => void; // Receives verbose log lines (discarded when omitted)
+}
+
+export interface AnalysisStats {
+  totalTime: number; // Milliseconds spent parsing and building the graph
+  peakMemory: number; // Peak heap usage in bytes
+  totalLogs: number;
+  categoryCounts: LoggingStats['categoryCounts'];
+}
+
+export interface AnalysisResult {
+  graph: Graph;
+  warnings: StructuredWarnings;
+  rootDir: string; // Directory node ids and locations are relative to
+  stats?: AnalysisStats; // Set in verbose mode
+  cache?: ParseCacheStats; // Set when the parse cache is enabled
+}
+
+export interface ParseCacheStats {
+  hits: number; // Files whose classes and warnings were read from the cache
+  misses: number; // Files parsed because they were new or changed
+}
+
+/**
+ * Cached parse result of one source file
+ */
+export interface ParseCacheEntry {
+  classes: ParsedClass[];
+  warnings: Array<{ category: keyof StructuredWarnings['categories']; warning: Warning }>;
+}
+
+/**
+ * Input of a parse worker thread
+ */
+export interface ParseWorkerData {
+  options: CliOptions; // Options of the parser that started the worker
+  filePaths: string[]; // Absolute paths of the source files the worker parses
+}
+
+/**
+ * Parse result of one source file, sent back by a parse worker
+ */
+export interface ParsedFileResult extends ParseCacheEntry {
+  filePath: string;
+  error?: { message: string; code?: ErrorCode }; // Set when parsing failed; code of a CliError
+}
+
+export interface WatchUpdate {
+  graph: Graph; // Filtered graph after the change
+  previousGraph?: Graph; // Graph before the change (unset for the initial analysis)
+  changedFiles: string[]; // Changed files, relative to the tsconfig directory
+  reparsedFiles: number; // Changed files plus their importers
+  diff?: GraphDiff; // Changes against the previous graph (unset for the initial analysis)
+}
+
+export interface WatchHandlers {
+  onUpdate: (update: WatchUpdate) => void | Promise<void>;
+  onError: (error: unknown) => void; // Failed re-analysis; watching goes on
+}
+
+export interface ProjectWatcher {
+  rootDir: string; // Watched directory (tsconfig directory)
+  close(): void;
 }
 
 export interface ParsedClass {
@@ -45,12 +390,50 @@ export interface ParsedClass {
   kind: NodeKind;
   filePath: string;
   dependencies: ParsedDependency[];
+  providers?: ParsedProvider[];
+  providedIn?: string; // providedIn option of @Injectable()
+  token?: InjectionTokenInfo; // Set for InjectionToken declarations (kind 'token')
+  project?: string; // Owning workspace project (workspace mode)
+  location?: SourceLocation; // Name of the declaration; file is absolute
+  exportName?: string; // Name the declaration is exported under, if exported
+  selector?: string; // selector option of @Component() / @Directive()
+  standalone?: boolean; // standalone option of @Component() / @Directive(), when set
+}
+
+/**
+ * Application or library of an Angular CLI or Nx workspace
+ */
+export interface WorkspaceProject {
+  name: string;
+  root: string; // Absolute project directory
+  tsConfig: string; // Absolute path of the tsconfig used to parse the project
+  projectType?: 'application' | 'library';
+}
+
+export interface Workspace {
+  root: string; // Absolute workspace directory; node ids are relative to it
+  projects: WorkspaceProject[]; // Sorted by name
+  skippedProjects: string[]; // Projects without a tsconfig
+}
+
+/**
+ * A single entry of a `providers` array in @NgModule, @Component or @Directive metadata
+ */
+export interface ParsedProvider {
+  token: string;
+  kind: ProviderKind;
+  multi?: boolean;
+  target?: string; // useClass / useExisting target token
+  deps?: string[]; // useFactory deps tokens
 }
 
 export interface ParsedDependency {
   token: string;
   flags?: EdgeFlags;
   parameterName: string;
+  tokenFilePath?: string; // File declaring the token, used to pick between same-named nodes
+  source?: DependencySource;
+  location?: SourceLocation; // File is absolute
 }
 
 // Internal interface for parameter analysis results
@@ -58,6 +441,7 @@ export interface ParameterAnalysisResult {
   token: string;
   flags: EdgeFlags;
   source: 'decorator' | 'inject' | 'type';
+  tokenFilePath?: string;
 }
 
 // Legacy ParserError interface - maintained for backward compatibility
@@ -84,6 +468,10 @@ export interface VerboseStats {
   injectPatternsUsed: number;
   totalProcessingTime: number;
   totalParameters: number;
+  // Run totals, only set on the summary of AngularParser.getRunStats()
+  excludedFiles?: number; // Source files left out by the include/exclude globs
+  cacheHits?: number; // Files read from the parse cache
+  cacheMisses?: number; // Files parsed because the cache had no valid entry
 }
 
 /**
@@ -108,6 +496,7 @@ export interface StructuredWarnings {
     unresolvedImports: Warning[];
     circularReferences: Warning[];
     performance: Warning[];
+    nameCollisions: Warning[];
   };
   totalCount: number;
 }
@@ -5,6 +5,7 @@ import { resolve } from 'node:path';
 
 const projectRoot = resolve(__dirname, '..', '..');
 const cliEntry = resolve(projectRoot, 'dist', 'cli', 'index.js');
+const libraryEntry = resolve(projectRoot, 'dist', 'index.js');
 
 describe.sequential('npm build output', () => {
   const runNpmScript = (script: string): void => {
@@ -31,4 +32,32 @@ describe.sequential('npm build output', () => {
     expect(helpOutput).toContain('Usage: ng-di-graph');
     expect(helpOutput).toContain('Angular DI dependency graph CLI tool');
   });
+
+  it('bundles the library entry point with type declarations', () => {
+    expect(existsSync(libraryEntry)).toBe(true);
+    expect(readFileSync(resolve(projectRoot, 'dist', 'index.d.ts'), 'utf-8')).toContain(
+      'declare function analyze('
+    );
+
+    const exportedType = execFileSync(
+      'node',
+      ['-e', `process.stdout.write(typeof require(${JSON.stringify(libraryEntry)}).analyze)`],
+      { cwd: projectRoot, encoding: 'utf-8' }
+    );
+
+    expect(exportedType).toBe('function');
+  });
+
+  it('bundles the parse worker used by --workers', () => {
+    expect(existsSync(resolve(projectRoot, 'dist', 'parse-worker.js'))).toBe(true);
+
+    const runCli = (args: string[]): string =>
+      execFileSync(
+        'node',
+        [cliEntry, '--project', 'src/tests/fixtures/tsconfig.json', '--no-cache', ...args],
+        { cwd: projectRoot, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }
+      );
+
+    expect(runCli(['--workers', '2'])).toBe(runCli([]));
+  }, 60000);
 });
@@ -7,6 +7,7 @@ const packageJson = JSON.parse(readFileSync(pkgJsonPath, 'utf-8')) as {
   engines?: Record<string, string>;
   bin?: Record<string, string>;
   main?: string;
+  types?: string;
   files?: string[];
   optionalDependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
@@ -43,12 +44,13 @@ describe('npm toolchain metadata', () => {
     expect(packageJson.scripts['dev:node']).toContain('tsx');
   });
 
-  it('enforces Node-only engines and outputs to dist/cli', () => {
+  it('enforces Node-only engines, outputs the CLI to dist/cli and the library to dist', () => {
     expect(packageJson.engines?.node).toMatch(/^>=\d+/);
     expect(packageJson.engines).not.toHaveProperty('bun');
 
     expect(packageJson.bin?.['ng-di-graph']).toBe('dist/cli/index.js');
-    expect(packageJson.main).toBe('dist/cli/index.js');
+    expect(packageJson.main).toBe('dist/index.js');
+    expect(packageJson.types).toBe('dist/index.d.ts');
     expect(packageJson.files).toContain('dist');
   });
 
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { ExitCodes } from '../../src/core/error-handler';
+import {
+  createTempProject,
+  TEMP_PROJECT_SOURCES,
+  writeTempSource,
+} from '../../src/tests/helpers/test-utils';
+
+const projectRoot = resolve(__dirname, '..', '..');
+const tsxBin = resolve(projectRoot, 'node_modules', '.bin', 'tsx');
+const cliSource = resolve(projectRoot, 'src', 'cli', 'index.ts');
+
+const CYCLIC_SOURCES: Record<string, string[]> = {
+  'a.service.ts': [
+    "import { Injectable } from '@angular/core';",
+    "import { BService } from './b.service';",
+    '@Injectable()',
+    'export class AService {',
+    '  constructor(private b: BService) {}',
+    '}',
+  ],
+  'b.service.ts': [
+    "import { Injectable } from '@angular/core';",
+    "import { AService } from './a.service';",
+    '@Injectable()',
+    'export class BService {',
+    '  constructor(private a: AService) {}',
+    '}',
+  ],
+};
+
+interface CliRun {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+const runCli = (cwd: string, args: string[], env: NodeJS.ProcessEnv = {}): CliRun => {
+  const result = spawnSync(tsxBin, [cliSource, ...args], {
+    cwd,
+    encoding: 'utf-8',
+    env: { ...process.env, NO_COLOR: '1', ...env },
+    timeout: 60000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+};
+
+const git = (cwd: string, args: string[]): string =>
+  execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args],
+    { cwd, encoding: 'utf-8' }
+  );
+
+describe.sequential('CLI subcommands', () => {
+  const tempDirs: string[] = [];
+
+  const tempProject = (sources?: Record<string, string[]>): string => {
+    const projectDir = createTempProject(sources);
+    tempDirs.push(projectDir);
+    return projectDir;
+  };
+
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('check', () => {
+    it('exits with CHECK_FAILED when the project has a cycle', () => {
+      const result = runCli(tempProject(CYCLIC_SOURCES), ['check', '--no-cache']);
+
+      expect(result.status).toBe(ExitCodes.CHECK_FAILED);
+      expect(result.stdout).toContain('ng-di-graph check: failed (cycles)');
+      expect(result.stdout).toContain('AService -> BService -> AService');
+    }, 60000);
+
+    it('exits with SUCCESS when the project passes every rule', () => {
+      const result = runCli(tempProject(), ['check', '--no-cache']);
+
+      expect(result.status).toBe(ExitCodes.SUCCESS);
+      expect(result.stdout).toContain('ng-di-graph check: passed');
+    }, 60000);
+  });
+
+  describe('path', () => {
+    it('prints the shortest path between two nodes', () => {
+      const result = runCli(tempProject(), ['path', 'UserService', 'Logger', '--no-cache']);
+
+      expect(result.status).toBe(ExitCodes.SUCCESS);
+      expect(result.stdout).toBe(
+        ['Path from UserService to Logger (1 hop):', '  UserService', '    -> Logger (logger)', ''].join(
+          '\n'
+        )
+      );
+    }, 60000);
+
+    it('exits with NO_PATH when the target cannot be reached', () => {
+      const result = runCli(tempProject(), ['path', 'Logger', 'UserService', '--no-cache']);
+
+      expect(result.status).toBe(ExitCodes.NO_PATH);
+      expect(result.stdout).toContain('No path from Logger to UserService');
+    }, 60000);
+  });
+
+  describe('diff', () => {
+    it('diffs two git revisions in temporary worktrees and removes them afterwards', () => {
+      const projectDir = tempProject({
+        ...TEMP_PROJECT_SOURCES,
+        'api.service.ts': [
+          "import { Injectable } from '@angular/core';",
+          "import { HttpClient } from 'fake-http';",
+          '@Injectable()',
+          'export class ApiService {',
+          '  constructor(private http: HttpClient) {}',
+          '}',
+        ],
+      });
+      // HttpClient only resolves if the worktree sees the checkout's node_modules
+      const packageDir = join(projectDir, 'node_modules', 'fake-http');
+      mkdirSync(packageDir, { recursive: true });
+      writeFileSync(join(packageDir, 'package.json'), '{ "name": "fake-http", "types": "index.d.ts" }');
+      writeFileSync(join(packageDir, 'index.d.ts'), 'export declare class HttpClient {}');
+      writeFileSync(join(projectDir, '.gitignore'), 'node_modules\n');
+
+      git(projectDir, ['init', '--quiet']);
+      git(projectDir, ['add', '.']);
+      git(projectDir, ['commit', '--quiet', '-m', 'base']);
+      writeTempSource(projectDir, 'audit.service.ts', [
+        "import { Injectable } from '@angular/core';",
+        "import { Logger } from './logger';",
+        '@Injectable()',
+        'export class AuditService {',
+        '  constructor(private logger: Logger) {}',
+        '}',
+      ]);
+      git(projectDir, ['add', '.']);
+      git(projectDir, ['commit', '--quiet', '-m', 'head']);
+
+      const worktreeParent = mkdtempSync(join(tmpdir(), 'ng-di-graph-worktrees-'));
+      tempDirs.push(worktreeParent);
+      const result = runCli(projectDir, ['diff', '--base', 'HEAD~1', '--head', 'HEAD'], {
+        TMPDIR: worktreeParent,
+      });
+
+      expect(result.status).toBe(ExitCodes.SUCCESS);
+      expect(result.stdout).toContain('+ src/audit.service.ts#AuditService (service)');
+      expect(result.stdout).toContain('+ src/audit.service.ts#AuditService -> src/logger.ts#Logger');
+      expect(result.stderr).not.toContain("Unresolved type 'HttpClient'");
+
+      expect(readdirSync(worktreeParent).filter((name) => name.startsWith('ng-di-graph-'))).toEqual(
+        []
+      );
+      const worktrees = git(projectDir, ['worktree', 'list', '--porcelain'])
+        .split('\n')
+        .filter((line) => line.startsWith('worktree '));
+      expect(worktrees).toHaveLength(1);
+    }, 60000);
+  });
+
+  describe('option precedence', () => {
+    it('prefers CLI flags over the config file and the config file over defaults', () => {
+      const projectDir = tempProject();
+
+      expect(runCli(projectDir, ['--no-cache']).stdout.startsWith('{')).toBe(true);
+
+      writeFileSync(join(projectDir, 'ng-di-graph.config.json'), '{ "format": "mermaid" }');
+      expect(runCli(projectDir, ['--no-cache']).stdout.startsWith('flowchart LR')).toBe(true);
+      expect(runCli(projectDir, ['--no-cache', '-f', 'dot']).stdout.startsWith('digraph')).toBe(
+        true
+      );
+    }, 60000);
+  });
+});
@@ -1,16 +1,49 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/cli/index.ts'],
-  outDir: 'dist/cli',
-  target: 'node20',
-  format: ['cjs'],
-  platform: 'node',
-  sourcemap: true,
-  splitting: false,
-  clean: false,
-  minify: false,
-  skipNodeModulesBundle: true,
-  shims: false,
-  tsconfig: 'tsconfig.json',
-});
+export default defineConfig([
+  {
+    entry: ['src/cli/index.ts'],
+    outDir: 'dist/cli',
+    target: 'node20',
+    format: ['cjs'],
+    platform: 'node',
+    sourcemap: true,
+    splitting: false,
+    clean: false,
+    minify: false,
+    skipNodeModulesBundle: true,
+    shims: false,
+    tsconfig: 'tsconfig.json',
+  },
+  {
+    // Library entry point for programmatic use, with type declarations
+    entry: ['src/index.ts'],
+    outDir: 'dist',
+    target: 'node20',
+    format: ['cjs'],
+    platform: 'node',
+    dts: true,
+    sourcemap: true,
+    splitting: false,
+    clean: false,
+    minify: false,
+    skipNodeModulesBundle: true,
+    shims: false,
+    tsconfig: 'tsconfig.json',
+  },
+  {
+    // Worker thread script of --workers, shared by the CLI and library bundles
+    entry: { 'parse-worker': 'src/core/parse-worker.ts' },
+    outDir: 'dist',
+    target: 'node20',
+    format: ['cjs'],
+    platform: 'node',
+    sourcemap: true,
+    splitting: false,
+    clean: false,
+    minify: false,
+    skipNodeModulesBundle: true,
+    shims: false,
+    tsconfig: 'tsconfig.json',
+  },
+]);